@@ -0,0 +1,16 @@
+const nextJest = require('next/jest');
+
+// Loads next.config.js and .env files and compiles TypeScript with SWC, like the app build
+const createJestConfig = nextJest({ dir: './' });
+
+/** @type {import('jest').Config} */
+const customJestConfig = {
+  // Library and route code runs on the server; component tests opt into jsdom with a docblock
+  testEnvironment: 'node',
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1',
+  },
+  testPathIgnorePatterns: ['<rootDir>/node_modules/', '<rootDir>/.next/'],
+};
+
+module.exports = createJestConfig(customJestConfig);
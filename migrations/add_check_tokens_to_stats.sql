@@ -0,0 +1,78 @@
+-- Migration: Count decode-test tokens
+-- Date: 2026-10-19
+-- Description: Add the tokens of a message's comprehension check (decode test) to the session and participant token totals, as its cost already is
+
+-- The signature changes, so drop the old overload before recreating it
+DROP FUNCTION IF EXISTS add_message_with_stats(UUID, UUID, INTEGER, TEXT, TEXT, TEXT, JSONB, INTEGER, TEXT[], JSONB, TEXT, DECIMAL, DECIMAL);
+
+-- Function: Add message and update session statistics atomically
+CREATE OR REPLACE FUNCTION add_message_with_stats(
+  p_session_id UUID,
+  p_participant_id UUID,
+  p_iteration INTEGER,
+  p_original_prompt TEXT,
+  p_evolved_message TEXT,
+  p_translation TEXT,
+  p_token_count JSONB,
+  p_processing_time INTEGER,
+  p_evolution_markers TEXT[] DEFAULT '{}',
+  p_metadata JSONB DEFAULT '{}',
+  p_kind TEXT DEFAULT 'message',
+  p_fidelity_score DECIMAL DEFAULT NULL,
+  p_cost_usd DECIMAL DEFAULT 0,
+  p_check_tokens INTEGER DEFAULT 0
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  message_id UUID;
+  token_total INTEGER;
+  message_cost DECIMAL;
+BEGIN
+  -- Validate inputs
+  IF p_session_id IS NULL OR p_participant_id IS NULL OR p_evolved_message IS NULL OR p_token_count IS NULL THEN
+    RAISE EXCEPTION 'Required parameters cannot be null';
+  END IF;
+  
+  -- Insert message
+  INSERT INTO messages (
+    session_id, participant_id, iteration, 
+    original_prompt, evolved_message, translation, 
+    token_count, processing_time, evolution_markers, metadata, kind, fidelity_score, cost_usd
+  )
+  VALUES (
+    p_session_id, p_participant_id, p_iteration,
+    p_original_prompt, p_evolved_message, p_translation,
+    p_token_count, p_processing_time, p_evolution_markers, COALESCE(p_metadata, '{}'), COALESCE(p_kind, 'message'),
+    p_fidelity_score, COALESCE(p_cost_usd, 0)
+  )
+  RETURNING id INTO message_id;
+  
+  -- Extract token total safely; the turn's decode test counts towards the totals too
+  token_total := COALESCE((p_token_count->>'total')::INTEGER, 0) + COALESCE(p_check_tokens, 0);
+  message_cost := COALESCE(p_cost_usd, 0);
+  
+  -- Update session statistics
+  UPDATE sessions SET
+    current_iteration = GREATEST(current_iteration, p_iteration),
+    total_messages = total_messages + 1,
+    total_tokens = total_tokens + token_total,
+    total_cost_usd = total_cost_usd + message_cost,
+    updated_at = NOW()
+  WHERE id = p_session_id;
+  
+  -- Update participant statistics
+  UPDATE participants SET
+    total_messages = total_messages + 1,
+    total_tokens = total_tokens + token_total,
+    total_cost_usd = total_cost_usd + message_cost
+  WHERE id = p_participant_id;
+  
+  RETURN message_id;
+END;
+$$;
+
+-- Totals of earlier sessions are not backfilled; verify the new signature is in place
+SELECT proname, pronargs FROM pg_proc WHERE proname = 'add_message_with_stats';
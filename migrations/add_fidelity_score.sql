@@ -0,0 +1,80 @@
+-- Migration: Comprehension verification
+-- Date: 2026-10-19
+-- Description: Add fidelity_score to messages for decode tests, where another participant expands a message without its translation
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS fidelity_score DECIMAL(5,4);
+
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_fidelity_score_check;
+ALTER TABLE messages ADD CONSTRAINT messages_fidelity_score_check
+CHECK (fidelity_score >= 0 AND fidelity_score <= 1);
+
+-- The signature changes, so drop the old overload before recreating it
+DROP FUNCTION IF EXISTS add_message_with_stats(UUID, UUID, INTEGER, TEXT, TEXT, TEXT, JSONB, INTEGER, TEXT[], JSONB, TEXT);
+
+-- Function: Add message and update session statistics atomically
+CREATE OR REPLACE FUNCTION add_message_with_stats(
+  p_session_id UUID,
+  p_participant_id UUID,
+  p_iteration INTEGER,
+  p_original_prompt TEXT,
+  p_evolved_message TEXT,
+  p_translation TEXT,
+  p_token_count JSONB,
+  p_processing_time INTEGER,
+  p_evolution_markers TEXT[] DEFAULT '{}',
+  p_metadata JSONB DEFAULT '{}',
+  p_kind TEXT DEFAULT 'message',
+  p_fidelity_score DECIMAL DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  message_id UUID;
+  token_total INTEGER;
+BEGIN
+  -- Validate inputs
+  IF p_session_id IS NULL OR p_participant_id IS NULL OR p_evolved_message IS NULL OR p_token_count IS NULL THEN
+    RAISE EXCEPTION 'Required parameters cannot be null';
+  END IF;
+  
+  -- Insert message
+  INSERT INTO messages (
+    session_id, participant_id, iteration, 
+    original_prompt, evolved_message, translation, 
+    token_count, processing_time, evolution_markers, metadata, kind, fidelity_score
+  )
+  VALUES (
+    p_session_id, p_participant_id, p_iteration,
+    p_original_prompt, p_evolved_message, p_translation,
+    p_token_count, p_processing_time, p_evolution_markers, COALESCE(p_metadata, '{}'), COALESCE(p_kind, 'message'),
+    p_fidelity_score
+  )
+  RETURNING id INTO message_id;
+  
+  -- Extract token total safely
+  token_total := COALESCE((p_token_count->>'total')::INTEGER, 0);
+  
+  -- Update session statistics
+  UPDATE sessions SET
+    current_iteration = GREATEST(current_iteration, p_iteration),
+    total_messages = total_messages + 1,
+    total_tokens = total_tokens + token_total,
+    updated_at = NOW()
+  WHERE id = p_session_id;
+  
+  -- Update participant statistics
+  UPDATE participants SET
+    total_messages = total_messages + 1,
+    total_tokens = total_tokens + token_total
+  WHERE id = p_participant_id;
+  
+  RETURN message_id;
+END;
+$$;
+
+-- Verify the column was added
+SELECT COUNT(*) AS checked_messages, AVG(fidelity_score) AS average_fidelity
+FROM messages
+WHERE fidelity_score IS NOT NULL;
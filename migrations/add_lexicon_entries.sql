@@ -0,0 +1,36 @@
+-- Migration: Shared protocol lexicon
+-- Date: 2026-10-19
+-- Description: Persist the patterns participants establish (symbol, meaning, introducer, adoption history, variants) so they survive reloads and can be edited
+
+CREATE TABLE IF NOT EXISTS lexicon_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID REFERENCES sessions(id) ON DELETE CASCADE NOT NULL,
+
+  symbol TEXT NOT NULL,
+  type TEXT NOT NULL DEFAULT 'symbol' CHECK (type IN ('symbol', 'abbreviation', 'protocol', 'structure')),
+  meaning TEXT NOT NULL,
+
+  -- Provenance
+  introduced_by TEXT NOT NULL, -- participant name, or who added it through the API
+  first_iteration INTEGER NOT NULL CHECK (first_iteration >= 0),
+
+  -- Adoption
+  adoption_count INTEGER NOT NULL DEFAULT 1 CHECK (adoption_count >= 0),
+  adoption_events JSONB NOT NULL DEFAULT '[]', -- [{type: introduced|adopted|amended, speaker, iteration, meaning?}]
+  variants TEXT[] NOT NULL DEFAULT '{}',
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  -- One entry per term per session
+  UNIQUE(session_id, type, symbol)
+);
+
+CREATE INDEX IF NOT EXISTS idx_lexicon_session ON lexicon_entries(session_id, first_iteration);
+
+ALTER TABLE lexicon_entries ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Public read/write lexicon" ON lexicon_entries;
+CREATE POLICY "Public read/write lexicon" ON lexicon_entries FOR ALL USING (true) WITH CHECK (true);
+
+-- Verify the table was created
+SELECT COUNT(*) AS lexicon_entries FROM lexicon_entries;
@@ -0,0 +1,32 @@
+-- Migration: Atomic session config merge
+-- Date: 2026-10-19
+-- Description: Merge top-level keys into sessions.config in a single UPDATE, so concurrent writers (the auto mode runner persisting progress, pause storing the evolution state) cannot overwrite each other's keys with a stale copy
+
+-- Function: Shallow-merge p_patch into sessions.config and return the merged config
+CREATE OR REPLACE FUNCTION merge_session_config(
+  p_session_id UUID,
+  p_patch JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  merged_config JSONB;
+BEGIN
+  UPDATE sessions SET
+    config = COALESCE(config, '{}'::JSONB) || p_patch,
+    updated_at = NOW()
+  WHERE id = p_session_id
+  RETURNING config INTO merged_config;
+
+  IF merged_config IS NULL THEN
+    RAISE EXCEPTION 'Session not found: %', p_session_id;
+  END IF;
+
+  RETURN merged_config;
+END;
+$$;
+
+-- Verify the function exists
+SELECT proname FROM pg_proc WHERE proname = 'merge_session_config';
@@ -0,0 +1,151 @@
+-- Migration: Moderator participant turns
+-- Date: 2026-10-19
+-- Description: Add a kind column to messages so moderator turns are stored separately and excluded from efficiency analytics
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'message';
+
+ALTER TABLE messages DROP CONSTRAINT IF EXISTS messages_kind_check;
+ALTER TABLE messages ADD CONSTRAINT messages_kind_check
+CHECK (kind IN ('message', 'moderation'));
+
+-- The signature changes, so drop the old overload before recreating it
+DROP FUNCTION IF EXISTS add_message_with_stats(UUID, UUID, INTEGER, TEXT, TEXT, TEXT, JSONB, INTEGER, TEXT[], JSONB);
+
+-- Function: Add message and update session statistics atomically
+CREATE OR REPLACE FUNCTION add_message_with_stats(
+  p_session_id UUID,
+  p_participant_id UUID,
+  p_iteration INTEGER,
+  p_original_prompt TEXT,
+  p_evolved_message TEXT,
+  p_translation TEXT,
+  p_token_count JSONB,
+  p_processing_time INTEGER,
+  p_evolution_markers TEXT[] DEFAULT '{}',
+  p_metadata JSONB DEFAULT '{}',
+  p_kind TEXT DEFAULT 'message'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  message_id UUID;
+  token_total INTEGER;
+BEGIN
+  -- Validate inputs
+  IF p_session_id IS NULL OR p_participant_id IS NULL OR p_evolved_message IS NULL OR p_token_count IS NULL THEN
+    RAISE EXCEPTION 'Required parameters cannot be null';
+  END IF;
+  
+  -- Insert message
+  INSERT INTO messages (
+    session_id, participant_id, iteration, 
+    original_prompt, evolved_message, translation, 
+    token_count, processing_time, evolution_markers, metadata, kind
+  )
+  VALUES (
+    p_session_id, p_participant_id, p_iteration,
+    p_original_prompt, p_evolved_message, p_translation,
+    p_token_count, p_processing_time, p_evolution_markers, COALESCE(p_metadata, '{}'), COALESCE(p_kind, 'message')
+  )
+  RETURNING id INTO message_id;
+  
+  -- Extract token total safely
+  token_total := COALESCE((p_token_count->>'total')::INTEGER, 0);
+  
+  -- Update session statistics
+  UPDATE sessions SET
+    current_iteration = GREATEST(current_iteration, p_iteration),
+    total_messages = total_messages + 1,
+    total_tokens = total_tokens + token_total,
+    updated_at = NOW()
+  WHERE id = p_session_id;
+  
+  -- Update participant statistics
+  UPDATE participants SET
+    total_messages = total_messages + 1,
+    total_tokens = total_tokens + token_total
+  WHERE id = p_participant_id;
+  
+  RETURN message_id;
+END;
+$$;
+
+-- Function: Complete session and calculate final analytics
+CREATE OR REPLACE FUNCTION complete_session(
+  p_session_id UUID,
+  p_status TEXT DEFAULT 'completed'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  session_stats JSONB;
+  efficiency_improvement DECIMAL;
+  total_time_ms INTEGER;
+BEGIN
+  -- Validate session exists and is active (paused sessions can also be stopped)
+  IF NOT EXISTS (SELECT 1 FROM sessions WHERE id = p_session_id AND status IN ('running', 'paused')) THEN
+    RAISE EXCEPTION 'Session not found or not active: %', p_session_id;
+  END IF;
+  
+  -- Calculate session duration
+  SELECT EXTRACT(EPOCH FROM (NOW() - started_at)) * 1000
+  INTO total_time_ms
+  FROM sessions WHERE id = p_session_id;
+  
+  -- Calculate efficiency improvement (simplified)
+  WITH message_efficiency AS (
+    SELECT 
+      iteration,
+      (token_count->>'total')::INTEGER as tokens,
+      ROW_NUMBER() OVER (ORDER BY iteration) as rn,
+      COUNT(*) OVER () as total_messages
+    FROM messages 
+    WHERE session_id = p_session_id AND kind = 'message'
+    ORDER BY iteration
+  ),
+  efficiency_trend AS (
+    SELECT 
+      CASE 
+        WHEN total_messages > 5 THEN
+          ((SELECT tokens FROM message_efficiency WHERE rn = 1) - 
+           (SELECT tokens FROM message_efficiency WHERE rn = total_messages)) * 100.0 / 
+           (SELECT tokens FROM message_efficiency WHERE rn = 1)
+        ELSE 0
+      END as improvement
+    FROM message_efficiency LIMIT 1
+  )
+  SELECT COALESCE(improvement, 0) INTO efficiency_improvement FROM efficiency_trend;
+  
+  -- Update session with completion data
+  UPDATE sessions SET 
+    status = p_status,
+    completed_at = NOW(),
+    efficiency_score = efficiency_improvement
+  WHERE id = p_session_id;
+  
+  -- Generate summary statistics
+  SELECT jsonb_build_object(
+    'sessionId', p_session_id,
+    'status', p_status,
+    'duration', total_time_ms,
+    'totalMessages', total_messages,
+    'totalTokens', total_tokens,
+    'efficiencyImprovement', efficiency_improvement,
+    'averageResponseTime', avg_response_time,
+    'completedAt', completed_at
+  )
+  INTO session_stats
+  FROM sessions WHERE id = p_session_id;
+  
+  RETURN session_stats;
+END;
+$$;
+
+-- Verify the constraint is working
+SELECT kind, COUNT(*) as count 
+FROM messages 
+GROUP BY kind;
@@ -0,0 +1,73 @@
+-- Migration: Record LLM call attempts on messages
+-- Date: 2026-10-19
+-- Description: Add a metadata column to messages and accept it in add_message_with_stats
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS metadata JSONB DEFAULT '{}';
+
+-- The signature changes, so drop the old overload before recreating it
+DROP FUNCTION IF EXISTS add_message_with_stats(UUID, UUID, INTEGER, TEXT, TEXT, TEXT, JSONB, INTEGER, TEXT[]);
+
+-- Function: Add message and update session statistics atomically
+CREATE OR REPLACE FUNCTION add_message_with_stats(
+  p_session_id UUID,
+  p_participant_id UUID,
+  p_iteration INTEGER,
+  p_original_prompt TEXT,
+  p_evolved_message TEXT,
+  p_translation TEXT,
+  p_token_count JSONB,
+  p_processing_time INTEGER,
+  p_evolution_markers TEXT[] DEFAULT '{}',
+  p_metadata JSONB DEFAULT '{}'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  message_id UUID;
+  token_total INTEGER;
+BEGIN
+  -- Validate inputs
+  IF p_session_id IS NULL OR p_participant_id IS NULL OR p_evolved_message IS NULL OR p_token_count IS NULL THEN
+    RAISE EXCEPTION 'Required parameters cannot be null';
+  END IF;
+  
+  -- Insert message
+  INSERT INTO messages (
+    session_id, participant_id, iteration, 
+    original_prompt, evolved_message, translation, 
+    token_count, processing_time, evolution_markers, metadata
+  )
+  VALUES (
+    p_session_id, p_participant_id, p_iteration,
+    p_original_prompt, p_evolved_message, p_translation,
+    p_token_count, p_processing_time, p_evolution_markers, COALESCE(p_metadata, '{}')
+  )
+  RETURNING id INTO message_id;
+  
+  -- Extract token total safely
+  token_total := COALESCE((p_token_count->>'total')::INTEGER, 0);
+  
+  -- Update session statistics
+  UPDATE sessions SET
+    current_iteration = GREATEST(current_iteration, p_iteration),
+    total_messages = total_messages + 1,
+    total_tokens = total_tokens + token_total,
+    updated_at = NOW()
+  WHERE id = p_session_id;
+  
+  -- Update participant statistics
+  UPDATE participants SET
+    total_messages = total_messages + 1,
+    total_tokens = total_tokens + token_total
+  WHERE id = p_participant_id;
+  
+  RETURN message_id;
+END;
+$$;
+
+-- Verify the column exists
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'messages' AND column_name = 'metadata';
@@ -0,0 +1,15 @@
+-- Migration: Allow the offline mock provider for participants
+-- Date: 2026-10-19
+-- Description: Add 'mock' to the participants provider constraint so sessions can run without API keys
+
+-- Drop the existing check constraint
+ALTER TABLE participants DROP CONSTRAINT IF EXISTS participants_provider_check;
+
+-- Add the new check constraint including the mock provider
+ALTER TABLE participants ADD CONSTRAINT participants_provider_check 
+CHECK (provider IN ('openai', 'claude', 'gemini', 'perplexity', 'mock'));
+
+-- Verify the constraint is working
+SELECT provider, COUNT(*) as count 
+FROM participants 
+GROUP BY provider;
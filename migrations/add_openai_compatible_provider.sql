@@ -0,0 +1,16 @@
+-- Migration: Allow generic OpenAI-compatible endpoints for participants
+-- Date: 2026-10-19
+-- Description: Add 'openai-compatible' to the participants provider constraint (Ollama, vLLM, llama.cpp).
+-- Endpoint settings (baseURL, apiKeyEnv, pricing) live in participants.config
+
+-- Drop the existing check constraint
+ALTER TABLE participants DROP CONSTRAINT IF EXISTS participants_provider_check;
+
+-- Add the new check constraint including OpenAI-compatible endpoints
+ALTER TABLE participants ADD CONSTRAINT participants_provider_check 
+CHECK (provider IN ('openai', 'claude', 'gemini', 'perplexity', 'mock', 'openai-compatible'));
+
+-- Verify the constraint is working
+SELECT provider, COUNT(*) as count 
+FROM participants 
+GROUP BY provider;
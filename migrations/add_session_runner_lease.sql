@@ -0,0 +1,54 @@
+-- Migration: Session runner lease
+-- Date: 2026-10-19
+-- Description: Let exactly one server process drive a session's auto mode runner. A runner claims the session by writing its owner id and a lease expiry, renews the lease while it runs, and releases it when it stops; a crashed process simply lets the lease expire.
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS runner_owner TEXT;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS runner_lease_expires_at TIMESTAMP WITH TIME ZONE;
+
+-- Function: Claim or renew the runner lease. Succeeds when the lease is free,
+-- expired, or already held by p_owner; returns the new expiry, or NULL when
+-- another process holds the lease.
+CREATE OR REPLACE FUNCTION claim_session_runner(
+  p_session_id UUID,
+  p_owner TEXT,
+  p_lease_seconds INTEGER
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  lease_expires_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  UPDATE sessions SET
+    runner_owner = p_owner,
+    runner_lease_expires_at = NOW() + make_interval(secs => p_lease_seconds)
+  WHERE id = p_session_id
+    AND (runner_owner IS NULL OR runner_owner = p_owner OR runner_lease_expires_at IS NULL OR runner_lease_expires_at < NOW())
+  RETURNING runner_lease_expires_at INTO lease_expires_at;
+
+  RETURN lease_expires_at;
+END;
+$$;
+
+-- Function: Release the runner lease if p_owner still holds it
+CREATE OR REPLACE FUNCTION release_session_runner(
+  p_session_id UUID,
+  p_owner TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE sessions SET
+    runner_owner = NULL,
+    runner_lease_expires_at = NULL
+  WHERE id = p_session_id AND runner_owner = p_owner;
+END;
+$$;
+
+-- Verify the lease columns exist
+SELECT id, runner_owner, runner_lease_expires_at
+FROM sessions
+WHERE runner_owner IS NOT NULL;
@@ -0,0 +1,93 @@
+-- Migration: Session budgets
+-- Date: 2026-10-19
+-- Description: Record why a session stopped, including the new 'budget_exceeded' reason for sessions that hit their cost, token or time cap
+
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS stop_reason TEXT;
+
+ALTER TABLE sessions DROP CONSTRAINT IF EXISTS sessions_stop_reason_check;
+ALTER TABLE sessions ADD CONSTRAINT sessions_stop_reason_check
+CHECK (stop_reason IN ('manual', 'completed', 'error', 'timeout', 'budget_exceeded'));
+
+-- The signature changes, so drop the old overload before recreating it
+DROP FUNCTION IF EXISTS complete_session(UUID, TEXT);
+
+-- Function: Complete session and calculate final analytics
+CREATE OR REPLACE FUNCTION complete_session(
+  p_session_id UUID,
+  p_status TEXT DEFAULT 'completed',
+  p_stop_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  session_stats JSONB;
+  efficiency_improvement DECIMAL;
+  total_time_ms INTEGER;
+BEGIN
+  -- Validate session exists and is active (paused sessions can also be stopped)
+  IF NOT EXISTS (SELECT 1 FROM sessions WHERE id = p_session_id AND status IN ('running', 'paused')) THEN
+    RAISE EXCEPTION 'Session not found or not active: %', p_session_id;
+  END IF;
+  
+  -- Calculate session duration
+  SELECT EXTRACT(EPOCH FROM (NOW() - started_at)) * 1000
+  INTO total_time_ms
+  FROM sessions WHERE id = p_session_id;
+  
+  -- Calculate efficiency improvement (simplified)
+  WITH message_efficiency AS (
+    SELECT 
+      iteration,
+      (token_count->>'total')::INTEGER as tokens,
+      ROW_NUMBER() OVER (ORDER BY iteration) as rn,
+      COUNT(*) OVER () as total_messages
+    FROM messages 
+    WHERE session_id = p_session_id AND kind = 'message'
+    ORDER BY iteration
+  ),
+  efficiency_trend AS (
+    SELECT 
+      CASE 
+        WHEN total_messages > 5 THEN
+          ((SELECT tokens FROM message_efficiency WHERE rn = 1) - 
+           (SELECT tokens FROM message_efficiency WHERE rn = total_messages)) * 100.0 / 
+           (SELECT tokens FROM message_efficiency WHERE rn = 1)
+        ELSE 0
+      END as improvement
+    FROM message_efficiency LIMIT 1
+  )
+  SELECT COALESCE(improvement, 0) INTO efficiency_improvement FROM efficiency_trend;
+  
+  -- Update session with completion data
+  UPDATE sessions SET 
+    status = p_status,
+    stop_reason = COALESCE(p_stop_reason, CASE WHEN p_status = 'completed' THEN 'completed' ELSE 'manual' END),
+    completed_at = NOW(),
+    efficiency_score = efficiency_improvement
+  WHERE id = p_session_id;
+  
+  -- Generate summary statistics
+  SELECT jsonb_build_object(
+    'sessionId', p_session_id,
+    'status', p_status,
+    'stopReason', stop_reason,
+    'duration', total_time_ms,
+    'totalMessages', total_messages,
+    'totalTokens', total_tokens,
+    'efficiencyImprovement', efficiency_improvement,
+    'averageResponseTime', avg_response_time,
+    'completedAt', completed_at
+  )
+  INTO session_stats
+  FROM sessions WHERE id = p_session_id;
+  
+  RETURN session_stats;
+END;
+$$;
+
+-- Verify the column was added
+SELECT stop_reason, COUNT(*) AS count
+FROM sessions
+GROUP BY stop_reason;
@@ -5,6 +5,8 @@ const nextConfig = {
     serverComponentsExternalPackages: ['@supabase/supabase-js'],
     // Enable SWC minification for better performance
     swcMinify: true,
+    // Run src/instrumentation.ts at server startup (resumes session runners)
+    instrumentationHook: true,
   },
 
   // Environment variables exposed to the browser
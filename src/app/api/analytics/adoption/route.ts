@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SessionManager } from '@/lib/session-manager';
+import { analyzeAdoption } from '@/lib/adoption';
+import { getSpeakers } from '@/lib/turn-taking';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const sessionId = searchParams.get('sessionId');
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Session ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const sessionManager = new SessionManager();
+    const session = await sessionManager.loadSession(sessionId);
+    const report = analyzeAdoption(
+      sessionManager.getEvolutionPatterns(),
+      getSpeakers(session.participants).map(p => p.name)
+    );
+
+    return NextResponse.json({
+      success: true,
+      sessionId,
+      ...report
+    });
+
+  } catch (error) {
+    console.error('Failed to analyze pattern adoption:', error);
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to analyze pattern adoption',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
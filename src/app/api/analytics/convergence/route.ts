@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SessionManager } from '@/lib/session-manager';
+import { analyzeConvergence } from '@/lib/convergence';
+import { getSpeakers } from '@/lib/turn-taking';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const sessionId = searchParams.get('sessionId');
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Session ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const options: { window?: number; step?: number } = {};
+    for (const name of ['window', 'step'] as const) {
+      const value = searchParams.get(name);
+      if (value === null) continue;
+
+      const parsed = Number(value);
+      if (!Number.isInteger(parsed) || parsed < 1) {
+        return NextResponse.json(
+          { error: `${name === 'window' ? 'Window' : 'Step'} must be a positive integer` },
+          { status: 400 }
+        );
+      }
+      options[name] = parsed;
+    }
+
+    const sessionManager = new SessionManager();
+    const session = await sessionManager.loadSession(sessionId);
+    const report = analyzeConvergence(
+      session.messages,
+      getSpeakers(session.participants).map(p => p.name),
+      options
+    );
+
+    return NextResponse.json({
+      success: true,
+      sessionId,
+      ...report
+    });
+
+  } catch (error) {
+    console.error('Failed to analyze convergence:', error);
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to analyze convergence',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SessionManager } from '@/lib/session-manager';
+import { analyzeLanguageMetrics } from '@/lib/language-metrics';
+import { getSpeakers } from '@/lib/turn-taking';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const sessionId = searchParams.get('sessionId');
+    const windowParam = searchParams.get('window');
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Session ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const requestedWindow = windowParam !== null ? Number(windowParam) : undefined;
+    if (requestedWindow !== undefined && (!Number.isInteger(requestedWindow) || requestedWindow < 1)) {
+      return NextResponse.json(
+        { error: 'Window must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    const sessionManager = new SessionManager();
+    const session = await sessionManager.loadSession(sessionId);
+
+    // One round of speakers per window unless asked otherwise
+    const window = requestedWindow ?? Math.max(1, getSpeakers(session.participants).length);
+    const report = analyzeLanguageMetrics(session.messages, session.participants, window);
+
+    return NextResponse.json({
+      success: true,
+      sessionId,
+      ...report
+    });
+
+  } catch (error) {
+    console.error('Failed to compute language metrics:', error);
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to compute language metrics',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SessionManager } from '@/lib/session-manager';
+import { buildPatternNetwork, toGraphML, toGEXF } from '@/lib/pattern-network';
+
+const FORMATS = ['json', 'graphml', 'gexf'];
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const sessionId = searchParams.get('sessionId');
+    const format = searchParams.get('format') || 'json';
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Session ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `Format must be one of: ${FORMATS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const sessionManager = new SessionManager();
+    const session = await sessionManager.loadSession(sessionId);
+    const network = buildPatternNetwork(
+      sessionManager.getEvolutionPatterns(),
+      session.messages,
+      session.participants
+    );
+
+    if (format === 'json') {
+      return NextResponse.json({
+        success: true,
+        sessionId,
+        network
+      });
+    }
+
+    // GraphML and GEXF are served as files for Gephi
+    const content = format === 'graphml'
+      ? toGraphML(network)
+      : toGEXF(network, `Pattern network of "${session.config.topic}"`);
+
+    return new NextResponse(content, {
+      headers: {
+        'Content-Type': 'application/xml; charset=utf-8',
+        'Content-Disposition': `attachment; filename="pattern-network-${sessionId}.${format}"`
+      }
+    });
+
+  } catch (error) {
+    console.error('Failed to build pattern network:', error);
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to build pattern network',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SessionManager } from '@/lib/session-manager';
+import { analyzeTokenBreakdown } from '@/lib/token-breakdown';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const sessionId = searchParams.get('sessionId');
+    const messageId = searchParams.get('messageId');
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Session ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const sessionManager = new SessionManager();
+    const session = await sessionManager.loadSession(sessionId);
+    const patterns = sessionManager.getEvolutionPatterns();
+
+    // Moderation messages are not part of the evolving language
+    const messages = session.messages.filter(msg =>
+      msg.kind !== 'moderation' && (!messageId || msg.id === messageId)
+    );
+
+    if (messageId && messages.length === 0) {
+      return NextResponse.json(
+        { error: 'Message not found' },
+        { status: 404 }
+      );
+    }
+
+    const breakdowns = messages.map(msg => analyzeTokenBreakdown(
+      msg,
+      session.participants.find(p => p.id === msg.participantId || p.name === msg.speaker),
+      patterns
+    ));
+
+    return NextResponse.json({
+      success: true,
+      sessionId,
+      breakdowns
+    });
+
+  } catch (error) {
+    console.error('Failed to build token breakdown:', error);
+
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to build token breakdown',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
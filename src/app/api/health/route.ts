@@ -1,4 +1,5 @@
 import { NextResponse } from 'next/server';
+import { getRateLimiter } from '@/lib/rate-limiter';
 
 export async function GET() {
   try {
@@ -9,6 +10,8 @@ export async function GET() {
       uptime: process.uptime(),
       environment: process.env.NODE_ENV,
       version: process.env.npm_package_version || '0.1.0',
+      // Per provider/model limiter state for this server process
+      rateLimits: getRateLimiter().getStatus(),
     };
 
     // Check if required environment variables are present
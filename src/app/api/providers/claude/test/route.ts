@@ -1,4 +1,5 @@
 import { NextResponse } from 'next/server';
+import { createClaudeProvider } from '@/lib/llm-providers/claude';
 
 export async function POST() {
   try {
@@ -10,16 +11,24 @@ export async function POST() {
       );
     }
 
-    // Check if the key is properly formatted (Claude keys typically start with 'sk-ant-')
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-    if (apiKey && apiKey.startsWith('sk-ant-') && apiKey.length > 20) {
+    const provider = createClaudeProvider('claude-3-haiku-20240307', 0);
+    if (!provider.validateConfig()) {
+      return NextResponse.json(
+        { error: 'Claude provider configuration is invalid' },
+        { status: 400 }
+      );
+    }
+
+    // List models to verify the key and endpoint actually work, without a billed completion
+    const connected = await provider.testConnection();
+    if (connected) {
       return NextResponse.json({ 
         success: true, 
-        message: 'Claude provider is available (key configured)' 
+        message: 'Claude provider is available (connection verified)' 
       });
     } else {
       return NextResponse.json(
-        { error: 'Claude API key appears to be invalid' },
+        { error: 'Claude API connection test failed' },
         { status: 400 }
       );
     }
@@ -1,4 +1,5 @@
 import { NextResponse } from 'next/server';
+import { createGeminiProvider } from '@/lib/llm-providers/gemini';
 
 export async function POST() {
   try {
@@ -10,16 +11,24 @@ export async function POST() {
       );
     }
 
-    // Check if the key is properly formatted (Google API keys are typically long alphanumeric strings)
-    const apiKey = process.env.GOOGLE_API_KEY;
-    if (apiKey && apiKey.length > 30) {
+    const provider = createGeminiProvider('gemini-1.5-flash', 0);
+    if (!provider.validateConfig()) {
+      return NextResponse.json(
+        { error: 'Gemini provider configuration is invalid' },
+        { status: 400 }
+      );
+    }
+
+    // List models to verify the key and endpoint actually work, without a billed completion
+    const connected = await provider.testConnection();
+    if (connected) {
       return NextResponse.json({ 
         success: true, 
-        message: 'Gemini provider is available (key configured)' 
+        message: 'Gemini provider is available (connection verified)' 
       });
     } else {
       return NextResponse.json(
-        { error: 'Gemini API key appears to be invalid' },
+        { error: 'Gemini API connection test failed' },
         { status: 400 }
       );
     }
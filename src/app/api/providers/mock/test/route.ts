@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { createMockProvider, isMockProviderEnabled } from '@/lib/llm-providers/mock';
+
+export async function POST() {
+  try {
+    // The mock provider is opt-in via MOCK_LLM_ENABLED
+    if (!isMockProviderEnabled()) {
+      return NextResponse.json(
+        { error: 'Mock provider not enabled (set MOCK_LLM_ENABLED=true)' },
+        { status: 400 }
+      );
+    }
+
+    const provider = createMockProvider('mock-scripted', 0);
+    if (!provider.validateConfig()) {
+      return NextResponse.json(
+        { error: 'Mock provider configuration is invalid' },
+        { status: 400 }
+      );
+    }
+
+    const connected = await provider.testConnection();
+    if (connected) {
+      return NextResponse.json({ 
+        success: true, 
+        message: 'Mock provider is available (offline, deterministic)' 
+      });
+    } else {
+      return NextResponse.json(
+        { error: 'Mock provider test failed' },
+        { status: 400 }
+      );
+    }
+
+  } catch (error) {
+    console.error('Mock provider test failed:', error);
+    
+    return NextResponse.json(
+      { 
+        error: error instanceof Error ? error.message : 'Mock provider test failed',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
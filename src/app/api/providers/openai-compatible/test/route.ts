@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createOpenAICompatibleProvider,
+  resolveOpenAICompatibleConfig
+} from '@/lib/llm-providers/openai-compatible';
+import type { OpenAICompatibleParticipantConfig } from '@/types/llm';
+
+interface OpenAICompatibleTestRequest extends OpenAICompatibleParticipantConfig {
+  model?: string;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Body is optional - without one the OPENAI_COMPATIBLE_* defaults are tested
+    const body: OpenAICompatibleTestRequest = await request.json().catch(() => ({}));
+    const { model, ...participantConfig } = body;
+
+    const provider = createOpenAICompatibleProvider(
+      model,
+      0,
+      resolveOpenAICompatibleConfig(participantConfig)
+    );
+    if (!provider.validateConfig()) {
+      return NextResponse.json(
+        { error: 'OpenAI-compatible endpoint configuration is invalid' },
+        { status: 400 }
+      );
+    }
+
+    // Send a minimal request to verify the endpoint is reachable and serves the model
+    const connected = await provider.testConnection();
+    if (connected) {
+      return NextResponse.json({ 
+        success: true, 
+        message: `OpenAI-compatible endpoint is available (model ${provider.model})` 
+      });
+    } else {
+      return NextResponse.json(
+        { error: 'OpenAI-compatible endpoint connection test failed' },
+        { status: 400 }
+      );
+    }
+
+  } catch (error) {
+    console.error('OpenAI-compatible provider test failed:', error);
+    
+    return NextResponse.json(
+      { 
+        error: error instanceof Error ? error.message : 'OpenAI-compatible provider test failed',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,15 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { createPerplexityProvider } from '@/lib/llm-providers/perplexity';
 
-export async function POST() {
+interface PerplexityTestRequest {
+  live?: boolean;
+}
+
+export async function POST(request: NextRequest) {
   try {
+    // Body is optional - without `live: true` only the configuration is checked
+    const body: PerplexityTestRequest = await request.json().catch(() => ({}));
+
     // Check if Perplexity API key is available
     if (!process.env.PERPLEXITY_API_KEY) {
       return NextResponse.json(
@@ -10,16 +18,35 @@ export async function POST() {
       );
     }
 
-    // Check if the key is properly formatted (Perplexity keys typically start with 'pplx-')
-    const apiKey = process.env.PERPLEXITY_API_KEY;
-    if (apiKey && apiKey.startsWith('pplx-') && apiKey.length > 20) {
+    const provider = createPerplexityProvider('llama-3.1-sonar-small-128k-online', 0);
+    if (!provider.validateConfig()) {
+      return NextResponse.json(
+        { error: 'Perplexity provider configuration is invalid' },
+        { status: 400 }
+      );
+    }
+
+    // Perplexity has no model list to check the key against, so verifying it costs a
+    // completion; that is only done when the user asks for it. Until then the key is
+    // reported as configured but unverified, so a wrong or revoked key is not shown as healthy
+    if (!body.live) {
+      return NextResponse.json({ 
+        success: true, 
+        verified: false,
+        message: 'Perplexity API key is configured but not verified' 
+      });
+    }
+
+    const connected = await provider.testConnection();
+    if (connected) {
       return NextResponse.json({ 
         success: true, 
-        message: 'Perplexity provider is available (key configured)' 
+        verified: true,
+        message: 'Perplexity provider is available (connection verified)' 
       });
     } else {
       return NextResponse.json(
-        { error: 'Perplexity API key appears to be invalid' },
+        { error: 'Perplexity API connection test failed' },
         { status: 400 }
       );
     }
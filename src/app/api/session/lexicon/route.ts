@@ -0,0 +1,224 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getSession,
+  getLexiconEntries,
+  getLexiconEntry,
+  createLexiconEntry,
+  updateLexiconEntry,
+  deleteLexiconEntry
+} from '@/lib/database/operations';
+import { lexiconEntryFromRow } from '@/lib/lexicon';
+import type { LexiconEntryType, LexiconEvent } from '@/types/session';
+import type { UpdateLexiconEntry } from '@/types/database';
+
+const ENTRY_TYPES: LexiconEntryType[] = ['symbol', 'abbreviation', 'protocol', 'structure'];
+
+// Edits made here are attributed to this name unless the request gives one
+const DEFAULT_EDITOR = 'user';
+
+/**
+ * The shared protocol lexicon of a session. Participants read it in their
+ * context on every turn, so edits here apply from the next message.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const sessionId = searchParams.get('sessionId');
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Session ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const entries = await getLexiconEntries(sessionId);
+
+    return NextResponse.json({
+      success: true,
+      sessionId,
+      entries: entries.map(lexiconEntryFromRow)
+    });
+
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch lexicon');
+  }
+}
+
+/**
+ * Add an entry
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { sessionId, symbol, meaning, type = 'symbol', introducedBy = DEFAULT_EDITOR } = body;
+
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Session ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const validationError = validateEntry({ symbol, meaning, type });
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const session = await getSession(sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    const event: LexiconEvent = { type: 'introduced', speaker: introducedBy, iteration: session.current_iteration };
+    const entry = await createLexiconEntry({
+      session_id: sessionId,
+      symbol: symbol.trim(),
+      type,
+      meaning: meaning.trim(),
+      introduced_by: introducedBy,
+      first_iteration: session.current_iteration,
+      adoption_count: 0,
+      adoption_events: [event] as any,
+      variants: [symbol.trim()]
+    });
+
+    return NextResponse.json({
+      success: true,
+      entry: lexiconEntryFromRow(entry)
+    });
+
+  } catch (error) {
+    return errorResponse(error, 'Failed to create lexicon entry');
+  }
+}
+
+/**
+ * Edit an entry. A new meaning is recorded as an amendment.
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { id, symbol, meaning, type, variants, amendedBy = DEFAULT_EDITOR } = body;
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Entry ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await getLexiconEntry(id);
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Lexicon entry not found' },
+        { status: 404 }
+      );
+    }
+
+    const validationError = validateEntry({
+      symbol: symbol ?? existing.symbol,
+      meaning: meaning ?? existing.meaning,
+      type: type ?? existing.type
+    });
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      );
+    }
+
+    if (variants !== undefined && (!Array.isArray(variants) || variants.some((v: unknown) => typeof v !== 'string'))) {
+      return NextResponse.json(
+        { error: 'Variants must be an array of strings' },
+        { status: 400 }
+      );
+    }
+
+    const updates: UpdateLexiconEntry = {};
+    if (symbol !== undefined) updates.symbol = symbol.trim();
+    if (type !== undefined) updates.type = type;
+    if (variants !== undefined) updates.variants = variants;
+    if (meaning !== undefined && meaning.trim() !== existing.meaning) {
+      const session = await getSession(existing.session_id);
+      const event: LexiconEvent = {
+        type: 'amended',
+        speaker: amendedBy,
+        iteration: session?.current_iteration ?? existing.first_iteration,
+        meaning: meaning.trim()
+      };
+      updates.meaning = meaning.trim();
+      updates.adoption_events = [...((existing.adoption_events as unknown as LexiconEvent[]) || []), event] as any;
+    }
+
+    const entry = await updateLexiconEntry(id, updates);
+
+    return NextResponse.json({
+      success: true,
+      entry: lexiconEntryFromRow(entry)
+    });
+
+  } catch (error) {
+    return errorResponse(error, 'Failed to update lexicon entry');
+  }
+}
+
+/**
+ * Remove an entry. Participants who use the term again re-introduce it.
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'Entry ID is required' },
+        { status: 400 }
+      );
+    }
+
+    await deleteLexiconEntry(id);
+
+    return NextResponse.json({
+      success: true,
+      id
+    });
+
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete lexicon entry');
+  }
+}
+
+function validateEntry(entry: { symbol: unknown; meaning: unknown; type: unknown }): string | null {
+  if (typeof entry.symbol !== 'string' || !entry.symbol.trim()) {
+    return 'Symbol is required';
+  }
+  if (typeof entry.meaning !== 'string' || !entry.meaning.trim()) {
+    return 'Meaning is required';
+  }
+  if (!ENTRY_TYPES.includes(entry.type as LexiconEntryType)) {
+    return `Type must be one of: ${ENTRY_TYPES.join(', ')}`;
+  }
+  return null;
+}
+
+function errorResponse(error: unknown, fallback: string) {
+  console.error(`${fallback}:`, error);
+
+  const message = error instanceof Error ? error.message : fallback;
+  return NextResponse.json(
+    {
+      error: message,
+      details: process.env.NODE_ENV === 'development' ? error : undefined
+    },
+    // The same term can only be entered once per session
+    { status: message.startsWith('Duplicate entry') ? 409 : 500 }
+  );
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { SessionManager } from '@/lib/session-manager';
+import { acquireTurnLease, isSessionRunnerActive } from '@/lib/session-runner';
+import { BudgetExceededError } from '@/lib/budget';
+import { isRunnerLeaseActive } from '@/lib/utils';
 import type { SendMessageRequest } from '@/types/session';
 
 export async function POST(request: NextRequest) {
@@ -35,10 +38,32 @@ export async function POST(request: NextRequest) {
       messagesCount: loadedSession.messages.length
     });
     
+    // Manual messages would race the server-side runner
+    if (isSessionRunnerActive(body.sessionId) || isRunnerLeaseActive(loadedSession.config.runner)) {
+      return NextResponse.json(
+        { error: 'Session is being driven by the auto mode runner. Pause it first.' },
+        { status: 409 }
+      );
+    }
+    
+    // Held for the turn, so a pause or a runner elsewhere cannot land in the middle of it
+    const lease = await acquireTurnLease(body.sessionId);
+    if (!lease) {
+      return NextResponse.json(
+        { error: 'Another turn is in progress for this session. Try again once it completes.' },
+        { status: 409 }
+      );
+    }
+    
     console.log('📤 Message API - About to call sendMessage...');
     
     // Now send the message
-    const message = await sessionManager.sendMessage(body);
+    let message;
+    try {
+      message = await sessionManager.sendMessage(body);
+    } finally {
+      await lease.release();
+    }
     
     console.log('✅ Message API - Message sent successfully:', {
       messageId: message.id,
@@ -55,7 +80,11 @@ export async function POST(request: NextRequest) {
         evolvedMessage: message.evolvedMessage,
         translation: message.translation,
         iteration: message.iteration,
+        kind: message.kind,
+        fidelityScore: message.fidelityScore,
+        metadata: message.metadata,
         tokenCount: message.tokenCount,
+        costUsd: message.costUsd,
         processingTime: message.processingTime,
         timestamp: message.timestamp
       }
@@ -63,6 +92,14 @@ export async function POST(request: NextRequest) {
 
   } catch (error) {
     console.error('Failed to send message:', error);
+
+    // The session has been stopped; report why instead of a server error
+    if (error instanceof BudgetExceededError) {
+      return NextResponse.json(
+        { error: error.message, stopReason: 'budget_exceeded', limit: error.limit },
+        { status: 409 }
+      );
+    }
     
     return NextResponse.json(
       { 
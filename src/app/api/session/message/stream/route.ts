@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SessionManager } from '@/lib/session-manager';
+import { BudgetExceededError } from '@/lib/budget';
+import { acquireTurnLease, isSessionRunnerActive } from '@/lib/session-runner';
+import { isRunnerLeaseActive } from '@/lib/utils';
+import type { SendMessageRequest } from '@/types/session';
+
+/**
+ * Server-sent events variant of /api/session/message.
+ * Emits `start` (speaker and iteration), `delta` (generated text chunks),
+ * `retry` when a failed attempt is retried (discard the deltas so far),
+ * then `message` with the persisted message, or `error` on failure.
+ * A client that disconnects mid-turn stops receiving events, but the
+ * message is still generated and saved.
+ */
+export async function POST(request: NextRequest) {
+  const body: SendMessageRequest = await request.json().catch(() => ({} as SendMessageRequest));
+
+  if (!body.sessionId) {
+    return NextResponse.json(
+      { error: 'Session ID is required' },
+      { status: 400 }
+    );
+  }
+
+  // Create session manager and load existing session
+  const sessionManager = new SessionManager();
+  let session;
+  try {
+    session = await sessionManager.loadSession(body.sessionId);
+  } catch (error) {
+    console.error('Failed to load session for streaming:', error);
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : 'Failed to load session',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      { status: 500 }
+    );
+  }
+
+  // Manual messages would race the server-side runner; rejected before the stream opens
+  if (isSessionRunnerActive(body.sessionId) || isRunnerLeaseActive(session.config.runner)) {
+    return NextResponse.json(
+      { error: 'Session is being driven by the auto mode runner. Pause it first.' },
+      { status: 409 }
+    );
+  }
+
+  // Held for the turn, so a pause or a runner elsewhere cannot land in the middle of it
+  const lease = await acquireTurnLease(body.sessionId);
+  if (!lease) {
+    return NextResponse.json(
+      { error: 'Another turn is in progress for this session. Try again once it completes.' },
+      { status: 409 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  // Set when the client disconnects; the turn still completes and is saved
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        const message = await sessionManager.sendMessage(body, {
+          onStart: turn => send('start', turn),
+          onDelta: delta => send('delta', { text: delta }),
+          onRetry: attempt => send('retry', attempt)
+        });
+
+        send('message', {
+          id: message.id,
+          sessionId: message.sessionId,
+          participantId: message.participantId,
+          speaker: message.speaker,
+          evolvedMessage: message.evolvedMessage,
+          translation: message.translation,
+          iteration: message.iteration,
+          kind: message.kind,
+          fidelityScore: message.fidelityScore,
+          metadata: message.metadata,
+          tokenCount: message.tokenCount,
+          costUsd: message.costUsd,
+          processingTime: message.processingTime,
+          timestamp: message.timestamp
+        });
+      } catch (error) {
+        console.error('Failed to stream message:', error);
+        send('error', {
+          error: error instanceof Error ? error.message : 'Failed to send message',
+          ...(error instanceof BudgetExceededError ? { stopReason: 'budget_exceeded', limit: error.limit } : {})
+        });
+      } finally {
+        await lease.release();
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  });
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SessionManager } from '@/lib/session-manager';
+import { acquireTurnLease, getSessionRunnerStatus, pauseSessionRunner } from '@/lib/session-runner';
+
+/**
+ * Pause a running session. A runner on this server is paused first, after
+ * its in-flight turn; otherwise the runner lease is held while the status
+ * changes, so no turn is in flight on any server. The session can be
+ * continued with /api/session/resume.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { sessionId } = body;
+    
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Session ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const localRunner = getSessionRunnerStatus(sessionId);
+    if (localRunner?.state === 'running') {
+      await pauseSessionRunner(sessionId);
+    }
+
+    const lease = localRunner ? null : await acquireTurnLease(sessionId);
+    if (!localRunner && !lease) {
+      return NextResponse.json(
+        { error: 'A message is being generated or another server runs this session. Try again once the turn completes.' },
+        { status: 409 }
+      );
+    }
+
+    let session;
+    try {
+      // Create session manager and load existing session
+      const sessionManager = new SessionManager();
+      await sessionManager.loadSession(sessionId);
+
+      session = await sessionManager.pauseSession();
+    } finally {
+      await lease?.release();
+    }
+
+    return NextResponse.json({
+      success: true,
+      status: session.status,
+      runner: getSessionRunnerStatus(sessionId)
+    });
+
+  } catch (error) {
+    console.error('Failed to pause session:', error);
+    
+    return NextResponse.json(
+      { 
+        error: error instanceof Error ? error.message : 'Failed to pause session',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
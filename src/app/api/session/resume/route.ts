@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SessionManager } from '@/lib/session-manager';
+import { resumeSessionRunner } from '@/lib/session-runner';
+
+/**
+ * Resume a paused session, restarting its server-side runner if auto mode
+ * was active when it was paused
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { sessionId } = body;
+    
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Session ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // Create session manager and load existing session
+    const sessionManager = new SessionManager();
+    await sessionManager.loadSession(sessionId);
+    
+    const session = await sessionManager.resumeSession();
+
+    const runner = session.config.runner?.state === 'paused'
+      ? await resumeSessionRunner(sessionId)
+      : null;
+
+    return NextResponse.json({
+      success: true,
+      status: session.status,
+      runner
+    });
+
+  } catch (error) {
+    console.error('Failed to resume session:', error);
+    
+    return NextResponse.json(
+      { 
+        error: error instanceof Error ? error.message : 'Failed to resume session',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { pauseSessionRunner } from '@/lib/session-runner';
+
+/**
+ * Pause the server-side runner after the in-flight message completes
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { sessionId } = body;
+    
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Session ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const runner = await pauseSessionRunner(sessionId);
+
+    return NextResponse.json({
+      success: true,
+      runner
+    });
+
+  } catch (error) {
+    console.error('Failed to pause session runner:', error);
+    
+    return NextResponse.json(
+      { 
+        error: error instanceof Error ? error.message : 'Failed to pause session runner',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
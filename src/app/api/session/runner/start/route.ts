@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { startSessionRunner } from '@/lib/session-runner';
+
+/**
+ * Start the server-side runner, which sends messages until maxIterations
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { sessionId, delayMs } = body;
+    
+    if (!sessionId) {
+      return NextResponse.json(
+        { error: 'Session ID is required' },
+        { status: 400 }
+      );
+    }
+
+    if (delayMs !== undefined && (typeof delayMs !== 'number' || delayMs < 0)) {
+      return NextResponse.json(
+        { error: 'delayMs must be a non-negative number' },
+        { status: 400 }
+      );
+    }
+
+    const runner = await startSessionRunner(sessionId, delayMs);
+
+    return NextResponse.json({
+      success: true,
+      runner
+    });
+
+  } catch (error) {
+    console.error('Failed to start session runner:', error);
+    
+    return NextResponse.json(
+      { 
+        error: error instanceof Error ? error.message : 'Failed to start session runner',
+        details: process.env.NODE_ENV === 'development' ? error : undefined
+      },
+      { status: 500 }
+    );
+  }
+}
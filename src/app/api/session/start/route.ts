@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { SessionManager } from '@/lib/session-manager';
+import { startSessionRunner } from '@/lib/session-runner';
 import type { StartSessionRequest } from '@/types/session';
 
 export async function POST(request: NextRequest) {
@@ -18,6 +19,11 @@ export async function POST(request: NextRequest) {
     const sessionManager = new SessionManager();
     const session = await sessionManager.startSession(body);
 
+    // Auto mode runs on the server; the client only observes realtime updates
+    const runner = body.autoMode
+      ? await startSessionRunner(session.id, body.autoModeDelay)
+      : undefined;
+
     return NextResponse.json({
       success: true,
       session: {
@@ -28,7 +34,15 @@ export async function POST(request: NextRequest) {
           scenario: session.config.scenario,
           maxIterations: session.config.maxIterations,
           participants: session.participants,
-          customPrompt: session.config.customPrompt
+          customPrompt: session.config.customPrompt,
+          autoMode: session.config.autoMode,
+          autoModeDelay: session.config.autoModeDelay,
+          turnTaking: session.config.turnTaking,
+          moderationInterval: session.config.moderationInterval,
+          comprehensionChecks: session.config.comprehensionChecks,
+          similarityScorer: session.config.similarityScorer,
+          budget: session.config.budget,
+          runner
         },
         participants: session.participants,
         currentIteration: session.currentIteration || 0,
@@ -39,10 +53,15 @@ export async function POST(request: NextRequest) {
           totalTokens: 0,
           averageTokensPerMessage: 0,
           tokenEfficiencyTrend: [],
+          payloadEfficiencyTrend: [],
           participantStats: [],
           evolutionMarkers: [],
           efficiencyImprovement: 0,
-          communicationPatterns: []
+          communicationPatterns: [],
+          fidelityTrend: [],
+          compressionAtFidelity: 0,
+          totalCost: 0,
+          projectedCost: session.analytics.projectedCost
         }
       }
     });
@@ -44,21 +44,35 @@ export async function GET(request: NextRequest) {
         scenario: sessionData.scenario,
         maxIterations: sessionData.max_iterations,
         participants: sessionData.participants || [],
-        customPrompt: (sessionData.config as any)?.customPrompt
+        customPrompt: (sessionData.config as any)?.customPrompt,
+        autoMode: (sessionData.config as any)?.autoMode,
+        autoModeDelay: (sessionData.config as any)?.autoModeDelay,
+        turnTaking: (sessionData.config as any)?.turnTaking,
+        moderationInterval: (sessionData.config as any)?.moderationInterval,
+        comprehensionChecks: (sessionData.config as any)?.comprehensionChecks,
+        similarityScorer: (sessionData.config as any)?.similarityScorer,
+        budget: (sessionData.config as any)?.budget,
+        runner: (sessionData.config as any)?.runner
       },
       participants: sessionData.participants || [],
       currentIteration: sessionData.current_iteration || 0,
       messages: sessionData.messages || [],
       startedAt: sessionData.created_at,
       updatedAt: sessionData.updated_at,
+      stopReason: sessionData.stop_reason ?? undefined,
       analytics: {
         totalTokens: 0,
         averageTokensPerMessage: 0,
         tokenEfficiencyTrend: [],
+        payloadEfficiencyTrend: [],
         participantStats: [],
         evolutionMarkers: [],
         efficiencyImprovement: 0,
-        communicationPatterns: []
+        communicationPatterns: [],
+        fidelityTrend: [],
+        compressionAtFidelity: 0,
+        totalCost: sessionData.total_cost_usd ?? 0,
+        projectedCost: (sessionData.config as any)?.estimatedCost ?? 0
       }
     };
 
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { SessionManager } from '@/lib/session-manager';
+import { stopSessionRunner } from '@/lib/session-runner';
 
 export async function POST(request: NextRequest) {
   try {
@@ -13,6 +14,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Halt any server-side runner before the session is closed
+    stopSessionRunner(sessionId);
+
     // Create session manager and load existing session
     const sessionManager = new SessionManager();
     
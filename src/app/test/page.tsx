@@ -9,10 +9,15 @@ import { Input } from '@/components/ui/Input';
 import { Select } from '@/components/ui/Select';
 import { PREDEFINED_TOPICS } from '@/constants/topics';
 import { SCENARIO_CONFIGS } from '@/constants/scenarios';
-import { EvolvedCommunicationRenderer } from '@/components/CommunicationMessageRenderer';
+import { TURN_TAKING_STRATEGIES, getSpeakers } from '@/lib/turn-taking';
+import { EvolvedCommunicationRenderer, TokenBreakdownOverlay } from '@/components/CommunicationMessageRenderer';
 import { ParticipantSelector } from '@/components/ParticipantSelector';
 import { DownloadButton } from '@/components/DownloadButton';
-import type { ConversationScenario } from '@/types/session';
+import { PatternNetworkGraph } from '@/components/PatternNetworkGraph';
+import { LanguageMetricsCharts } from '@/components/LanguageMetricsCharts';
+import { ConvergenceCharts } from '@/components/ConvergenceCharts';
+import type { ConversationScenario, TurnTakingStrategy } from '@/types/session';
+import type { TokenBreakdown } from '@/types/analytics';
 
 /**
  * Modern, professional test interface for LLM communication evolution
@@ -23,36 +28,28 @@ function TestPageContent() {
     status, 
     isProcessing, 
     error, 
+    streamingMessage,
     startSession, 
     sendMessage, 
     stopSession,
+    pauseSession,
+    resumeSession,
+    startAutoRun,
+    pauseAutoRun,
+    resumeAutoRun,
     canSendMessage,
     nextSpeaker,
-    progressPercentage
+    progressPercentage,
+    runnerState
   } = useSession();
 
   const { config, updateConfig, isValid, errors } = useSessionConfig();
-  const { formatters, hasData } = useAnalytics();
+  const { formatters, hasData, languageMetrics, convergence, tokenMetrics } = useAnalytics();
 
   const [testOutput, setTestOutput] = useState<string[]>([]);
   const [selectedMessage, setSelectedMessage] = useState<any>(null);
-  const [autoModeActive, setAutoModeActive] = useState(false);
-  const [autoModeInterval, setAutoModeInterval] = useState<NodeJS.Timeout | null>(null);
-  const [isAutoModeProcessing, setIsAutoModeProcessing] = useState(false);
-  
-  // Use refs to track auto mode state for the recursive function
-  const autoModeActiveRef = React.useRef(false);
-  const isAutoModeProcessingRef = React.useRef(false);
-  
-  // Update refs when state changes
-  React.useEffect(() => {
-    autoModeActiveRef.current = autoModeActive;
-  }, [autoModeActive]);
-  
-  React.useEffect(() => {
-    isAutoModeProcessingRef.current = isAutoModeProcessing;
-  }, [isAutoModeProcessing]);
-
+  const [showTokenOverlay, setShowTokenOverlay] = useState(false);
+  const [tokenBreakdowns, setTokenBreakdowns] = useState<Record<string, TokenBreakdown>>({});
   const addLog = (message: string) => {
     const timestamp = new Date().toLocaleTimeString();
     const logMessage = `${timestamp}: ${message}`;
@@ -74,6 +71,23 @@ function TestPageContent() {
     }
   }, [session?.messages?.length]);
 
+  // Effect to fetch per-message token breakdowns while the overlay is shown
+  React.useEffect(() => {
+    if (!showTokenOverlay || !session?.id || session.messages.length === 0) return;
+
+    fetch(`/api/analytics/token-breakdown?sessionId=${session.id}`)
+      .then(response => response.json())
+      .then(data => {
+        if (!data.success) throw new Error(data.error || 'Failed to load token breakdown');
+        const byMessage: Record<string, TokenBreakdown> = {};
+        data.breakdowns.forEach((breakdown: TokenBreakdown) => {
+          byMessage[breakdown.messageId] = breakdown;
+        });
+        setTokenBreakdowns(byMessage);
+      })
+      .catch(err => addLog(`❌ Token breakdown: ${err instanceof Error ? err.message : 'Unknown error'}`));
+  }, [showTokenOverlay, session?.id, session?.messages?.length]);
+
   // Effect to log status changes
   React.useEffect(() => {
     if (status) {
@@ -110,7 +124,11 @@ function TestPageContent() {
         scenario: config.scenario,
         participants: config.participants,
         maxIterations: config.maxIterations,
-        customPrompt: config.customPrompt
+        customPrompt: config.customPrompt,
+        turnTaking: config.turnTaking,
+        moderationInterval: config.moderationInterval,
+        comprehensionChecks: config.comprehensionChecks,
+        budget: config.budget
       });
       
       addLog('✅ Session started successfully!');
@@ -144,114 +162,35 @@ function TestPageContent() {
       addLog('Stopping session...');
       await stopSession('manual');
       addLog('Session stopped successfully!');
-      // Stop auto mode when session stops
-      if (autoModeActive) {
-        handleToggleAutoMode();
-      }
     } catch (err) {
       addLog(`Error stopping session: ${err instanceof Error ? err.message : 'Unknown error'}`);
     }
   };
 
-  // Auto mode functions - using useRef to avoid recreation issues
-  const sendNextMessageRef = React.useRef<() => Promise<void>>();
-  
-  sendNextMessageRef.current = async () => {
-    addLog(`🤖 Auto mode: sendNextMessage called - active: ${autoModeActiveRef.current}, processing: ${isAutoModeProcessingRef.current}`);
-    
-    // Check if we should continue using refs for current values
-    if (!autoModeActiveRef.current || isAutoModeProcessingRef.current) {
-      addLog('🤖 Auto mode: Skipping - not active or already processing');
-      return; // Auto mode was stopped or already processing
-    }
-    
-    addLog(`🤖 Auto mode: Session check - session: ${!!session}, iteration: ${session?.currentIteration}, max: ${session?.config?.maxIterations}`);
-    
-    if (!session || session.currentIteration >= session.config.maxIterations) {
-      handleToggleAutoMode();
-      addLog('🏁 Auto mode completed - max iterations reached');
-      return;
-    }
-    
-    addLog(`🤖 Auto mode: Status check - status: ${status}, canSendMessage: ${canSendMessage}`);
-    
-    if (status !== 'running' || !canSendMessage) {
-      handleToggleAutoMode();
-      addLog('⏸️ Auto mode stopped - session not ready');
-      return;
-    }
-    
-    // Send message and wait for completion
-    try {
-      setIsAutoModeProcessing(true);
-      addLog(`🤖 Auto mode: Sending message ${session.currentIteration + 1}/${session.config.maxIterations}`);
-      await handleSendMessage();
-      addLog(`🤖 Auto mode: Message sent successfully, waiting ${config.autoModeDelay || 2000}ms`);
-      
-      // Wait for the configured delay before sending the next message
-      if (autoModeActiveRef.current) {
-        setTimeout(() => {
-          setIsAutoModeProcessing(false);
-          addLog('🤖 Auto mode: Delay completed, scheduling next message');
-          // Use the ref to call the function recursively
-          if (sendNextMessageRef.current) {
-            sendNextMessageRef.current();
-          }
-        }, config.autoModeDelay || 2000);
-      } else {
-        setIsAutoModeProcessing(false);
-        addLog('🤖 Auto mode: Auto mode stopped during delay');
-      }
-    } catch (err) {
-      setIsAutoModeProcessing(false);
-      addLog(`❌ Auto mode error: ${err instanceof Error ? err.message : 'Unknown error'}`);
-      handleToggleAutoMode();
+  const handleTogglePause = async () => {
+    if (status === 'paused') {
+      addLog('▶️ Resuming session...');
+      await resumeSession();
+    } else {
+      addLog('⏸️ Pausing session...');
+      await pauseSession();
     }
   };
 
-  const handleToggleAutoMode = () => {
-    addLog(`🤖 Toggle auto mode called - current state: ${autoModeActive}`);
-    
-    if (autoModeActive) {
-      // Stop auto mode
-      if (autoModeInterval) {
-        clearInterval(autoModeInterval);
-        setAutoModeInterval(null);
-      }
-      setAutoModeActive(false);
-      setIsAutoModeProcessing(false);
-      addLog('⏸️ Auto mode stopped');
+  // Auto mode runs on the server; this page only controls it and observes realtime updates
+  const handleToggleAutoMode = async () => {
+    if (runnerState === 'running') {
+      addLog('⏸️ Pausing auto mode runner...');
+      await pauseAutoRun();
+    } else if (runnerState === 'paused') {
+      addLog(`▶️ Resuming auto mode runner (delay: ${config.autoModeDelay || 2000}ms)`);
+      await resumeAutoRun(config.autoModeDelay || 2000);
     } else {
-      // Start auto mode
-      addLog(`🤖 Starting auto mode - status: ${status}, canSendMessage: ${canSendMessage}`);
-      
-      if (status === 'running' && canSendMessage) {
-        setAutoModeActive(true);
-        addLog(`🤖 Auto mode started (delay: ${config.autoModeDelay || 2000}ms)`);
-        
-        // Start the first message after a short delay
-        addLog('🤖 Scheduling first message in 1000ms');
-        setTimeout(() => {
-          addLog('🤖 First message timeout triggered');
-          if (sendNextMessageRef.current) {
-            sendNextMessageRef.current();
-          }
-        }, 1000);
-      } else {
-        addLog('❌ Cannot start auto mode - session not ready');
-      }
+      addLog(`🤖 Starting auto mode runner (delay: ${config.autoModeDelay || 2000}ms)`);
+      await startAutoRun(config.autoModeDelay || 2000);
     }
   };
 
-  // Cleanup auto mode on unmount
-  React.useEffect(() => {
-    return () => {
-      if (autoModeInterval) {
-        clearInterval(autoModeInterval);
-      }
-    };
-  }, [autoModeInterval]);
-
   const clearLogs = () => {
     setTestOutput([]);
   };
@@ -277,6 +216,11 @@ function TestPageContent() {
                   {status === 'running' ? 'Session Active' : 'Session Inactive'}
                 </span>
               </div>
+              {session?.stopReason === 'budget_exceeded' && (
+                <Badge variant="error" className="text-xs">
+                  Budget exceeded
+                </Badge>
+              )}
               {session && (
                 <div className="text-xs text-gray-600">
                   Iteration {session.currentIteration} / {session.config.maxIterations}
@@ -324,7 +268,7 @@ function TestPageContent() {
 
                 <Button
                   onClick={handleSendMessage}
-                  disabled={!canSendMessage || isProcessing || autoModeActive}
+                  disabled={!canSendMessage || isProcessing}
                   variant="secondary"
                   className="w-full text-xs h-8"
                 >
@@ -333,26 +277,43 @@ function TestPageContent() {
 
                 <Button
                   onClick={handleToggleAutoMode}
-                  disabled={!canSendMessage || isProcessing || isAutoModeProcessing}
-                  variant={autoModeActive ? "danger" : "secondary"}
-                  className={`w-full text-xs h-8 ${autoModeActive ? 'bg-orange-600 hover:bg-orange-700 text-white' : ''}`}
+                  disabled={status !== 'running' || isProcessing}
+                  variant={runnerState === 'running' ? "danger" : "secondary"}
+                  className={`w-full text-xs h-8 ${runnerState === 'running' ? 'bg-orange-600 hover:bg-orange-700 text-white' : ''}`}
                 >
-                  {autoModeActive ? '⏸️ Stop Auto Mode' : '🤖 Start Auto Mode'}
+                  {runnerState === 'running'
+                    ? '⏸️ Pause Auto Mode'
+                    : runnerState === 'paused' ? '▶️ Resume Auto Mode' : '🤖 Start Auto Mode'}
                 </Button>
 
-                {autoModeActive && (
+                {(runnerState === 'running' || runnerState === 'paused') && (
                   <div className="text-xs text-orange-600 bg-orange-50 p-2 rounded border border-orange-200">
                     <div className="font-medium">
-                      Auto Mode Active {isAutoModeProcessing && '(Processing...)'}
+                      Auto Mode {runnerState === 'running' ? 'Running on server' : 'Paused'}
                     </div>
-                    <div>Delay: {config.autoModeDelay || 2000}ms</div>
+                    <div>Delay: {session?.config.runner?.delayMs ?? config.autoModeDelay ?? 2000}ms</div>
                     <div>Iteration: {session?.currentIteration || 0}/{session?.config?.maxIterations || 0}</div>
                   </div>
                 )}
 
+                {runnerState === 'error' && session?.config.runner?.error && (
+                  <div className="text-xs text-red-600 bg-red-50 p-2 rounded border border-red-200">
+                    Auto mode stopped: {session.config.runner.error}
+                  </div>
+                )}
+
+                <Button
+                  onClick={handleTogglePause}
+                  disabled={(status !== 'running' && status !== 'paused') || isProcessing}
+                  variant="secondary"
+                  className="w-full text-xs h-8"
+                >
+                  {status === 'paused' ? '▶️ Resume Session' : '⏸️ Pause Session'}
+                </Button>
+
                 <Button
                   onClick={handleStopSession}
-                  disabled={status !== 'running' || isProcessing}
+                  disabled={(status !== 'running' && status !== 'paused') || isProcessing}
                   variant="danger"
                   className="w-full text-xs h-8"
                 >
@@ -409,6 +370,64 @@ function TestPageContent() {
                   />
                 </div>
 
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Turn Taking</label>
+                  <Select
+                    value={config.turnTaking?.strategy || 'round-robin'}
+                    onChange={(e) => updateConfig({
+                      turnTaking: { ...config.turnTaking, strategy: e.target.value as TurnTakingStrategy }
+                    })}
+                    options={Object.entries(TURN_TAKING_STRATEGIES).map(([value, strategy]) => ({
+                      value,
+                      label: strategy.name
+                    }))}
+                    className="text-xs h-8"
+                  />
+                  <div className="text-xs text-gray-500 mt-1">
+                    {TURN_TAKING_STRATEGIES[config.turnTaking?.strategy || 'round-robin'].description}
+                  </div>
+
+                  {config.turnTaking?.strategy === 'moderator' && (
+                    <Select
+                      value={config.turnTaking.moderator || ''}
+                      onChange={(e) => updateConfig({
+                        turnTaking: { strategy: 'moderator', moderator: e.target.value || undefined }
+                      })}
+                      options={[
+                        { value: '', label: 'No moderator participant' },
+                        ...getSpeakers(config.participants).map(p => ({ value: p.name, label: `Moderator: ${p.name}` }))
+                      ]}
+                      className="text-xs h-8 mt-1"
+                    />
+                  )}
+
+                  {config.turnTaking?.strategy === 'weighted' && (
+                    <div className="grid grid-cols-2 gap-1 mt-1">
+                      {getSpeakers(config.participants).map(p => (
+                        <Input
+                          key={p.name}
+                          type="number"
+                          min="0"
+                          step="0.5"
+                          value={(config.turnTaking?.weights?.[p.name] ?? 1).toString()}
+                          onChange={(e) => updateConfig({
+                            turnTaking: {
+                              strategy: 'weighted',
+                              weights: {
+                                ...config.turnTaking?.weights,
+                                [p.name]: Math.max(0, parseFloat(e.target.value) || 0)
+                              }
+                            }
+                          })}
+                          title={`Weight for ${p.name}`}
+                          placeholder={p.name}
+                          className="text-xs h-7"
+                        />
+                      ))}
+                    </div>
+                  )}
+                </div>
+
                 <div>
                   <label className="block text-xs font-medium text-gray-700 mb-1">Max Iterations</label>
                   <Input
@@ -434,6 +453,58 @@ function TestPageContent() {
                   </div>
                 </div>
 
+                <div>
+                  <label className="block text-xs font-medium text-gray-700 mb-1">Budget</label>
+                  <div className="grid grid-cols-3 gap-1">
+                    <Input
+                      type="number"
+                      value={config.budget?.maxCostUsd?.toString() || ''}
+                      onChange={(e) => updateConfig({
+                        budget: { ...config.budget, maxCostUsd: parseFloat(e.target.value) || undefined }
+                      })}
+                      className="text-xs h-8"
+                      placeholder="Max $"
+                    />
+                    <Input
+                      type="number"
+                      value={config.budget?.maxTokens?.toString() || ''}
+                      onChange={(e) => updateConfig({
+                        budget: { ...config.budget, maxTokens: parseInt(e.target.value) || undefined }
+                      })}
+                      className="text-xs h-8"
+                      placeholder="Max tokens"
+                    />
+                    <Input
+                      type="number"
+                      value={config.budget?.maxDurationMs ? (config.budget.maxDurationMs / 60000).toString() : ''}
+                      onChange={(e) => updateConfig({
+                        budget: { ...config.budget, maxDurationMs: (parseFloat(e.target.value) || 0) * 60000 || undefined }
+                      })}
+                      className="text-xs h-8"
+                      placeholder="Max min"
+                    />
+                  </div>
+                  {errors.budget && <div className="text-xs text-red-600 mt-1">{errors.budget}</div>}
+                  <div className="text-xs text-gray-500 mt-1">
+                    The session stops before a message would cross any limit
+                  </div>
+                </div>
+
+                <div>
+                  <label className="flex items-center space-x-2 text-xs">
+                    <input
+                      type="checkbox"
+                      checked={config.comprehensionChecks || false}
+                      onChange={(e) => updateConfig({ comprehensionChecks: e.target.checked })}
+                      className="rounded"
+                    />
+                    <span>Comprehension checks</span>
+                  </label>
+                  <div className="text-xs text-gray-500 mt-1">
+                    Another participant decodes each message without its translation
+                  </div>
+                </div>
+
                 <div>
                   <label className="block text-xs font-medium text-gray-700 mb-1">Research Topics</label>
                   <div className="space-y-1">
@@ -484,6 +555,15 @@ function TestPageContent() {
                     <div className="bg-orange-50 p-2 rounded-lg">
                       <div className="text-orange-600 font-medium text-xs">Cost</div>
                       <div className="text-sm font-bold text-orange-900">{formatters.totalCost}</div>
+                      <div className="text-xs text-orange-700">of {formatters.projectedCost} projected</div>
+                    </div>
+                    <div className="bg-teal-50 p-2 rounded-lg">
+                      <div className="text-teal-600 font-medium text-xs">Decode Fidelity</div>
+                      <div className="text-sm font-bold text-teal-900">{formatters.fidelity}</div>
+                    </div>
+                    <div className="bg-indigo-50 p-2 rounded-lg">
+                      <div className="text-indigo-600 font-medium text-xs">Compression @ Fidelity</div>
+                      <div className="text-sm font-bold text-indigo-900">{formatters.compressionAtFidelity}</div>
                     </div>
                   </div>
                 </CardContent>
@@ -534,6 +614,16 @@ function TestPageContent() {
                         </div>
                       </div>
                     )}
+                    {session && session.messages.length > 0 && (
+                      <label className="flex items-center space-x-1 text-xs text-gray-600">
+                        <input
+                          type="checkbox"
+                          checked={showTokenOverlay}
+                          onChange={(e) => setShowTokenOverlay(e.target.checked)}
+                        />
+                        <span>Token overlay</span>
+                      </label>
+                    )}
                     {session && session.messages.length > 0 && (
                       <DownloadButton 
                         session={session} 
@@ -545,7 +635,7 @@ function TestPageContent() {
                 </div>
               </CardHeader>
               <CardContent className="flex-1 overflow-y-auto p-2">
-                {session && session.messages.length > 0 ? (
+                {session && (session.messages.length > 0 || streamingMessage) ? (
                   <div className="space-y-1">
                     {session.messages.map((message) => (
                       <div 
@@ -562,12 +652,27 @@ function TestPageContent() {
                             <Badge variant="outline" className="text-xs px-1 py-0.5">
                               {message.speaker}
                             </Badge>
+                            {message.kind === 'moderation' && (
+                              <Badge variant="warning" className="text-xs px-1 py-0.5">
+                                Moderator
+                              </Badge>
+                            )}
                             <span className="text-xs text-gray-500">
                               Iteration {message.iteration}
                             </span>
                           </div>
                           <div className="flex items-center space-x-2 text-xs text-gray-500">
                             <span>{message.tokenCount.total} tokens</span>
+                            {message.metadata?.payloadEfficiency && (
+                              <span title={`Efficiency ${message.metadata.payloadEfficiency.participantScore} vs own first message, ${message.metadata.payloadEfficiency.sessionScore} vs first round`}>
+                                {message.metadata.payloadEfficiency.payloadTokens} payload
+                              </span>
+                            )}
+                            {message.fidelityScore !== undefined && message.fidelityScore !== null && (
+                              <span title={`Decoded by ${message.metadata?.comprehension?.decoderName || 'another participant'}`}>
+                                {Math.round(message.fidelityScore * 100)}% fidelity
+                              </span>
+                            )}
                             {message.processingTime && (
                               <span>{message.processingTime}ms</span>
                             )}
@@ -575,10 +680,14 @@ function TestPageContent() {
                         </div>
                         
                         <div className="prose prose-sm max-w-none">
-                          <EvolvedCommunicationRenderer 
-                            content={message.evolvedMessage}
-                            className="text-gray-900 leading-tight text-sm"
-                          />
+                          {showTokenOverlay && tokenBreakdowns[message.id] ? (
+                            <TokenBreakdownOverlay breakdown={tokenBreakdowns[message.id]} />
+                          ) : (
+                            <EvolvedCommunicationRenderer 
+                              content={message.evolvedMessage}
+                              className="text-gray-900 leading-tight text-sm"
+                            />
+                          )}
                           {message.translation && (
                             <div className="mt-2 p-2 bg-gradient-to-r from-blue-50 to-indigo-50 rounded border-l-4 border-blue-400">
                               <div className="flex items-center mb-1">
@@ -597,6 +706,25 @@ function TestPageContent() {
                         </div>
                       </div>
                     ))}
+                    {streamingMessage && (
+                      <div className="p-2 rounded border border-dashed border-blue-300 bg-blue-50/40">
+                        <div className="flex items-start justify-between mb-1">
+                          <div className="flex items-center space-x-2">
+                            <Badge variant="outline" className="text-xs px-1 py-0.5">
+                              {streamingMessage.speaker}
+                            </Badge>
+                            <span className="text-xs text-gray-500">
+                              Iteration {streamingMessage.iteration}
+                            </span>
+                          </div>
+                          <span className="text-xs text-blue-600 animate-pulse">Generating...</span>
+                        </div>
+                        <div className="text-gray-900 leading-tight text-sm whitespace-pre-wrap">
+                          {streamingMessage.content}
+                          <span className="inline-block w-1.5 h-3.5 ml-0.5 align-middle bg-blue-500 animate-pulse" />
+                        </div>
+                      </div>
+                    )}
                   </div>
                 ) : (
                   <div className="flex items-center justify-center h-full text-gray-500">
@@ -609,7 +737,24 @@ function TestPageContent() {
               </CardContent>
             </Card>
 
-            
+            {/* Pattern adoption network */}
+            {session && session.messages.length > 0 && (
+              <PatternNetworkGraph session={session} className="flex-shrink-0" />
+            )}
+
+            {/* Token trend next to cross-participant convergence */}
+            {session && session.messages.length > 0 && (
+              <ConvergenceCharts
+                tokenTrend={tokenMetrics.efficiencyTrend}
+                report={convergence}
+                className="flex-shrink-0"
+              />
+            )}
+
+            {/* Entropy, compression and vocabulary over time */}
+            {session && session.messages.length > 0 && (
+              <LanguageMetricsCharts report={languageMetrics} className="flex-shrink-0" />
+            )}
           </div>
         </div>
       </div>
@@ -3,6 +3,7 @@ import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import rehypeHighlight from 'rehype-highlight';
 import 'highlight.js/styles/github.css';
+import type { TokenBreakdown, TokenSegmentKind } from '@/types/analytics';
 
 interface CommunicationMessageRendererProps {
   content: string;
@@ -207,4 +208,73 @@ export function EvolvedCommunicationRenderer({ content, className = '' }: Commun
       />
     </div>
   );
-}
\ No newline at end of file
+}
+const TOKEN_SEGMENT_STYLES: Record<TokenSegmentKind, string> = {
+  prose: 'text-gray-800',
+  pattern: 'bg-purple-100 text-purple-800 border border-purple-200 rounded px-0.5',
+  symbol: 'bg-blue-100 text-blue-800 border border-blue-200 rounded px-0.5',
+  translation: 'bg-green-50 text-gray-600 italic'
+};
+
+interface TokenBreakdownOverlayProps {
+  breakdown: TokenBreakdown;
+  className?: string;
+}
+
+// Message text with each segment colored by what its tokens pay for, plus the cost of each invented symbol
+export function TokenBreakdownOverlay({ breakdown, className = '' }: TokenBreakdownOverlayProps) {
+  return (
+    <div className={`token-breakdown ${className}`}>
+      <div className="text-sm leading-relaxed whitespace-pre-wrap font-mono">
+        {breakdown.segments.map(segment => (
+          <span
+            key={segment.start}
+            className={TOKEN_SEGMENT_STYLES[segment.kind]}
+            title={`${segment.kind}: ${segment.tokens} token${segment.tokens === 1 ? '' : 's'}`}
+          >
+            {segment.text}
+          </span>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-3 mt-2 text-xs text-gray-600">
+        {(Object.keys(TOKEN_SEGMENT_STYLES) as TokenSegmentKind[]).map(kind => (
+          <span key={kind}>
+            <span className={`inline-block w-2 h-2 mr-1 rounded-sm ${TOKEN_SEGMENT_STYLES[kind]}`} />
+            {kind}: {breakdown.byKind[kind]}
+          </span>
+        ))}
+        <span className="ml-auto">
+          {breakdown.totalTokens} tokens ({breakdown.tokenizer}{breakdown.exactTokenizer ? '' : ', approx.'})
+        </span>
+      </div>
+
+      {breakdown.symbols.length > 0 && (
+        <table className="mt-2 min-w-full border border-gray-200 rounded text-xs">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-2 py-1 text-left font-semibold text-gray-700">Symbol</th>
+              <th className="px-2 py-1 text-right font-semibold text-gray-700">Chars</th>
+              <th className="px-2 py-1 text-right font-semibold text-gray-700">Tokens</th>
+              <th className="px-2 py-1 text-right font-semibold text-gray-700">Uses</th>
+              <th className="px-2 py-1 text-left font-semibold text-gray-700">Meaning</th>
+            </tr>
+          </thead>
+          <tbody>
+            {breakdown.symbols.map(symbol => (
+              <tr key={symbol.symbol} className="border-t border-gray-100">
+                <td className="px-2 py-1 font-mono">{symbol.symbol}</td>
+                <td className="px-2 py-1 text-right">{symbol.characters}</td>
+                <td className={`px-2 py-1 text-right ${symbol.tokens > symbol.characters ? 'text-red-600' : ''}`}>
+                  {symbol.tokens}
+                </td>
+                <td className="px-2 py-1 text-right">{symbol.occurrences}</td>
+                <td className="px-2 py-1 text-gray-600">{symbol.meaning || '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
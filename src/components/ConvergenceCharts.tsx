@@ -0,0 +1,122 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  CartesianGrid,
+  Legend
+} from 'recharts';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/Badge';
+import type { ConvergenceReport, ConvergenceTrend, EfficiencyDataPoint } from '@/types/analytics';
+
+interface ConvergenceChartsProps {
+  tokenTrend: EfficiencyDataPoint[];
+  report: ConvergenceReport | null;
+  className?: string;
+}
+
+const TREND_BADGES: Record<ConvergenceTrend, { label: string; variant: 'success' | 'warning' | 'secondary' }> = {
+  converging: { label: 'Converging', variant: 'success' },
+  diverging: { label: 'Diverging', variant: 'warning' },
+  stable: { label: 'Stable', variant: 'secondary' }
+};
+
+/**
+ * Token trend next to the convergence index, so shrinking messages can be
+ * read against whether the participants share one code or split into dialects
+ */
+export function ConvergenceCharts({ tokenTrend, report, className = '' }: ConvergenceChartsProps) {
+  const tokenData = useMemo(() => tokenTrend.map(point => ({
+    iteration: point.iteration,
+    tokens: point.tokensUsed,
+    payload: point.payloadTokens ?? null
+  })), [tokenTrend]);
+
+  const convergenceData = useMemo(() => (report?.windows || []).map(window => {
+    const mean = (key: 'lexical' | 'structural') => window.pairs.length > 0
+      ? window.pairs.reduce((sum, pair) => sum + pair[key], 0) / window.pairs.length
+      : null;
+    return {
+      iteration: window.endIteration,
+      index: window.convergenceIndex,
+      lexical: mean('lexical'),
+      structural: mean('structural'),
+      dialects: window.dialects.length
+    };
+  }), [report]);
+
+  const latest = report?.windows[report.windows.length - 1];
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-sm">🔀 Convergence & Dialects</CardTitle>
+          {report && report.windows.length > 0 && (
+            <Badge variant={TREND_BADGES[report.trend].variant} className="text-xs px-1 py-0.5">
+              {TREND_BADGES[report.trend].label}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="p-2 space-y-2">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div>
+            <div className="text-xs font-medium text-gray-700 mb-1">Token trend</div>
+            <ResponsiveContainer width="100%" height={160}>
+              <LineChart data={tokenData} margin={{ top: 4, right: 8, bottom: 0, left: -20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="iteration" tick={{ fontSize: 10 }} />
+                <YAxis tick={{ fontSize: 10 }} />
+                <Tooltip contentStyle={{ fontSize: 11 }} />
+                <Legend wrapperStyle={{ fontSize: 10 }} />
+                <Line type="monotone" dataKey="tokens" name="total tokens" stroke="#3b82f6" strokeWidth={2} dot={{ r: 2 }} isAnimationActive={false} />
+                <Line type="monotone" dataKey="payload" name="payload tokens" stroke="#10b981" strokeWidth={2} dot={{ r: 2 }} connectNulls isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <div>
+            <div className="text-xs font-medium text-gray-700 mb-1">
+              Convergence index{report ? ` (${report.window}-iteration windows)` : ''}
+            </div>
+            {convergenceData.length === 0 ? (
+              <p className="text-xs text-gray-500">Needs at least two participants.</p>
+            ) : (
+              <ResponsiveContainer width="100%" height={160}>
+                <LineChart data={convergenceData} margin={{ top: 4, right: 8, bottom: 0, left: -20 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis dataKey="iteration" tick={{ fontSize: 10 }} />
+                  <YAxis tick={{ fontSize: 10 }} domain={[0, 1]} />
+                  <Tooltip contentStyle={{ fontSize: 11 }} />
+                  <Legend wrapperStyle={{ fontSize: 10 }} />
+                  <Line type="monotone" dataKey="index" name="convergence" stroke="#8b5cf6" strokeWidth={2} dot={{ r: 2 }} connectNulls isAnimationActive={false} />
+                  <Line type="monotone" dataKey="lexical" name="lexical" stroke="#f59e0b" strokeWidth={1} strokeDasharray="4 3" dot={false} connectNulls isAnimationActive={false} />
+                  <Line type="monotone" dataKey="structural" name="structural" stroke="#14b8a6" strokeWidth={1} strokeDasharray="4 3" dot={false} connectNulls isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            )}
+          </div>
+        </div>
+
+        {latest && latest.participants.length > 1 && (
+          <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600">
+            <span>
+              Dialects in iterations {latest.startIteration}-{latest.endIteration}:
+            </span>
+            {latest.dialects.map(group => (
+              <Badge key={group.join('|')} variant="outline" className="text-xs px-1 py-0.5">
+                {group.join(' + ')}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,151 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import {
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  CartesianGrid,
+  Legend
+} from 'recharts';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import type { LanguageMetrics, LanguageMetricsReport } from '@/types/analytics';
+
+interface LanguageMetricsChartsProps {
+  report: LanguageMetricsReport | null;
+  className?: string;
+}
+
+type SeriesPoint = { label: string } & Partial<Record<keyof LanguageMetrics, number | null>>;
+
+interface ChartSpec {
+  title: string;
+  unit?: string;
+  lines: Array<{ key: keyof LanguageMetrics; name: string; color: string }>;
+  percent?: boolean;
+}
+
+const CHARTS: ChartSpec[] = [
+  {
+    title: 'Shannon entropy',
+    unit: 'bits',
+    lines: [
+      { key: 'characterEntropy', name: 'per character', color: '#3b82f6' },
+      { key: 'tokenEntropy', name: 'per token', color: '#8b5cf6' }
+    ]
+  },
+  {
+    title: 'Type/token ratio',
+    lines: [{ key: 'typeTokenRatio', name: 'type/token', color: '#10b981' }]
+  },
+  {
+    title: 'Zipf exponent',
+    lines: [{ key: 'zipfExponent', name: 's', color: '#f59e0b' }]
+  },
+  {
+    title: 'Compression ratio',
+    lines: [
+      { key: 'gzipRatio', name: 'gzip', color: '#ef4444' },
+      { key: 'brotliRatio', name: 'brotli', color: '#6366f1' }
+    ]
+  },
+  {
+    title: 'Out-of-dictionary rate',
+    unit: '%',
+    percent: true,
+    lines: [{ key: 'outOfDictionaryRate', name: 'not English', color: '#14b8a6' }]
+  }
+];
+
+/**
+ * Time series of the information-theoretic language metrics, per window of
+ * iterations (the default, since single messages are short) or per message
+ */
+export function LanguageMetricsCharts({ report, className = '' }: LanguageMetricsChartsProps) {
+  const [mode, setMode] = useState<'window' | 'message'>('window');
+
+  const data = useMemo((): SeriesPoint[] => {
+    if (!report) return [];
+
+    const toPoint = (label: string, metrics: LanguageMetrics): SeriesPoint => ({
+      label,
+      ...metrics,
+      outOfDictionaryRate: Math.round(metrics.outOfDictionaryRate * 1000) / 10
+    });
+
+    return mode === 'window'
+      ? report.windows.map(w => toPoint(
+        w.startIteration === w.endIteration ? `${w.startIteration}` : `${w.startIteration}-${w.endIteration}`,
+        w.metrics
+      ))
+      : report.messages.map(m => toPoint(`${m.iteration} ${m.speaker}`, m.metrics));
+  }, [report, mode]);
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-sm">📐 Language Metrics</CardTitle>
+          <div className="flex items-center space-x-3 text-xs text-gray-600">
+            <label className="flex items-center space-x-1">
+              <input
+                type="radio"
+                checked={mode === 'window'}
+                onChange={() => setMode('window')}
+              />
+              <span>Per {report?.window === 1 ? 'iteration' : `${report?.window ?? ''} iterations`}</span>
+            </label>
+            <label className="flex items-center space-x-1">
+              <input
+                type="radio"
+                checked={mode === 'message'}
+                onChange={() => setMode('message')}
+              />
+              <span>Per message</span>
+            </label>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-2">
+        {data.length === 0 ? (
+          <p className="text-xs text-gray-500">No language metrics yet.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {CHARTS.map(chart => (
+              <div key={chart.title}>
+                <div className="text-xs font-medium text-gray-700 mb-1">
+                  {chart.title}{chart.unit ? ` (${chart.unit})` : ''}
+                </div>
+                <ResponsiveContainer width="100%" height={140}>
+                  <LineChart data={data} margin={{ top: 4, right: 8, bottom: 0, left: -20 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                    <XAxis dataKey="label" tick={{ fontSize: 10 }} />
+                    <YAxis tick={{ fontSize: 10 }} domain={chart.percent ? [0, 100] : ['auto', 'auto']} />
+                    <Tooltip contentStyle={{ fontSize: 11 }} />
+                    {chart.lines.length > 1 && <Legend wrapperStyle={{ fontSize: 10 }} />}
+                    {chart.lines.map(line => (
+                      <Line
+                        key={line.key}
+                        type="monotone"
+                        dataKey={line.key}
+                        name={line.name}
+                        stroke={line.color}
+                        strokeWidth={2}
+                        dot={{ r: 2 }}
+                        connectNulls
+                        isAnimationActive={false}
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
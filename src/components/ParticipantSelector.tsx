@@ -2,7 +2,15 @@ import React, { useState, useEffect } from 'react';
 import { Select } from '@/components/ui/Select';
 import { Badge } from '@/components/ui/Badge';
 import { PROVIDER_CONFIGS, getModelsByProvider } from '@/constants/providers';
-import type { LLMParticipant, LLMProvider } from '@/types/llm';
+import type { LLMParticipant, LLMProvider, OpenAICompatibleParticipantConfig, ParticipantRole } from '@/types/llm';
+
+const DEFAULT_ENDPOINT_MODEL = 'llama3.1';
+
+const PARTICIPANT_ROLES: Array<{ value: ParticipantRole; label: string }> = [
+  { value: 'speaker', label: 'Speaker' },
+  { value: 'moderator', label: 'Moderator' },
+  { value: 'observer', label: 'Observer' }
+];
 
 interface ParticipantSelectorProps {
   participants: LLMParticipant[];
@@ -13,93 +21,48 @@ interface ParticipantSelectorProps {
 interface AvailableProvider {
   provider: LLMProvider;
   available: boolean;
+  unverified?: boolean; // Key configured, but checking it costs a completion so it is only tested on request
   reason?: string;
 }
 
+interface EndpointStatus {
+  ok: boolean;
+  message: string;
+}
+
 export function ParticipantSelector({ participants, onParticipantsChange, className = '' }: ParticipantSelectorProps) {
   const [availableProviders, setAvailableProviders] = useState<AvailableProvider[]>([]);
   const [isLoading, setIsLoading] = useState(true);
+  const [endpointStatus, setEndpointStatus] = useState<Record<number, EndpointStatus>>({});
 
   // Check which providers are available (have API keys)
   useEffect(() => {
     const checkProviderAvailability = async () => {
-      const providers: AvailableProvider[] = [
-        { provider: 'openai', available: false },
-        { provider: 'claude', available: false },
-        { provider: 'gemini', available: false },
-        { provider: 'perplexity', available: false }
-      ];
+      const providerTypes: LLMProvider[] = ['openai', 'claude', 'gemini', 'perplexity', 'mock'];
+      const providers: AvailableProvider[] = providerTypes.map(provider => ({
+        provider,
+        available: false
+      }));
 
       // Check all providers in parallel
-      const checkPromises = [
-        // Check OpenAI availability
-        fetch('/api/providers/openai/test', { method: 'POST' })
-          .then(response => {
-            providers[0].available = response.ok;
-            if (!response.ok) {
-              return response.json().then(error => {
-                providers[0].reason = error.error || 'API key not configured';
-                return null;
-              });
-            }
-            return null;
-          })
-          .catch(() => {
-            providers[0].reason = 'API key not configured';
-            return null;
-          }),
-
-        // Check Claude availability
-        fetch('/api/providers/claude/test', { method: 'POST' })
-          .then(response => {
-            providers[1].available = response.ok;
-            if (!response.ok) {
-              return response.json().then(error => {
-                providers[1].reason = error.error || 'API key not configured';
-                return null;
-              });
-            }
-            return null;
-          })
-          .catch(() => {
-            providers[1].reason = 'API key not configured';
-            return null;
-          }),
-
-        // Check Gemini availability
-        fetch('/api/providers/gemini/test', { method: 'POST' })
+      const checkPromises = providers.map(entry =>
+        fetch(`/api/providers/${entry.provider}/test`, { method: 'POST' })
           .then(response => {
-            providers[2].available = response.ok;
-            if (!response.ok) {
-              return response.json().then(error => {
-                providers[2].reason = error.error || 'API key not configured';
-                return null;
-              });
-            }
-            return null;
+            entry.available = response.ok;
+            return response.json().then(result => {
+              if (response.ok) {
+                entry.unverified = result.verified === false;
+              } else {
+                entry.reason = result.error || 'API key not configured';
+              }
+              return null;
+            });
           })
           .catch(() => {
-            providers[2].reason = 'API key not configured';
-            return null;
-          }),
-
-        // Check Perplexity availability
-        fetch('/api/providers/perplexity/test', { method: 'POST' })
-          .then(response => {
-            providers[3].available = response.ok;
-            if (!response.ok) {
-              return response.json().then(error => {
-                providers[3].reason = error.error || 'API key not configured';
-                return null;
-              });
-            }
+            entry.reason = 'API key not configured';
             return null;
           })
-          .catch(() => {
-            providers[3].reason = 'API key not configured';
-            return null;
-          })
-      ];
+      );
 
       try {
         await Promise.all(checkPromises);
@@ -107,6 +70,9 @@ export function ParticipantSelector({ participants, onParticipantsChange, classN
         console.error('Error checking provider availability:', error);
       }
 
+      // OpenAI-compatible endpoints are configured and tested per participant
+      providers.push({ provider: 'openai-compatible', available: true });
+
       setAvailableProviders(providers);
       setIsLoading(false);
     };
@@ -129,6 +95,64 @@ export function ParticipantSelector({ participants, onParticipantsChange, classN
     onParticipantsChange(newParticipants);
   };
 
+  // Default model and config when a participant switches to a provider
+  const getProviderDefaults = (provider: LLMProvider): Pick<LLMParticipant, 'model' | 'config'> | null => {
+    if (provider === 'openai-compatible') {
+      return {
+        model: DEFAULT_ENDPOINT_MODEL,
+        config: { baseURL: PROVIDER_CONFIGS['openai-compatible'].apiEndpoint }
+      };
+    }
+
+    const models = getAvailableModels(provider);
+    if (models.length === 0) return null;
+
+    return { model: models[0].model, config: undefined };
+  };
+
+  // Change provider, resetting model and provider-specific config
+  const changeProvider = (index: number, provider: LLMProvider) => {
+    const defaults = getProviderDefaults(provider);
+    const newParticipants = [...participants];
+    newParticipants[index] = { ...newParticipants[index], provider, ...(defaults || {}) };
+    onParticipantsChange(newParticipants);
+    setEndpointStatus(prev => {
+      const next = { ...prev };
+      delete next[index];
+      return next;
+    });
+  };
+
+  // Update a field of an OpenAI-compatible participant's endpoint config
+  const updateEndpointConfig = (index: number, updates: Partial<OpenAICompatibleParticipantConfig>) => {
+    const current = (participants[index].config || {}) as OpenAICompatibleParticipantConfig;
+    updateParticipant(index, 'config', { ...current, ...updates });
+  };
+
+  // Verify an OpenAI-compatible participant's endpoint and model, or make the live
+  // check for a provider whose key is unverified (it may be billed)
+  const testEndpoint = async (index: number) => {
+    const participant = participants[index];
+    setEndpointStatus(prev => ({ ...prev, [index]: { ok: false, message: 'Testing...' } }));
+
+    try {
+      const response = await fetch(`/api/providers/${participant.provider}/test`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(participant.provider === 'openai-compatible'
+          ? { ...(participant.config || {}), model: participant.model }
+          : { live: true })
+      });
+      const result = await response.json();
+      setEndpointStatus(prev => ({
+        ...prev,
+        [index]: { ok: response.ok, message: response.ok ? result.message : result.error }
+      }));
+    } catch {
+      setEndpointStatus(prev => ({ ...prev, [index]: { ok: false, message: 'Endpoint test request failed' } }));
+    }
+  };
+
   // Add new participant
   const addParticipant = () => {
     if (participants.length >= 4) return; // Max 4 participants
@@ -136,14 +160,14 @@ export function ParticipantSelector({ participants, onParticipantsChange, classN
     const availableProvider = availableProviders.find(p => p.available);
     if (!availableProvider) return;
 
-    const models = getAvailableModels(availableProvider.provider);
-    if (models.length === 0) return;
+    const defaults = getProviderDefaults(availableProvider.provider);
+    if (!defaults) return;
 
     const newParticipant: LLMParticipant = {
       name: `${availableProvider.provider}-${participants.length + 1}`,
       provider: availableProvider.provider,
-      model: models[0].model,
-      temperature: 0.7
+      temperature: 0.7,
+      ...defaults
     };
 
     onParticipantsChange([...participants, newParticipant]);
@@ -189,6 +213,9 @@ export function ParticipantSelector({ participants, onParticipantsChange, classN
         const providerInfo = availableProviders.find(p => p.provider === participant.provider);
         const isAvailable = providerInfo?.available ?? false;
         const availableModels = getAvailableModels(participant.provider);
+        const isCustomEndpoint = participant.provider === 'openai-compatible';
+        const needsLiveTest = providerInfo?.unverified ?? false;
+        const endpointConfig = (participant.config || {}) as OpenAICompatibleParticipantConfig;
 
         return (
           <div key={index} className="space-y-2">
@@ -196,7 +223,7 @@ export function ParticipantSelector({ participants, onParticipantsChange, classN
               <div className="flex-1">
                 <Select
                   value={participant.provider}
-                  onChange={(e) => updateParticipant(index, 'provider', e.target.value as LLMProvider)}
+                  onChange={(e) => changeProvider(index, e.target.value as LLMProvider)}
                   options={availableProviders.map(p => ({
                     value: p.provider,
                     label: `${PROVIDER_CONFIGS[p.provider]?.icon || '🤖'} ${PROVIDER_CONFIGS[p.provider]?.displayName || p.provider}`,
@@ -217,16 +244,26 @@ export function ParticipantSelector({ participants, onParticipantsChange, classN
 
             <div className="flex items-center space-x-2">
               <div className="flex-1">
-                <Select
-                  value={participant.model}
-                  onChange={(e) => updateParticipant(index, 'model', e.target.value)}
-                  options={availableModels.map(model => ({
-                    value: model.model,
-                    label: model.displayName
-                  }))}
-                  className="text-xs h-8"
-                  disabled={!isAvailable}
-                />
+                {isCustomEndpoint ? (
+                  <input
+                    type="text"
+                    value={participant.model}
+                    onChange={(e) => updateParticipant(index, 'model', e.target.value)}
+                    placeholder="Model name (e.g. llama3.1)"
+                    className="w-full text-xs h-8 px-2 border border-gray-300 rounded focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+                  />
+                ) : (
+                  <Select
+                    value={participant.model}
+                    onChange={(e) => updateParticipant(index, 'model', e.target.value)}
+                    options={availableModels.map(model => ({
+                      value: model.model,
+                      label: model.displayName
+                    }))}
+                    className="text-xs h-8"
+                    disabled={!isAvailable}
+                  />
+                )}
               </div>
               <div className="w-16">
                 <input
@@ -240,8 +277,72 @@ export function ParticipantSelector({ participants, onParticipantsChange, classN
                   disabled={!isAvailable}
                 />
               </div>
+              <div className="w-28">
+                <Select
+                  value={participant.role || 'speaker'}
+                  onChange={(e) => updateParticipant(index, 'role', e.target.value as ParticipantRole)}
+                  options={PARTICIPANT_ROLES}
+                  className="text-xs h-8"
+                />
+              </div>
             </div>
 
+            {isCustomEndpoint && (
+              <div className="space-y-2">
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    value={endpointConfig.baseURL || ''}
+                    onChange={(e) => updateEndpointConfig(index, { baseURL: e.target.value })}
+                    placeholder={PROVIDER_CONFIGS['openai-compatible'].apiEndpoint}
+                    className="flex-1 text-xs h-8 px-2 border border-gray-300 rounded focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+                  />
+                  <button
+                    onClick={() => testEndpoint(index)}
+                    className="text-xs text-blue-600 hover:text-blue-800 font-medium px-2"
+                  >
+                    Test
+                  </button>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    value={endpointConfig.apiKeyEnv || ''}
+                    onChange={(e) => updateEndpointConfig(index, { apiKeyEnv: e.target.value || undefined })}
+                    placeholder="API key env var (optional)"
+                    className="flex-1 text-xs h-8 px-2 border border-gray-300 rounded focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.0001"
+                    value={endpointConfig.pricing?.input ?? ''}
+                    onChange={(e) => updateEndpointConfig(index, {
+                      pricing: { input: parseFloat(e.target.value) || 0, output: endpointConfig.pricing?.output ?? 0 }
+                    })}
+                    placeholder="$ in/1K"
+                    className="w-20 text-xs h-8 px-2 border border-gray-300 rounded focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.0001"
+                    value={endpointConfig.pricing?.output ?? ''}
+                    onChange={(e) => updateEndpointConfig(index, {
+                      pricing: { input: endpointConfig.pricing?.input ?? 0, output: parseFloat(e.target.value) || 0 }
+                    })}
+                    placeholder="$ out/1K"
+                    className="w-20 text-xs h-8 px-2 border border-gray-300 rounded focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
+                  />
+                </div>
+                {endpointStatus[index] && (
+                  <div className={`text-xs px-2 py-1 rounded ${endpointStatus[index].ok ? 'text-green-700 bg-green-50' : 'text-red-600 bg-red-50'}`}>
+                    {endpointStatus[index].message}
+                  </div>
+                )}
+              </div>
+            )}
+
             {!isAvailable && providerInfo?.reason && (
               <div className="text-xs text-red-600 bg-red-50 px-2 py-1 rounded">
                 {providerInfo.reason}
@@ -263,8 +364,26 @@ export function ParticipantSelector({ participants, onParticipantsChange, classN
                 <span className="text-xs text-gray-500">
                   T: {participant.temperature}
                 </span>
+                {needsLiveTest && (
+                  <button
+                    onClick={() => testEndpoint(index)}
+                    className="text-xs text-blue-600 hover:text-blue-800 font-medium px-2"
+                  >
+                    Test
+                  </button>
+                )}
               </div>
             )}
+
+            {needsLiveTest && (endpointStatus[index] ? (
+              <div className={`text-xs px-2 py-1 rounded ${endpointStatus[index].ok ? 'text-green-700 bg-green-50' : 'text-red-600 bg-red-50'}`}>
+                {endpointStatus[index].message}
+              </div>
+            ) : (
+              <div className="text-xs text-yellow-700 bg-yellow-50 px-2 py-1 rounded">
+                API key configured but not verified; click Test to check it
+              </div>
+            ))}
           </div>
         );
       })}
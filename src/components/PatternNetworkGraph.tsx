@@ -0,0 +1,396 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/Card';
+import { Badge } from '@/components/ui/Badge';
+import { networkAtIteration, getNetworkIterationRange, toGraphML, toGEXF } from '@/lib/pattern-network';
+import { downloadFile } from '@/lib/download-utils';
+import type { CommunicationPatternData } from '@/types/analytics';
+import type { SessionState } from '@/types/session';
+
+interface PatternNetworkGraphProps {
+  session: SessionState;
+  className?: string;
+}
+
+type NetworkEdge = CommunicationPatternData['edges'][number];
+type Point = { x: number; y: number };
+
+const WIDTH = 640;
+const HEIGHT = 340;
+const PLAY_INTERVAL = 700; // ms per iteration
+
+const EDGE_STYLES: Record<NetworkEdge['type'], { color: string; dash?: string; label: string }> = {
+  introduces: { color: '#374151', label: 'introduces' },
+  adopts: { color: '#3b82f6', label: 'adopts' },
+  modifies: { color: '#8b5cf6', dash: '4 3', label: 'modifies / extends' }
+};
+
+/**
+ * Interactive family tree of the session's protocol: who introduced, adopted
+ * and amended which pattern, and which patterns were built from earlier ones.
+ * The slider replays the network iteration by iteration.
+ */
+export function PatternNetworkGraph({ session, className = '' }: PatternNetworkGraphProps) {
+  const [network, setNetwork] = useState<CommunicationPatternData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [iteration, setIteration] = useState<number | null>(null); // null follows the latest iteration
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (session.messages.length === 0) return;
+
+    let cancelled = false;
+    fetch(`/api/analytics/pattern-network?sessionId=${session.id}`)
+      .then(response => response.json())
+      .then(data => {
+        if (!data.success) throw new Error(data.error || 'Failed to load pattern network');
+        if (!cancelled) {
+          setNetwork(data.network);
+          setError(null);
+        }
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Unknown error');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [session.id, session.messages.length]);
+
+  const range = useMemo(() => (network ? getNetworkIterationRange(network) : { first: 0, last: 0 }), [network]);
+  const current = iteration ?? range.last;
+
+  // Laid out once over the whole session so nodes keep their place while the slider moves
+  const positions = useMemo(() => (network ? layoutNetwork(network) : new Map<string, Point>()), [network]);
+  const visible = useMemo(() => (network ? networkAtIteration(network, current) : null), [network, current]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const timer = setInterval(() => {
+      setIteration(prev => Math.min(range.last, (prev ?? range.first) + 1));
+    }, PLAY_INTERVAL);
+
+    return () => clearInterval(timer);
+  }, [isPlaying, range.first, range.last]);
+
+  // Stop at the latest iteration and keep following it from there
+  useEffect(() => {
+    if (isPlaying && iteration !== null && iteration >= range.last) {
+      setIsPlaying(false);
+      setIteration(null);
+    }
+  }, [isPlaying, iteration, range.last]);
+
+  const handlePlay = () => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+    setIteration(range.first);
+    setIsPlaying(true);
+  };
+
+  const handleExport = (format: 'graphml' | 'gexf') => {
+    if (!network) return;
+    const content = format === 'graphml'
+      ? toGraphML(network)
+      : toGEXF(network, `Pattern network of "${session.config.topic}"`);
+    downloadFile(content, `pattern-network-${session.id.substring(0, 8)}.${format}`, 'application/xml');
+  };
+
+  const selected = visible?.nodes.find(node => node.id === selectedId) || null;
+  const selectedEdges = visible && selected
+    ? visible.edges.filter(edge => edge.source === selected.id || edge.target === selected.id)
+    : [];
+  const labelOf = (id: string) => visible?.nodes.find(node => node.id === id)?.label || id;
+
+  const patternCount = visible?.nodes.filter(node => node.type !== 'participant').length || 0;
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-sm">🌳 Pattern Network</CardTitle>
+          <div className="flex items-center space-x-2">
+            <Button
+              onClick={() => handleExport('graphml')}
+              disabled={!network}
+              variant="outline"
+              size="sm"
+              className="text-xs h-6 px-2"
+            >
+              GraphML
+            </Button>
+            <Button
+              onClick={() => handleExport('gexf')}
+              disabled={!network}
+              variant="outline"
+              size="sm"
+              className="text-xs h-6 px-2"
+            >
+              GEXF
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-2">
+        {error ? (
+          <p className="text-xs text-red-600">Failed to load pattern network: {error}</p>
+        ) : !network || !visible ? (
+          <p className="text-xs text-gray-500">Loading pattern network...</p>
+        ) : network.nodes.every(node => node.type === 'participant') ? (
+          <p className="text-xs text-gray-500">No patterns established yet.</p>
+        ) : (
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2 text-xs text-gray-600">
+              <Button onClick={handlePlay} variant="outline" size="sm" className="text-xs h-6 px-2">
+                {isPlaying ? '⏸' : '▶'}
+              </Button>
+              <input
+                type="range"
+                min={range.first}
+                max={range.last}
+                value={current}
+                onChange={(e) => {
+                  const value = Number(e.target.value);
+                  setIsPlaying(false);
+                  setIteration(value >= range.last ? null : value);
+                }}
+                className="flex-1"
+              />
+              <span className="whitespace-nowrap">
+                Iteration {current} · {patternCount} patterns
+              </span>
+            </div>
+
+            <svg
+              viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+              className="w-full border border-gray-200 rounded bg-white"
+              onClick={() => setSelectedId(null)}
+            >
+              <defs>
+                {Object.entries(EDGE_STYLES).map(([type, style]) => (
+                  <marker
+                    key={type}
+                    id={`arrow-${type}`}
+                    viewBox="0 0 10 10"
+                    refX="10"
+                    refY="5"
+                    markerWidth="5"
+                    markerHeight="5"
+                    orient="auto-start-reverse"
+                  >
+                    <path d="M 0 0 L 10 5 L 0 10 z" fill={style.color} />
+                  </marker>
+                ))}
+              </defs>
+
+              {visible.edges.map(edge => {
+                const from = positions.get(edge.source);
+                const to = positions.get(edge.target);
+                if (!from || !to) return null;
+
+                const style = EDGE_STYLES[edge.type];
+                const targetNode = visible.nodes.find(node => node.id === edge.target);
+                const end = shorten(from, to, targetNode ? nodeRadius(targetNode) + 2 : 0);
+                const highlighted = !selected || edge.source === selected.id || edge.target === selected.id;
+
+                return (
+                  <line
+                    key={`${edge.type}:${edge.source}:${edge.target}`}
+                    x1={from.x}
+                    y1={from.y}
+                    x2={end.x}
+                    y2={end.y}
+                    stroke={style.color}
+                    strokeWidth={1 + Math.log2(edge.weight)}
+                    strokeDasharray={style.dash}
+                    strokeOpacity={highlighted ? 0.7 : 0.1}
+                    markerEnd={`url(#arrow-${edge.type})`}
+                  >
+                    <title>{`${labelOf(edge.source)} ${style.label} ${labelOf(edge.target)} (${edge.weight}×, from iteration ${edge.iteration})`}</title>
+                  </line>
+                );
+              })}
+
+              {visible.nodes.map(node => {
+                const position = positions.get(node.id);
+                if (!position) return null;
+
+                const radius = nodeRadius(node);
+                const connected = !selected || node.id === selected.id ||
+                  selectedEdges.some(edge => edge.source === node.id || edge.target === node.id);
+
+                return (
+                  <g
+                    key={node.id}
+                    transform={`translate(${position.x}, ${position.y})`}
+                    opacity={connected ? 1 : 0.25}
+                    className="cursor-pointer"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setSelectedId(node.id === selectedId ? null : node.id);
+                    }}
+                  >
+                    <circle
+                      r={radius}
+                      fill={node.type === 'participant' ? '#ffffff' : node.color}
+                      stroke={node.color}
+                      strokeWidth={node.type === 'participant' ? 3 : 1}
+                    />
+                    <text
+                      y={radius + 10}
+                      textAnchor="middle"
+                      className={node.type === 'participant' ? 'fill-gray-900 font-semibold' : 'fill-gray-700'}
+                      fontSize={node.type === 'participant' ? 11 : 10}
+                    >
+                      {truncate(node.label, 14)}
+                    </text>
+                    <title>{node.meaning ? `${node.label} = ${node.meaning}` : node.label}</title>
+                  </g>
+                );
+              })}
+            </svg>
+
+            <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+              {Object.entries(EDGE_STYLES).map(([type, style]) => (
+                <span key={type} className="flex items-center space-x-1">
+                  <svg width="18" height="6">
+                    <line x1="0" y1="3" x2="18" y2="3" stroke={style.color} strokeWidth={2} strokeDasharray={style.dash} />
+                  </svg>
+                  <span>{style.label}</span>
+                </span>
+              ))}
+              <span className="text-gray-400">Node size: messages sent or times used</span>
+            </div>
+
+            {selected && (
+              <div className="p-2 rounded border border-gray-200 bg-gray-50 text-xs space-y-1">
+                <div className="flex items-center space-x-2">
+                  <span className="font-semibold text-gray-900">{selected.label}</span>
+                  <Badge variant="outline" className="text-xs px-1 py-0.5">
+                    {selected.patternType || selected.type}
+                  </Badge>
+                  <span className="text-gray-500">
+                    since iteration {selected.iteration}, {selected.size}× {selected.type === 'participant' ? 'messages' : 'used'}
+                  </span>
+                </div>
+                {selected.meaning && <div className="text-gray-700">{selected.meaning}</div>}
+                {selectedEdges.map(edge => (
+                  <div key={`${edge.type}:${edge.source}:${edge.target}`} className="text-gray-600">
+                    {labelOf(edge.source)} {EDGE_STYLES[edge.type].label} {labelOf(edge.target)}
+                    {' '}({edge.weight}×, iterations {edge.iterations.join(', ')})
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function nodeRadius(node: CommunicationPatternData['nodes'][number]): number {
+  return (node.type === 'participant' ? 10 : 4) + 2 * Math.sqrt(node.size);
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+function shorten(from: Point, to: Point, by: number): Point {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const distance = Math.sqrt(dx * dx + dy * dy) || 1;
+  const ratio = Math.max(0, distance - by) / distance;
+  return { x: from.x + dx * ratio, y: from.y + dy * ratio };
+}
+
+/**
+ * Deterministic force-directed layout: participants start on a circle and
+ * patterns next to their introducer, then connected nodes attract and all
+ * nodes repel each other
+ */
+function layoutNetwork(network: CommunicationPatternData): Map<string, Point> {
+  const margin = 30;
+  const participants = network.nodes.filter(node => node.type === 'participant');
+  const positions = new Map<string, Point>();
+
+  participants.forEach((node, index) => {
+    const angle = (2 * Math.PI * index) / participants.length - Math.PI / 2;
+    positions.set(node.id, {
+      x: WIDTH / 2 + Math.cos(angle) * (WIDTH / 3),
+      y: HEIGHT / 2 + Math.sin(angle) * (HEIGHT / 3)
+    });
+  });
+
+  network.nodes.forEach((node, index) => {
+    if (positions.has(node.id)) return;
+    const introducer = network.edges.find(edge => edge.target === node.id && edge.type === 'introduces');
+    const anchor = (introducer && positions.get(introducer.source)) || { x: WIDTH / 2, y: HEIGHT / 2 };
+    const angle = index * 2.399963; // Golden angle spreads siblings evenly
+    positions.set(node.id, {
+      x: anchor.x + Math.cos(angle) * 40,
+      y: anchor.y + Math.sin(angle) * 40
+    });
+  });
+
+  const nodes = network.nodes.map(node => node.id);
+  const k = Math.sqrt((WIDTH * HEIGHT) / Math.max(1, nodes.length)) * 0.6;
+  let temperature = WIDTH / 10;
+
+  for (let step = 0; step < 150; step++) {
+    const displacement = new Map<string, Point>(nodes.map(id => [id, { x: 0, y: 0 }]));
+
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        const a = positions.get(nodes[i])!;
+        const b = positions.get(nodes[j])!;
+        const dx = a.x - b.x;
+        const dy = a.y - b.y;
+        const distance = Math.max(0.01, Math.sqrt(dx * dx + dy * dy));
+        const force = (k * k) / distance;
+        const da = displacement.get(nodes[i])!;
+        const db = displacement.get(nodes[j])!;
+        da.x += (dx / distance) * force;
+        da.y += (dy / distance) * force;
+        db.x -= (dx / distance) * force;
+        db.y -= (dy / distance) * force;
+      }
+    }
+
+    for (const edge of network.edges) {
+      const a = positions.get(edge.source);
+      const b = positions.get(edge.target);
+      if (!a || !b) continue;
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const distance = Math.max(0.01, Math.sqrt(dx * dx + dy * dy));
+      const force = (distance * distance) / k;
+      const da = displacement.get(edge.source)!;
+      const db = displacement.get(edge.target)!;
+      da.x -= (dx / distance) * force;
+      da.y -= (dy / distance) * force;
+      db.x += (dx / distance) * force;
+      db.y += (dy / distance) * force;
+    }
+
+    displacement.forEach((d, id) => {
+      const position = positions.get(id)!;
+      const length = Math.max(0.01, Math.sqrt(d.x * d.x + d.y * d.y));
+      const move = Math.min(length, temperature);
+      position.x = Math.min(WIDTH - margin, Math.max(margin, position.x + (d.x / length) * move));
+      position.y = Math.min(HEIGHT - margin, Math.max(margin, position.y + (d.y / length) * move));
+    });
+
+    temperature *= 0.96;
+  }
+
+  return positions;
+}
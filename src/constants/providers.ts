@@ -4,6 +4,7 @@ import type {
   ClaudeModel, 
   GeminiModel, 
   PerplexityModel,
+  MockModel,
   ModelInfo,
   ProviderCapabilities 
 } from '@/types/llm';
@@ -53,6 +54,28 @@ export const PROVIDER_CONFIGS = {
     maxTemperature: 2.0,
     color: '#7c3aed',
     icon: '🔍'
+  },
+  mock: {
+    name: 'Mock',
+    displayName: 'Offline Mock',
+    description: 'Deterministic scripted or seeded-random responses for offline runs',
+    website: 'https://github.com/Bichev/llm-talk',
+    apiEndpoint: 'local',
+    defaultTemperature: 0.7,
+    maxTemperature: 2.0,
+    color: '#6b7280',
+    icon: '🧪'
+  },
+  'openai-compatible': {
+    name: 'OpenAI-Compatible',
+    displayName: 'OpenAI-Compatible Endpoint',
+    description: 'Self-hosted open-weight models via Ollama, vLLM or llama.cpp',
+    website: 'https://platform.openai.com/docs/api-reference/chat',
+    apiEndpoint: 'http://localhost:11434/v1',
+    defaultTemperature: 0.7,
+    maxTemperature: 2.0,
+    color: '#0f766e',
+    icon: '🖥️'
   }
 } as const;
 
@@ -280,12 +303,44 @@ export const PERPLEXITY_MODELS: Record<PerplexityModel, ModelInfo> = {
   }
 };
 
+export const MOCK_MODELS: Record<MockModel, ModelInfo> = {
+  'mock-scripted': {
+    provider: 'mock',
+    model: 'mock-scripted',
+    displayName: 'Mock (Scripted)',
+    description: 'Replays a fixed script of evolving protocol messages',
+    capabilities: {
+      maxTokens: 128000,
+      supportsSystemPrompts: true,
+      supportsStreaming: true,
+      supportsFunctionCalling: false,
+      costPerInputToken: 0,
+      costPerOutputToken: 0
+    }
+  },
+  'mock-random': {
+    provider: 'mock',
+    model: 'mock-random',
+    displayName: 'Mock (Seeded Random)',
+    description: 'Generates reproducible pseudo-random symbol and abbreviation messages',
+    capabilities: {
+      maxTokens: 128000,
+      supportsSystemPrompts: true,
+      supportsStreaming: true,
+      supportsFunctionCalling: false,
+      costPerInputToken: 0,
+      costPerOutputToken: 0
+    }
+  }
+};
+
 // Combined model registry
 export const ALL_MODELS: ModelInfo[] = [
   ...Object.values(OPENAI_MODELS),
   ...Object.values(CLAUDE_MODELS),
   ...Object.values(GEMINI_MODELS),
-  ...Object.values(PERPLEXITY_MODELS)
+  ...Object.values(PERPLEXITY_MODELS),
+  ...Object.values(MOCK_MODELS)
 ];
 
 // Default model selections for quick start
@@ -403,3 +458,26 @@ export const RATE_LIMITS = {
     'llama-3.1-sonar-huge-128k-online': 200
   }
 } as const;
+
+// Rate limiting information (input + output tokens per minute).
+// Defaults for a mid-tier account; providers without an entry are not token-limited.
+export const TOKEN_RATE_LIMITS = {
+  openai: {
+    'gpt-3.5-turbo': 200000,
+    'gpt-4': 40000,
+    'gpt-4-turbo': 150000,
+    'gpt-4o': 150000,
+    'gpt-4o-mini': 200000
+  },
+  claude: {
+    'claude-3-haiku-20240307': 400000,
+    'claude-3-sonnet-20240229': 400000,
+    'claude-3-opus-20240229': 400000,
+    'claude-3-5-sonnet-20241022': 400000
+  },
+  gemini: {
+    'gemini-1.5-flash': 1000000,
+    'gemini-1.5-pro': 1000000,
+    'gemini-1.0-pro': 1000000
+  }
+} as const;
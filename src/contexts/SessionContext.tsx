@@ -1,17 +1,31 @@
 'use client';
 
-import React, { createContext, useContext, useReducer, useCallback, useEffect, useRef } from 'react';
+import React, { createContext, useContext, useReducer, useCallback, useEffect, useMemo, useRef, useState } from 'react';
 // import { SessionManager } from '@/lib/session-manager'; // Not needed on client side
 import { subscribeToSession, subscribeToMessages } from '@/lib/supabase';
 import { downloadSession, type DownloadOptions } from '@/lib/download-utils';
+import { isRunnerLeaseActive, readServerSentEvents } from '@/lib/utils';
+import { getScheduledModerator, selectSpeaker } from '@/lib/turn-taking';
+import type { EvolutionPattern } from '@/lib/evolution-tracker';
 import type { 
   SessionState, 
   SessionStatus, 
   StartSessionRequest, 
   SendMessageRequest,
+  SessionConfig,
+  SessionRunnerStatus,
+  SessionStopReason,
   ConversationMessage 
 } from '@/types/session';
 
+// Partial message text while a reply is being streamed
+export interface StreamingMessage {
+  speaker: string;
+  participantId: string;
+  iteration: number;
+  content: string;
+}
+
 // Context Types
 export interface SessionContextValue {
   // State
@@ -19,12 +33,18 @@ export interface SessionContextValue {
   status: SessionStatus;
   isProcessing: boolean;
   error: string | null;
+  streamingMessage: StreamingMessage | null;
   
   // Actions
   startSession: (request: StartSessionRequest) => Promise<void>;
   sendMessage: (request?: Partial<SendMessageRequest>) => Promise<void>;
-  stopSession: (reason?: 'manual' | 'completed' | 'error' | 'timeout') => Promise<void>;
+  stopSession: (reason?: SessionStopReason) => Promise<void>;
+  pauseSession: () => Promise<void>;
+  resumeSession: () => Promise<void>;
   loadSession: (sessionId: string) => Promise<void>;
+  startAutoRun: (delayMs?: number) => Promise<void>;
+  pauseAutoRun: () => Promise<void>;
+  resumeAutoRun: (delayMs?: number) => Promise<void>;
   clearError: () => void;
   downloadSession: (format: 'json' | 'csv' | 'pdf', options?: DownloadOptions) => void;
   
@@ -32,6 +52,7 @@ export interface SessionContextValue {
   canSendMessage: boolean;
   nextSpeaker: string | null;
   progressPercentage: number;
+  runnerState: SessionRunnerStatus['state'] | null;
 }
 
 // Action Types
@@ -42,6 +63,11 @@ type SessionAction =
   | { type: 'SET_ERROR'; payload: string | null }
   | { type: 'ADD_MESSAGE'; payload: ConversationMessage }
   | { type: 'UPDATE_SESSION'; payload: Partial<SessionState> }
+  | { type: 'UPDATE_CONFIG'; payload: Partial<SessionConfig> }
+  | { type: 'STREAM_START'; payload: Omit<StreamingMessage, 'content'> }
+  | { type: 'STREAM_DELTA'; payload: string }
+  | { type: 'STREAM_RESET' }
+  | { type: 'STREAM_END' }
   | { type: 'CLEAR_ERROR' };
 
 // Reducer State
@@ -50,6 +76,7 @@ interface SessionReducerState {
   status: SessionStatus;
   isProcessing: boolean;
   error: string | null;
+  streamingMessage: StreamingMessage | null;
 }
 
 // Initial State
@@ -57,7 +84,8 @@ const initialState: SessionReducerState = {
   session: null,
   status: 'idle',
   isProcessing: false,
-  error: null
+  error: null,
+  streamingMessage: null
 };
 
 // Reducer
@@ -92,17 +120,28 @@ function sessionReducer(state: SessionReducerState, action: SessionAction): Sess
       
     case 'ADD_MESSAGE':
       if (!state.session) return state;
+
+      // The same message can arrive from the API response and the realtime subscription
+      if (action.payload.id && state.session.messages.some(m => m.id === action.payload.id)) {
+        return state;
+      }
+
+      // Realtime inserts only carry participant_id, so resolve the speaker name here
+      const speaker = action.payload.speaker && action.payload.speaker !== 'Unknown'
+        ? action.payload.speaker
+        : state.session.participants.find(p => p.id === action.payload.participantId)?.name || 'Unknown';
       
       return {
         ...state,
         session: {
           ...state.session,
-          messages: [...state.session.messages, action.payload],
+          messages: [...state.session.messages, { ...action.payload, speaker }],
           currentIteration: action.payload.iteration,
           updatedAt: new Date(),
           analytics: {
             ...state.session.analytics,
             totalTokens: state.session.analytics.totalTokens + action.payload.tokenCount.total,
+            totalCost: (state.session.analytics.totalCost || 0) + (action.payload.costUsd || 0),
             averageTokensPerMessage: 
               (state.session.analytics.totalTokens + action.payload.tokenCount.total) / 
               (state.session.messages.length + 1)
@@ -121,6 +160,51 @@ function sessionReducer(state: SessionReducerState, action: SessionAction): Sess
         }
       };
       
+    case 'UPDATE_CONFIG':
+      if (!state.session) return state;
+
+      return {
+        ...state,
+        session: {
+          ...state.session,
+          config: {
+            ...state.session.config,
+            ...action.payload
+          }
+        }
+      };
+
+    case 'STREAM_START':
+      return {
+        ...state,
+        streamingMessage: { ...action.payload, content: '' }
+      };
+
+    case 'STREAM_RESET':
+      if (!state.streamingMessage) return state;
+
+      return {
+        ...state,
+        streamingMessage: { ...state.streamingMessage, content: '' }
+      };
+
+    case 'STREAM_DELTA':
+      if (!state.streamingMessage) return state;
+
+      return {
+        ...state,
+        streamingMessage: {
+          ...state.streamingMessage,
+          content: state.streamingMessage.content + action.payload
+        }
+      };
+
+    case 'STREAM_END':
+      return {
+        ...state,
+        streamingMessage: null
+      };
+
     case 'CLEAR_ERROR':
       return {
         ...state,
@@ -169,10 +253,23 @@ export function SessionProvider({ children }: SessionProviderProps) {
     const sessionSub = subscribeToSession(sessionId, (payload) => {
       console.log('Session update received:', payload);
       if (payload.eventType === 'UPDATE') {
-        dispatch({
-          type: 'UPDATE_SESSION',
-          payload: { status: payload.new.status }
-        });
+        dispatch({ type: 'SET_STATUS', payload: payload.new.status });
+        if (payload.new.stop_reason) {
+          dispatch({ type: 'UPDATE_SESSION', payload: { stopReason: payload.new.stop_reason } });
+        }
+
+        // Server-side runner progress is persisted in sessions.config
+        const config = payload.new.config as Partial<SessionConfig> | null;
+        if (config) {
+          dispatch({
+            type: 'UPDATE_CONFIG',
+            payload: {
+              autoMode: config.autoMode,
+              autoModeDelay: config.autoModeDelay,
+              runner: config.runner && { ...config.runner, leaseExpiresAt: payload.new.runner_lease_expires_at ?? undefined }
+            }
+          });
+        }
       }
     });
 
@@ -193,7 +290,11 @@ export function SessionProvider({ children }: SessionProviderProps) {
           tokenCount: payload.new.token_count as any,
           processingTime: payload.new.processing_time,
           evolutionMarkers: payload.new.evolution_markers,
-          efficiencyScore: payload.new.efficiency_score
+          efficiencyScore: payload.new.efficiency_score,
+          fidelityScore: payload.new.fidelity_score ?? undefined,
+          costUsd: payload.new.cost_usd ?? undefined,
+          kind: payload.new.kind,
+          metadata: payload.new.metadata
         };
 
         dispatch({ type: 'ADD_MESSAGE', payload: message });
@@ -285,11 +386,12 @@ export function SessionProvider({ children }: SessionProviderProps) {
         messageRequest
       });
 
-      // Make API call to send message
-      const response = await fetch('/api/session/message', {
+      // Stream the reply so partial text renders while the model generates
+      const response = await fetch('/api/session/message/stream', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
         },
         body: JSON.stringify(messageRequest),
       });
@@ -302,33 +404,69 @@ export function SessionProvider({ children }: SessionProviderProps) {
         throw new Error(errorData.error || 'Failed to send message');
       }
 
-      const data = await response.json();
-      const message = data.message;
-      
+      let message: ConversationMessage | null = null;
+      let streamError: string | null = null;
+
+      await readServerSentEvents(response, (data, event) => {
+        const payload = JSON.parse(data);
+
+        switch (event) {
+          case 'start':
+            dispatch({ type: 'STREAM_START', payload });
+            break;
+          case 'delta':
+            dispatch({ type: 'STREAM_DELTA', payload: payload.text });
+            break;
+          case 'retry':
+            // The server retries the whole generation, so partial text is discarded
+            console.warn(`⚠️ Attempt ${payload.attempt} failed, retrying in ${payload.delayMs}ms:`, payload.error);
+            dispatch({ type: 'STREAM_RESET' });
+            break;
+          case 'message':
+            message = payload;
+            break;
+          case 'error':
+            streamError = payload.error;
+            // The server stopped the session rather than overspend
+            if (payload.stopReason) {
+              dispatch({ type: 'SET_STATUS', payload: 'stopped' });
+              dispatch({ type: 'UPDATE_SESSION', payload: { stopReason: payload.stopReason } });
+            }
+            break;
+        }
+      });
+
+      if (streamError || !message) {
+        throw new Error(streamError || 'Message stream ended without a message');
+      }
+
+      const sentMessage: ConversationMessage = message;
       console.log('✅ Message sent successfully:', {
-        id: message.id,
-        speaker: message.speaker,
-        iteration: message.iteration,
-        messageLength: message.evolvedMessage?.length || 0,
-        tokenCount: message.tokenCount
+        id: sentMessage.id,
+        speaker: sentMessage.speaker,
+        iteration: sentMessage.iteration,
+        messageLength: sentMessage.evolvedMessage?.length || 0,
+        tokenCount: sentMessage.tokenCount
       });
       
       // Message will be added via real-time subscription, but we can add it immediately for better UX
-      dispatch({ type: 'ADD_MESSAGE', payload: message });
+      dispatch({ type: 'ADD_MESSAGE', payload: sentMessage });
       
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to send message';
       console.error('❌ Failed to send message:', error);
       dispatch({ type: 'SET_ERROR', payload: errorMessage });
     } finally {
+      dispatch({ type: 'STREAM_END' });
       dispatch({ type: 'SET_PROCESSING', payload: false });
     }
   }, [state.session, state.isProcessing]);
 
-  // Auto-send first message when session starts
+  // Auto-send first message when session starts (the server-side runner handles auto mode sessions)
   React.useEffect(() => {
     if (state.session && 
         state.session.status === 'running' && 
+        !state.session.config.autoMode && 
         state.session.currentIteration === 0 && 
         state.session.messages.length === 0 &&
         !state.isProcessing) {
@@ -349,7 +487,7 @@ export function SessionProvider({ children }: SessionProviderProps) {
     return undefined;
   }, [state.session?.id, state.session?.status, state.session?.currentIteration, state.session?.messages?.length, state.isProcessing, sendMessage]);
 
-  const stopSession = useCallback(async (reason: 'manual' | 'completed' | 'error' | 'timeout' = 'manual') => {
+  const stopSession = useCallback(async (reason: SessionStopReason = 'manual') => {
     // Session management now happens via API routes
 
     dispatch({ type: 'SET_PROCESSING', payload: true });
@@ -373,7 +511,9 @@ export function SessionProvider({ children }: SessionProviderProps) {
         throw new Error(errorData.error || 'Failed to stop session');
       }
 
-      dispatch({ type: 'SET_STATUS', payload: reason === 'manual' ? 'stopped' : 'completed' });
+      // Matches SessionManager.stopSession: only 'completed' completes, every other reason stops
+      dispatch({ type: 'SET_STATUS', payload: reason === 'completed' ? 'completed' : 'stopped' });
+      dispatch({ type: 'UPDATE_SESSION', payload: { stopReason: reason } });
       
       // Clean up subscriptions
       subscriptionsRef.current.forEach(sub => sub?.unsubscribe?.());
@@ -389,6 +529,47 @@ export function SessionProvider({ children }: SessionProviderProps) {
     }
   }, []);
 
+  // Pause/resume keep the realtime subscriptions so the UI follows the session either way
+  const changeSessionStatus = useCallback(async (action: 'pause' | 'resume') => {
+    if (!state.session) {
+      throw new Error('No active session');
+    }
+
+    dispatch({ type: 'SET_PROCESSING', payload: true });
+    dispatch({ type: 'CLEAR_ERROR' });
+
+    try {
+      const response = await fetch(`/api/session/${action}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ sessionId: state.session.id }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to ${action} session`);
+      }
+
+      dispatch({ type: 'SET_STATUS', payload: data.status });
+      if (data.runner) {
+        dispatch({ type: 'UPDATE_CONFIG', payload: { runner: data.runner } });
+      }
+
+      console.log(`Session ${action}d:`, state.session.id);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : `Failed to ${action} session`;
+      dispatch({ type: 'SET_ERROR', payload: errorMessage });
+      console.error(`Failed to ${action} session:`, error);
+    } finally {
+      dispatch({ type: 'SET_PROCESSING', payload: false });
+    }
+  }, [state.session]);
+
+  const pauseSession = useCallback(() => changeSessionStatus('pause'), [changeSessionStatus]);
+  const resumeSession = useCallback(() => changeSessionStatus('resume'), [changeSessionStatus]);
+
   const loadSession = useCallback(async (sessionId: string) => {
     dispatch({ type: 'SET_PROCESSING', payload: true });
     dispatch({ type: 'CLEAR_ERROR' });
@@ -408,7 +589,7 @@ export function SessionProvider({ children }: SessionProviderProps) {
       dispatch({ type: 'SET_SESSION', payload: session });
       
       // Setup real-time subscriptions for loaded session
-      if (session.status === 'running') {
+      if (session.status === 'running' || session.status === 'paused') {
         setupRealtimeSubscriptions(session.id);
       }
       
@@ -422,6 +603,43 @@ export function SessionProvider({ children }: SessionProviderProps) {
     }
   }, [setupRealtimeSubscriptions]);
 
+  // Server-side auto mode runner controls
+  const callRunner = useCallback(async (action: 'start' | 'pause' | 'resume', delayMs?: number) => {
+    if (!state.session) {
+      throw new Error('No active session');
+    }
+
+    dispatch({ type: 'CLEAR_ERROR' });
+
+    try {
+      const response = await fetch(`/api/session/runner/${action}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ sessionId: state.session.id, delayMs }),
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to ${action} auto mode`);
+      }
+
+      dispatch({
+        type: 'UPDATE_CONFIG',
+        payload: { autoMode: true, autoModeDelay: data.runner.delayMs, runner: data.runner }
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : `Failed to ${action} auto mode`;
+      dispatch({ type: 'SET_ERROR', payload: errorMessage });
+      console.error(`Failed to ${action} auto mode:`, error);
+    }
+  }, [state.session]);
+
+  const startAutoRun = useCallback((delayMs?: number) => callRunner('start', delayMs), [callRunner]);
+  const pauseAutoRun = useCallback(() => callRunner('pause'), [callRunner]);
+  const resumeAutoRun = useCallback((delayMs?: number) => callRunner('resume', delayMs), [callRunner]);
+
   const clearError = useCallback(() => {
     dispatch({ type: 'CLEAR_ERROR' });
   }, []);
@@ -440,14 +658,60 @@ export function SessionProvider({ children }: SessionProviderProps) {
     }
   }, [state.session]);
 
+  // The tracker's pattern detector pulls in the BPE rank tables, so it is
+  // only loaded when the turn-taking strategy needs its patterns
+  const [innovatorPatterns, setInnovatorPatterns] = useState<EvolutionPattern[] | undefined>(undefined);
+  const turnTakingStrategy = state.session?.config.turnTaking?.strategy;
+  const sessionMessages = state.session?.messages;
+
+  useEffect(() => {
+    if (turnTakingStrategy !== 'respond-to-last-innovator' || !sessionMessages) {
+      setInnovatorPatterns(undefined);
+      return;
+    }
+
+    let cancelled = false;
+    import('@/lib/evolution-tracker').then(({ EvolutionTracker }) => {
+      if (cancelled) return;
+      const tracker = new EvolutionTracker(sessionMessages.filter(m => m.kind !== 'moderation'));
+      setInnovatorPatterns(tracker.getEvolutionContext().patterns);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [turnTakingStrategy, sessionMessages]);
+
   // Computed values
+  const runnerState = state.session?.config.runner?.state || null;
+
   const canSendMessage = state.session?.status === 'running' && 
                         !state.isProcessing &&
+                        !isRunnerLeaseActive(state.session?.config.runner) &&
                         (state.session?.currentIteration || 0) < (state.session?.config.maxIterations || 0);
 
-  const nextSpeaker = state.session && canSendMessage
-    ? state.session.participants[(state.session.currentIteration) % state.session.participants.length]?.name || null
-    : null;
+  // Same strategy the server applies, so the prediction matches the actual turn
+  const nextSpeaker = useMemo(() => {
+    if (!state.session || !canSendMessage) return null;
+
+    const { config, participants, messages, currentIteration } = state.session;
+    const moderator = getScheduledModerator(
+      participants,
+      messages,
+      currentIteration,
+      config.maxIterations,
+      config.moderationInterval
+    );
+    if (moderator) return moderator.name;
+
+    const turnTaking = config.turnTaking;
+    return selectSpeaker(turnTaking, {
+      participants,
+      messages,
+      iteration: currentIteration + 1,
+      seed: state.session.id,
+      patterns: innovatorPatterns
+    })?.name || null;
+  }, [state.session, canSendMessage, innovatorPatterns]);
 
   const progressPercentage = state.session
     ? Math.round((state.session.currentIteration / state.session.config.maxIterations) * 100)
@@ -459,19 +723,26 @@ export function SessionProvider({ children }: SessionProviderProps) {
     status: state.status,
     isProcessing: state.isProcessing,
     error: state.error,
+    streamingMessage: state.streamingMessage,
     
     // Actions
     startSession,
     sendMessage,
     stopSession,
+    pauseSession,
+    resumeSession,
     loadSession,
+    startAutoRun,
+    pauseAutoRun,
+    resumeAutoRun,
     clearError,
     downloadSession: downloadSessionData,
     
     // Utilities
     canSendMessage,
     nextSpeaker,
-    progressPercentage
+    progressPercentage,
+    runnerState
   };
 
   return (
@@ -492,14 +763,14 @@ export function useSession(): SessionContextValue {
 
 // Hook for session state only (optimized for components that only need state)
 export function useSessionState() {
-  const { session, status, isProcessing, error } = useSession();
-  return { session, status, isProcessing, error };
+  const { session, status, isProcessing, error, streamingMessage } = useSession();
+  return { session, status, isProcessing, error, streamingMessage };
 }
 
 // Hook for session actions only (optimized for components that only need actions)
 export function useSessionActions() {
-  const { startSession, sendMessage, stopSession, loadSession, clearError } = useSession();
-  return { startSession, sendMessage, stopSession, loadSession, clearError };
+  const { startSession, sendMessage, stopSession, pauseSession, resumeSession, loadSession, clearError } = useSession();
+  return { startSession, sendMessage, stopSession, pauseSession, resumeSession, loadSession, clearError };
 }
 
 // Hook for session utilities (optimized for components that need computed values)
@@ -1,15 +1,19 @@
 'use client';
 
-import { useState, useMemo, useCallback } from 'react';
+import { useState, useMemo, useCallback, useEffect } from 'react';
 import { useSession } from '@/contexts/SessionContext';
-import { analyzeTokenTrend, formatTokenCount, formatCost } from '@/lib/token-counter';
+import { analyzeTokenTrend, formatTokenCount, formatCost } from '@/lib/token-stats';
 import type { 
   SessionAnalyticsData, 
   TokenMetrics, 
   EfficiencyDataPoint,
   ProviderComparisonData,
   CommunicationEvolution,
-  ParticipantAnalysis
+  ComprehensionMetrics,
+  ParticipantAnalysis,
+  AdoptionReport,
+  LanguageMetricsReport,
+  ConvergenceReport
 } from '@/types/analytics';
 
 
@@ -19,6 +23,54 @@ import type {
 export function useAnalytics() {
   const { session } = useSession();
   const [isCalculating, setIsCalculating] = useState(false);
+  const [adoption, setAdoption] = useState<AdoptionReport | null>(null);
+  const [languageMetrics, setLanguageMetrics] = useState<LanguageMetricsReport | null>(null);
+  const [convergence, setConvergence] = useState<ConvergenceReport | null>(null);
+
+  // Pattern adoption comes from the server-side tracker, which sees every use
+  const sessionId = session?.id;
+  const messageCount = session?.messages.length || 0;
+  useEffect(() => {
+    if (!sessionId || messageCount === 0) {
+      setAdoption(null);
+      setLanguageMetrics(null);
+      setConvergence(null);
+      return;
+    }
+
+    let cancelled = false;
+    fetch(`/api/analytics/adoption?sessionId=${sessionId}`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        if (!cancelled && data?.success) {
+          setAdoption({ patterns: data.patterns, participants: data.participants });
+        }
+      })
+      .catch(error => console.error('Failed to fetch pattern adoption:', error));
+
+    // Entropy, compression and dictionary metrics need the tokenizers and zlib, so they are computed server-side
+    fetch(`/api/analytics/language-metrics?sessionId=${sessionId}`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        if (!cancelled && data?.success) {
+          setLanguageMetrics({ window: data.window, messages: data.messages, windows: data.windows });
+        }
+      })
+      .catch(error => console.error('Failed to fetch language metrics:', error));
+
+    fetch(`/api/analytics/convergence?sessionId=${sessionId}`)
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => {
+        if (!cancelled && data?.success) {
+          setConvergence({ window: data.window, step: data.step, windows: data.windows, trend: data.trend });
+        }
+      })
+      .catch(error => console.error('Failed to fetch convergence:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, messageCount]);
 
   // Real-time token metrics
   const tokenMetrics = useMemo((): TokenMetrics => {
@@ -29,7 +81,8 @@ export function useAnalytics() {
         efficiencyTrend: [],
         providerComparison: [],
         costAnalysis: {
-          totalCostEstimate: 0,
+          totalCost: 0,
+          projectedCost: session?.analytics.projectedCost || 0,
           costByProvider: [],
           costTrend: []
         }
@@ -39,12 +92,20 @@ export function useAnalytics() {
     const messages = session.messages;
     const totalTokens = messages.reduce((sum, msg) => sum + msg.tokenCount.total, 0);
     const averagePerMessage = totalTokens / messages.length;
+    // Moderator interjections cost tokens but are left out of efficiency numbers
+    const conversation = messages.filter(msg => msg.kind !== 'moderation');
 
     // Efficiency trend data
-    const efficiencyTrend: EfficiencyDataPoint[] = messages.map(msg => ({
+    const efficiencyTrend: EfficiencyDataPoint[] = conversation.map(msg => ({
       iteration: msg.iteration,
       tokensUsed: msg.tokenCount.total,
       cumulativeEfficiency: msg.efficiencyScore || 50,
+      payloadTokens: msg.metadata?.payloadEfficiency?.payloadTokens,
+      participantEfficiency: msg.metadata?.payloadEfficiency?.participantScore,
+      sessionEfficiency: msg.metadata?.payloadEfficiency?.sessionScore,
+      fidelityScore: msg.fidelityScore,
+      semanticFidelity: msg.metadata?.semanticFidelity?.similarity,
+      compressionAtFidelity: msg.metadata?.semanticFidelity?.compressionAtFidelity,
       participantId: msg.participantId,
       timestamp: msg.timestamp
     }));
@@ -52,6 +113,7 @@ export function useAnalytics() {
     // Provider comparison
     const providerStats = new Map<string, {
       totalTokens: number;
+      totalCost: number;
       messageCount: number;
       totalResponseTime: number;
       participantName: string;
@@ -65,6 +127,7 @@ export function useAnalytics() {
       const key = `${participant.provider}-${participant.name}`;
       const existing = providerStats.get(key) || {
         totalTokens: 0,
+        totalCost: 0,
         messageCount: 0,
         totalResponseTime: 0,
         participantName: participant.name,
@@ -72,6 +135,7 @@ export function useAnalytics() {
       };
 
       existing.totalTokens += msg.tokenCount.total;
+      existing.totalCost += msg.costUsd || 0;
       existing.messageCount += 1;
       existing.totalResponseTime += msg.processingTime || 0;
 
@@ -79,11 +143,11 @@ export function useAnalytics() {
     });
 
     const providerComparison: ProviderComparisonData[] = Array.from(providerStats.entries()).map(([, stats]) => {
-      const efficiency = stats.messageCount > 1 
-        ? analyzeTokenTrend(messages
-            .filter(m => session.participants.find(p => p.id === m.participantId)?.name === stats.participantName)
-            .map(m => m.tokenCount.total)
-          ).averageImprovement
+      const participantTokens = conversation
+        .filter(m => session.participants.find(p => p.id === m.participantId)?.name === stats.participantName)
+        .map(m => m.tokenCount.total);
+      const efficiency = participantTokens.length > 1
+        ? analyzeTokenTrend(participantTokens).averageImprovement
         : 0;
 
       return {
@@ -93,29 +157,26 @@ export function useAnalytics() {
         efficiency,
         averageResponseTime: stats.totalResponseTime / stats.messageCount,
         messageCount: stats.messageCount,
-        costEstimate: (stats.totalTokens / 1000) * 0.02 // Rough estimate
+        cost: stats.totalCost
       };
     });
 
-    // Cost analysis
-    const totalCostEstimate = providerComparison.reduce((sum, p) => sum + p.costEstimate, 0);
+    // Cost analysis (messages stored before cost accounting have no cost)
+    const totalCost = providerComparison.reduce((sum, p) => sum + p.cost, 0);
     const costByProvider = providerComparison.map(p => ({
       provider: p.participantName,
-      cost: p.costEstimate,
-      percentage: (p.costEstimate / totalCostEstimate) * 100
+      cost: p.cost,
+      percentage: totalCost > 0 ? (p.cost / totalCost) * 100 : 0
     }));
 
-    const costTrend = messages.reduce((trend, msg, index) => {
-      const cumulativeCost = messages.slice(0, index + 1)
-        .reduce((sum, m) => sum + (m.tokenCount.total / 1000) * 0.02, 0);
-      
-      trend.push({
+    let cumulativeCost = 0;
+    const costTrend = messages.map(msg => {
+      cumulativeCost += msg.costUsd || 0;
+      return {
         iteration: msg.iteration,
         cumulativeCost
-      });
-      
-      return trend;
-    }, [] as Array<{ iteration: number; cumulativeCost: number }>);
+      };
+    });
 
     return {
       totalTokens,
@@ -123,7 +184,8 @@ export function useAnalytics() {
       efficiencyTrend,
       providerComparison,
       costAnalysis: {
-        totalCostEstimate,
+        totalCost,
+        projectedCost: session.analytics.projectedCost || 0,
         costByProvider,
         costTrend
       }
@@ -141,21 +203,24 @@ export function useAnalytics() {
       };
     }
 
-    const messages = session.messages;
-
-    // Analyze symbols introduced
-    const symbolsIntroduced = messages
-      .filter(msg => msg.evolutionMarkers?.includes('symbol_introduction' as any))
-      .map(msg => {
-        return {
-          symbol: msg.evolvedMessage.match(/[→⇒::\/\/]/g)?.[0] || 'Unknown',
-          firstAppearance: msg.iteration,
-          frequency: messages.filter(m => m.evolvedMessage.includes(msg.evolvedMessage.match(/[→⇒::\/\/]/g)?.[0] || '')).length,
-          context: msg.evolvedMessage.substring(0, 50) + '...',
-          participantId: msg.participantId,
-          adoptionRate: 0 // Would need more complex analysis
-        };
-      });
+    const messages = session.messages.filter(msg => msg.kind !== 'moderation');
+
+    const participantIdByName = (name: string) =>
+      session.participants.find(p => p.name === name)?.id || name;
+
+    // Symbols from the shared lexicon, with how many of the other speakers took them up
+    const symbolsIntroduced = (adoption?.patterns || [])
+      .filter(pattern => pattern.type === 'symbol')
+      .map(pattern => ({
+        symbol: pattern.pattern,
+        firstAppearance: pattern.introducedIn,
+        // `uses` counts every use after the introduction, the introducer's own included
+        frequency: pattern.uses + 1,
+        context: pattern.meaning,
+        participantId: participantIdByName(pattern.introducedBy),
+        adoptionRate: pattern.adoptionRate
+      }))
+      .sort((a, b) => a.firstAppearance - b.firstAppearance);
 
     // Pattern changes
     const patternChanges = messages
@@ -169,26 +234,39 @@ export function useAnalytics() {
         confidenceScore: 0.7 // Placeholder
       }));
 
-    // Language complexity analysis
-    const languageComplexity = messages.map(msg => ({
-      iteration: msg.iteration,
-      complexityScore: msg.evolvedMessage.length / 10, // Simple metric
-      readabilityScore: 100 - (msg.evolvedMessage.match(/[^a-zA-Z0-9\s]/g)?.length || 0) * 2,
-      vocabularyDiversity: new Set(msg.evolvedMessage.toLowerCase().split(/\s+/)).size,
-      sentenceLength: msg.evolvedMessage.split(/[.!?]+/).length
-    }));
+    // Language complexity, one point per message
+    const languageComplexity = (languageMetrics?.messages || []).map(({ messageId, iteration, metrics }) => {
+      const message = messages.find(msg => msg.id === messageId);
+      const sentences = message ? message.evolvedMessage.split(/[.!?]+/).filter(s => s.trim()).length : 1;
+      return {
+        iteration,
+        ...metrics,
+        complexityScore: metrics.tokenEntropy,
+        readabilityScore: Math.round((1 - metrics.outOfDictionaryRate) * 100),
+        vocabularyDiversity: metrics.typeTokenRatio,
+        sentenceLength: metrics.words / Math.max(1, sentences)
+      };
+    });
 
     // Innovation moments
     const innovationMoments = messages
       .filter(msg => msg.evolutionMarkers?.includes('efficiency_breakthrough' as any))
       .map(msg => {
+        // Adopted when someone else has used a pattern the speaker had introduced by then,
+        // whether they took it up before or after this message
+        const adoptedByOthers = (adoption?.patterns || []).some(pattern =>
+          pattern.introducedBy === msg.speaker &&
+          pattern.introducedIn <= msg.iteration &&
+          pattern.adopters.length > 0
+        );
+
         return {
           iteration: msg.iteration,
           participantId: msg.participantId,
           type: 'efficiency_hack' as const,
           description: 'Significant efficiency improvement detected',
           impactScore: msg.efficiencyScore || 50,
-          adoptedByOthers: false // Would need cross-message analysis
+          adoptedByOthers
         };
       });
 
@@ -198,6 +276,57 @@ export function useAnalytics() {
       languageComplexity,
       innovationMoments
     };
+  }, [session, adoption, languageMetrics]);
+
+  // Comprehension (decode test) analysis
+  const comprehension = useMemo((): ComprehensionMetrics => {
+    const checked = (session?.messages || []).filter(msg => msg.fidelityScore !== undefined && msg.fidelityScore !== null);
+    const semantic = (session?.messages || [])
+      .map(msg => msg.metadata?.semanticFidelity)
+      .filter((score): score is NonNullable<typeof score> => Boolean(score));
+    const average = (scores: number[]) => scores.reduce((sum, score) => sum + score, 0) / scores.length;
+    const averageSemanticFidelity = semantic.length > 0 ? average(semantic.map(score => score.similarity)) : null;
+    const compressionAtFidelity = semantic.length > 0 ? average(semantic.map(score => score.compressionAtFidelity)) : null;
+
+    if (!session || checked.length === 0) {
+      return {
+        checkedMessages: 0,
+        averageFidelity: null,
+        averageSemanticFidelity,
+        compressionAtFidelity,
+        fidelityTrend: [],
+        byParticipant: []
+      };
+    }
+
+    const byParticipant = session.participants
+      .map(participant => {
+        const scores = checked
+          .filter(msg => msg.participantId === participant.id)
+          .map(msg => msg.fidelityScore!);
+        return {
+          participantId: participant.id!,
+          name: participant.name,
+          checks: scores.length,
+          averageFidelity: scores.length > 0 ? average(scores) : 0
+        };
+      })
+      .filter(entry => entry.checks > 0);
+
+    return {
+      checkedMessages: checked.length,
+      averageFidelity: average(checked.map(msg => msg.fidelityScore!)),
+      averageSemanticFidelity,
+      compressionAtFidelity,
+      fidelityTrend: checked.map(msg => ({
+        iteration: msg.iteration,
+        participantId: msg.participantId,
+        decoderName: msg.metadata?.comprehension?.decoderName || 'Unknown',
+        fidelityScore: msg.fidelityScore!,
+        tokensUsed: msg.tokenCount.total
+      })),
+      byParticipant
+    };
   }, [session]);
 
   // Participant analysis
@@ -207,7 +336,9 @@ export function useAnalytics() {
     }
 
     return session.participants.map(participant => {
-      const participantMessages = session.messages.filter(msg => msg.participantId === participant.id);
+      const participantMessages = session.messages.filter(
+        msg => msg.participantId === participant.id && msg.kind !== 'moderation'
+      );
       
       if (participantMessages.length === 0) {
         return {
@@ -253,6 +384,9 @@ export function useAnalytics() {
         communicationStyle.push('Inquisitive');
       }
 
+      const fidelity = comprehension.byParticipant.find(p => p.participantId === participant.id);
+      const influence = adoption?.participants.find(p => p.speaker === participant.name);
+
       return {
         participantId: participant.id!,
         name: participant.name,
@@ -260,6 +394,8 @@ export function useAnalytics() {
         adaptationRate: Math.min(100, Math.max(0, efficiencyAnalysis.averageImprovement + 50)),
         innovationScore: participantMessages.filter(msg => msg.evolutionMarkers && msg.evolutionMarkers.length > 0).length * 10,
         collaborationEffectiveness: 75, // Placeholder - would need interaction analysis
+        influenceScore: influence?.influenceScore,
+        adoptionLatency: influence?.adoptionLatency,
         communicationStyle,
         performanceMetrics: {
           averageTokensPerMessage: averageTokens,
@@ -267,11 +403,14 @@ export function useAnalytics() {
           efficiencyImprovement: efficiencyAnalysis.averageImprovement,
           errorRate: 0, // Would need error detection
           creativityScore: participantMessages.filter(msg => msg.evolvedMessage.match(/[→⇒::\/\/]/g)).length * 5,
-          clarityScore: participantMessages.filter(msg => msg.translation).length > 0 ? 90 : 70
+          // Decode test fidelity when available, otherwise whether translations are provided at all
+          clarityScore: fidelity
+            ? Math.round(fidelity.averageFidelity * 100)
+            : participantMessages.filter(msg => msg.translation).length > 0 ? 90 : 70
         }
       };
     });
-  }, [session]);
+  }, [session, comprehension, adoption]);
 
   // Combined analytics data
   const analyticsData = useMemo((): SessionAnalyticsData | null => {
@@ -282,6 +421,7 @@ export function useAnalytics() {
       tokenMetrics,
       communicationEvolution,
       participantAnalysis,
+      comprehension,
       realTimeMetrics: {
         currentIteration: session.currentIteration,
         messagesPerMinute: session.messages.length > 0 
@@ -293,17 +433,24 @@ export function useAnalytics() {
         lastUpdated: new Date()
       }
     };
-  }, [session, tokenMetrics, communicationEvolution, participantAnalysis]);
+  }, [session, tokenMetrics, communicationEvolution, participantAnalysis, comprehension]);
 
   // Formatted display values
   const formatters = useMemo(() => ({
     totalTokens: formatTokenCount(tokenMetrics.totalTokens),
     averageTokens: formatTokenCount(Math.round(tokenMetrics.averagePerMessage)),
-    totalCost: formatCost(tokenMetrics.costAnalysis.totalCostEstimate),
+    totalCost: formatCost(tokenMetrics.costAnalysis.totalCost),
+    projectedCost: formatCost(tokenMetrics.costAnalysis.projectedCost),
     efficiency: session?.analytics.efficiencyImprovement 
       ? `${session.analytics.efficiencyImprovement > 0 ? '+' : ''}${session.analytics.efficiencyImprovement.toFixed(1)}%`
-      : '0%'
-  }), [tokenMetrics, session]);
+      : '0%',
+    fidelity: comprehension.averageFidelity !== null
+      ? `${Math.round(comprehension.averageFidelity * 100)}%`
+      : 'n/a',
+    compressionAtFidelity: comprehension.compressionAtFidelity !== null
+      ? comprehension.compressionAtFidelity.toFixed(1)
+      : 'n/a'
+  }), [tokenMetrics, session, comprehension]);
 
   // Calculate efficiency trend
   const calculateEfficiencyTrend = useCallback(() => {
@@ -312,7 +459,9 @@ export function useAnalytics() {
     setIsCalculating(true);
     
     try {
-      const tokenCounts = session.messages.map(msg => msg.tokenCount.total);
+      const tokenCounts = session.messages
+        .filter(msg => msg.kind !== 'moderation')
+        .map(msg => msg.tokenCount.total);
       const analysis = analyzeTokenTrend(tokenCounts);
       return analysis.efficiencyScores;
     } finally {
@@ -362,6 +511,9 @@ export function useAnalytics() {
     tokenMetrics,
     communicationEvolution,
     participantAnalysis,
+    comprehension,
+    languageMetrics,
+    convergence,
     
     // Formatters
     formatters,
@@ -4,6 +4,8 @@ import { useState, useCallback, useMemo } from 'react';
 import { PREDEFINED_TOPICS, getTopicsByScenario, getRandomTopic, estimateSessionCost } from '@/constants/topics';
 import { SCENARIO_CONFIGS } from '@/constants/scenarios';
 import { PROVIDER_CONFIGS, DEFAULT_PARTICIPANTS, RECOMMENDED_COMBINATIONS } from '@/constants/providers';
+import { getSpeakers } from '@/lib/turn-taking';
+import { validateBudget } from '@/lib/budget';
 import type { SessionConfig, ConversationScenario } from '@/types/session';
 import type { LLMParticipant } from '@/types/llm';
 
@@ -95,6 +97,10 @@ export function useSessionConfig() {
       newErrors.participants = 'At least 2 participants are required';
     } else if (configToValidate.participants.length > 5) {
       newErrors.participants = 'Maximum 5 participants allowed';
+    } else if (getSpeakers(configToValidate.participants).length < 2) {
+      newErrors.participants = 'At least 2 participants must have the speaker role';
+    } else if (configToValidate.participants.filter(p => p.role === 'moderator').length > 1) {
+      newErrors.participants = 'Only one participant can be the moderator';
     }
 
     // Check for duplicate participant names
@@ -135,6 +141,11 @@ export function useSessionConfig() {
       newErrors.customPrompt = 'Custom prompt must be less than 2000 characters';
     }
 
+    const budgetError = validateBudget(configToValidate.budget);
+    if (budgetError) {
+      newErrors.budget = budgetError;
+    }
+
     return newErrors;
   }, [config]);
 
@@ -0,0 +1,14 @@
+/**
+ * Next.js server startup hook. Restarts server-side session runners that
+ * were still active when the previous server process exited.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { resumePendingRunners } = await import('@/lib/session-runner');
+  try {
+    await resumePendingRunners();
+  } catch (error) {
+    console.error('Failed to resume session runners:', error);
+  }
+}
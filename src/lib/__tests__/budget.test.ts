@@ -0,0 +1,58 @@
+import { checkBudget, validateBudget } from '../budget';
+
+describe('checkBudget', () => {
+  const startedAt = new Date('2026-01-01T00:00:00Z');
+  const now = startedAt.getTime() + 60_000;
+  const usage = { costUsd: 0.5, tokens: 900, startedAt };
+
+  it('allows any call without a budget', () => {
+    expect(checkBudget(undefined, usage, { costUsd: 100, tokens: 1e6 }, now)).toBeNull();
+  });
+
+  it('allows a call that fits every cap exactly', () => {
+    const budget = { maxCostUsd: 0.6, maxTokens: 1000, maxDurationMs: 120_000 };
+    expect(checkBudget(budget, usage, { costUsd: 0.1, tokens: 100 }, now)).toBeNull();
+  });
+
+  it('counts the projected call, not just what was spent', () => {
+    const result = checkBudget({ maxTokens: 1000 }, usage, { costUsd: 0, tokens: 101 }, now);
+    expect(result).toEqual({ limit: 'tokens', message: expect.stringContaining('~1001 tokens') });
+  });
+
+  it('stops on cost', () => {
+    const result = checkBudget({ maxCostUsd: 0.55 }, usage, { costUsd: 0.1, tokens: 0 }, now);
+    expect(result?.limit).toBe('cost');
+    expect(result?.message).toContain('~$0.6000');
+  });
+
+  it('stops once the duration has elapsed, whatever the next call costs', () => {
+    const result = checkBudget({ maxDurationMs: 60_000 }, usage, { costUsd: 0, tokens: 0 }, now);
+    expect(result).toEqual({ limit: 'duration', message: 'Session ran for 60s, over its 60s limit' });
+  });
+
+  it('leaves time spent paused out of the duration', () => {
+    const budget = { maxDurationMs: 60_000 };
+    const later = now + 30_000;
+    expect(checkBudget(budget, { ...usage, pausedMs: 31_000 }, { costUsd: 0, tokens: 0 }, later)).toBeNull();
+    expect(checkBudget(budget, { ...usage, pausedMs: 30_000 }, { costUsd: 0, tokens: 0 }, later)?.limit).toBe('duration');
+  });
+
+  it('reports duration before tokens before cost', () => {
+    const over = { costUsd: 10, tokens: 10_000 };
+    expect(checkBudget({ maxCostUsd: 1, maxTokens: 1000, maxDurationMs: 1000 }, usage, over, now)?.limit).toBe('duration');
+    expect(checkBudget({ maxCostUsd: 1, maxTokens: 1000 }, usage, over, now)?.limit).toBe('tokens');
+  });
+});
+
+describe('validateBudget', () => {
+  it('accepts missing and positive caps', () => {
+    expect(validateBudget(undefined)).toBeNull();
+    expect(validateBudget({ maxCostUsd: 1.5, maxTokens: 1000 })).toBeNull();
+  });
+
+  it('rejects zero, negative and non-numeric caps', () => {
+    expect(validateBudget({ maxCostUsd: 0 })).toBe('Maximum cost must be a positive number');
+    expect(validateBudget({ maxTokens: -1 })).toBe('Maximum tokens must be a positive number');
+    expect(validateBudget({ maxDurationMs: '60' as any })).toBe('Maximum duration must be a positive number');
+  });
+});
@@ -0,0 +1,136 @@
+import { buildContextWindow, getHistoryBudget, DEFAULT_HISTORY_TOKENS } from '../context-manager';
+import { getTokenCount } from '../token-counter';
+import type { LLMParticipant } from '@/types/llm';
+import type { ConversationMessage } from '@/types/session';
+import type { EvolutionPattern } from '../evolution-tracker';
+
+const participant: LLMParticipant = { name: 'Alpha', provider: 'openai', model: 'gpt-4', temperature: 0.7 };
+const count = (text: string) => getTokenCount(text, participant.provider, participant.model);
+
+function message(iteration: number, speaker: string, evolvedMessage: string, translation?: string): ConversationMessage {
+  return {
+    id: `m${iteration}`,
+    sessionId: 's1',
+    participantId: speaker.toLowerCase(),
+    timestamp: new Date(0),
+    iteration,
+    speaker,
+    evolvedMessage,
+    translation,
+    tokenCount: { input: 0, output: 0, total: 0 }
+  };
+}
+
+function pattern(id: string, firstUsedIn: number, adoptionCount: number): EvolutionPattern {
+  return {
+    id,
+    pattern: `@${id}`,
+    type: 'symbol',
+    firstUsedBy: 'Beta',
+    firstUsedIn,
+    adoptionCount,
+    variations: [],
+    meaning: `meaning of ${id}`
+  };
+}
+
+// Twenty messages of roughly 25 tokens each
+const conversation = Array.from({ length: 20 }, (_, i) => message(
+  i + 1,
+  i % 2 === 0 ? 'Alpha' : 'Beta',
+  `Message ${i + 1} proposes that we compress the protocol further by merging headers and payloads.`,
+  i === 0 ? 'We define @ack as acknowledgement.' : undefined
+));
+
+describe('buildContextWindow', () => {
+  it('sends the whole history verbatim when it fits', () => {
+    const window = buildContextWindow(participant, conversation, [], 10000);
+
+    expect(window.recentCount).toBe(20);
+    expect(window.digestedCount).toBe(0);
+    expect(window.context).toHaveLength(20);
+    expect(window.context[0]).toEqual({
+      role: 'user',
+      content: `[Alpha]: ${conversation[0].evolvedMessage}\n[Translation: We define @ack as acknowledgement.]`
+    });
+    expect(window.tokens).toBe(window.context.reduce((sum, entry) => sum + count(entry.content), 0));
+  });
+
+  it('puts the lexicon first, in order of introduction', () => {
+    const patterns = [pattern('late', 9, 2), pattern('early', 2, 0)];
+    const window = buildContextWindow(participant, conversation.slice(0, 2), patterns, 10000);
+
+    const lexicon = window.context[0];
+    expect(lexicon.role).toBe('system');
+    expect(lexicon.content.split('\n')).toEqual([
+      'SHARED LEXICON (every term established so far; keep using these meanings):',
+      '- @early = meaning of early (introduced by Beta in iteration 2, adopted by 0 others)',
+      '- @late = meaning of late (introduced by Beta in iteration 9, adopted by 2 others)'
+    ]);
+    expect(window.context.slice(1).every(entry => entry.role === 'user')).toBe(true);
+  });
+
+  it('digests older messages when the history does not fit', () => {
+    const budget = 200;
+    const window = buildContextWindow(participant, conversation, [], budget);
+
+    expect(window.recentCount).toBeGreaterThan(0);
+    expect(window.digestedCount).toBe(20 - window.recentCount);
+    expect(window.tokens).toBeLessThanOrEqual(budget);
+
+    const [digest, ...recent] = window.context;
+    expect(digest.role).toBe('system');
+    expect(digest.content).toMatch(/^PROTOCOL DIGEST \(iterations 1-\d+/);
+    // Recent messages are the newest ones, oldest first
+    expect(recent[recent.length - 1].content).toContain('Message 20 ');
+    expect(recent).toHaveLength(window.recentCount);
+  });
+
+  it('digests a message by its translation', () => {
+    const long = message(1, 'Alpha', 'ack '.repeat(200).trim(), 'We define @ack as acknowledgement.');
+    const window = buildContextWindow(participant, [long, message(2, 'Beta', '@ack')], [], 100);
+
+    expect(window.digestedCount).toBe(1);
+    expect(window.context[0].content).toBe(
+      'PROTOCOL DIGEST (iterations 1-1, summarized; the lexicon holds their definitions):\n' +
+      '- i1 Alpha: We define @ack as acknowledgement.'
+    );
+  });
+
+  it('folds the oldest digest lines into a count when the digest runs out of room', () => {
+    const window = buildContextWindow(participant, conversation, [], 120);
+
+    expect(window.context[0].content).toMatch(/\n- i1-\d+: \d+ earlier messages(\n|$)/);
+    expect(window.tokens).toBeLessThanOrEqual(120);
+  });
+
+  it('always sends the latest message, even over budget', () => {
+    const window = buildContextWindow(participant, conversation, [], 0);
+
+    expect(window.recentCount).toBe(1);
+    expect(window.context[window.context.length - 1].content).toContain('Message 20 ');
+  });
+
+  it('drops the least adopted patterns when the lexicon alone is too large', () => {
+    const patterns = Array.from({ length: 30 }, (_, i) => pattern(`p${i}`, i, i % 3));
+    const window = buildContextWindow(participant, [], patterns, 150);
+
+    const lexicon = window.context[0].content;
+    expect(lexicon).toMatch(/- \(\d+ rarely used patterns omitted\)$/);
+    expect(lexicon).toContain('@p2 ='); // adopted by 2
+    expect(lexicon).not.toContain('@p0 ='); // adopted by nobody
+  });
+});
+
+describe('getHistoryBudget', () => {
+  it('leaves room for the prompt and completion in small windows', () => {
+    // gpt-4 has an 8192 token window
+    expect(getHistoryBudget(participant, 1000, 4000)).toBe(3192);
+    expect(getHistoryBudget(participant, 5000, 4000)).toBe(0);
+  });
+
+  it('caps large windows and unknown models at the default', () => {
+    expect(getHistoryBudget({ ...participant, model: 'gpt-4o' }, 1000, 4000)).toBe(DEFAULT_HISTORY_TOKENS);
+    expect(getHistoryBudget({ ...participant, model: 'unlisted-model' }, 1000, 4000)).toBe(DEFAULT_HISTORY_TOKENS);
+  });
+});
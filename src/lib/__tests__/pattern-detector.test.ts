@@ -0,0 +1,49 @@
+import { PatternDetector } from '../pattern-detector';
+import type { ConversationMessage } from '@/types/session';
+
+function message(iteration: number, speaker: string, evolvedMessage: string): ConversationMessage {
+  return {
+    id: `m${iteration}`,
+    sessionId: 's1',
+    participantId: speaker.toLowerCase(),
+    timestamp: new Date(0),
+    iteration,
+    speaker,
+    evolvedMessage,
+    tokenCount: { input: 0, output: 0, total: 0 }
+  };
+}
+
+function detectAll(texts: string[]) {
+  const detector = new PatternDetector();
+  return texts.flatMap((text, i) => detector.observe(message(i + 1, i % 2 === 0 ? 'Alpha' : 'Beta', text)));
+}
+
+describe('PatternDetector n-grams', () => {
+  it('does not promote recurring plain English phrases', () => {
+    const detections = detectAll([
+      'Hello, I suggest we agree on a protocol for our exchange.',
+      'Agreed, let us start with the basics of the format.',
+      'The message structure should have a header and a body.',
+      'I like that message structure, the header carries the topic.',
+      'Keep the message structure short so the body stays small.',
+      'Yes, the message structure is now compact enough.'
+    ]);
+
+    expect(detections.filter(d => d.kind === 'ngram').map(d => d.text)).not.toContain('message structure');
+  });
+
+  it('promotes recurring phrases built around a symbol or coined word', () => {
+    const detections = detectAll([
+      'Hello, I suggest we agree on a protocol for our exchange.',
+      'Agreed, let us start with the basics of the format.',
+      'hdr ⊕ body is our frame from now on.',
+      'Using hdr ⊕ body for this reply as well.',
+      'Confirmed, hdr ⊕ body everywhere.',
+      'hdr ⊕ body again, it works.'
+    ]);
+
+    const ngrams = detections.filter(d => d.kind === 'ngram').map(d => d.text);
+    expect(ngrams).toContain('hdr ⊕ body');
+  });
+});
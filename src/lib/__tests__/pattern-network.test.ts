@@ -0,0 +1,132 @@
+/**
+ * @jest-environment jsdom
+ */
+import { toGEXF, toGraphML } from '../pattern-network';
+import type { CommunicationPatternData } from '@/types/analytics';
+
+// jsdom provides DOMParser, so the exports are checked as real XML documents
+
+const network: CommunicationPatternData = {
+  nodes: [
+    {
+      id: 'participant:GPT "Alpha"',
+      label: 'GPT "Alpha"',
+      size: 12,
+      color: '#10a37f',
+      type: 'participant',
+      iteration: 1,
+      activity: [1, 3]
+    },
+    {
+      id: 'pattern:p1',
+      label: '<ack> & co',
+      size: 0,
+      color: '#8b5cf6',
+      type: 'pattern',
+      iteration: 2,
+      activity: [2, 3],
+      meaning: "it's acknowledged",
+      patternType: 'symbol'
+    }
+  ],
+  edges: [
+    {
+      source: 'participant:GPT "Alpha"',
+      target: 'pattern:p1',
+      weight: 2,
+      type: 'introduces',
+      iteration: 2,
+      iterations: [2, 3]
+    }
+  ]
+};
+
+function parse(xml: string): Document {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+  return doc;
+}
+
+function dataOf(element: Element): Record<string, string> {
+  return Object.fromEntries(
+    Array.from(element.getElementsByTagName('data')).map(data => [data.getAttribute('key')!, data.textContent!])
+  );
+}
+
+describe('toGraphML', () => {
+  it('writes a directed graph with escaped attributes', () => {
+    const doc = parse(toGraphML(network));
+
+    expect(doc.documentElement.tagName).toBe('graphml');
+    expect(doc.getElementsByTagName('graph')[0].getAttribute('edgedefault')).toBe('directed');
+
+    const [participant, pattern] = Array.from(doc.getElementsByTagName('node'));
+    expect(participant.getAttribute('id')).toBe('participant:GPT "Alpha"');
+    expect(dataOf(participant)).toEqual({
+      label: 'GPT "Alpha"',
+      kind: 'participant',
+      size: '12',
+      color: '#10a37f',
+      iteration: '1'
+    });
+    expect(dataOf(pattern)).toMatchObject({
+      label: '<ack> & co',
+      patternType: 'symbol',
+      meaning: "it's acknowledged"
+    });
+  });
+
+  it('declares a key for every data element it uses', () => {
+    const doc = parse(toGraphML(network));
+    const keys = new Set(Array.from(doc.getElementsByTagName('key')).map(key => key.getAttribute('id')));
+
+    for (const data of Array.from(doc.getElementsByTagName('data'))) {
+      expect(keys).toContain(data.getAttribute('key'));
+    }
+  });
+
+  it('writes edges with their type, weight and first iteration', () => {
+    const [edge] = Array.from(parse(toGraphML(network)).getElementsByTagName('edge'));
+
+    expect(edge.getAttribute('source')).toBe('participant:GPT "Alpha"');
+    expect(edge.getAttribute('target')).toBe('pattern:p1');
+    expect(dataOf(edge)).toEqual({ edgeKind: 'introduces', weight: '2', edgeIteration: '2' });
+  });
+});
+
+describe('toGEXF', () => {
+  it('writes a dynamic graph whose nodes and edges start at their first iteration', () => {
+    const doc = parse(toGEXF(network, 'Session <1>'));
+
+    expect(doc.documentElement.getAttribute('version')).toBe('1.3');
+    expect(doc.getElementsByTagName('description')[0].textContent).toBe('Session <1>');
+
+    const graph = doc.getElementsByTagName('graph')[0];
+    expect(graph.getAttribute('mode')).toBe('dynamic');
+    expect(graph.getAttribute('timeformat')).toBe('integer');
+
+    const [participant, pattern] = Array.from(doc.getElementsByTagName('node'));
+    expect(participant.getAttribute('label')).toBe('GPT "Alpha"');
+    expect(participant.getAttribute('start')).toBe('1');
+    expect(pattern.getAttribute('start')).toBe('2');
+
+    const [edge] = Array.from(doc.getElementsByTagName('edge'));
+    expect(edge.getAttribute('start')).toBe('2');
+    expect(edge.getAttribute('weight')).toBe('2');
+  });
+
+  it('writes only the attributes a node has, plus size and color', () => {
+    const doc = parse(toGEXF(network));
+    const [participant, pattern] = Array.from(doc.getElementsByTagName('node'));
+    const values = (node: Element) => Array.from(node.getElementsByTagName('attvalue'))
+      .map(value => [value.getAttribute('for'), value.getAttribute('value')]);
+
+    expect(values(participant)).toEqual([['0', 'participant']]);
+    expect(values(pattern)).toEqual([['0', 'pattern'], ['1', 'symbol'], ['2', "it's acknowledged"]]);
+
+    // Zero-sized nodes are still drawn
+    expect(pattern.getElementsByTagName('viz:size')[0].getAttribute('value')).toBe('1');
+    const color = participant.getElementsByTagName('viz:color')[0];
+    expect([color.getAttribute('r'), color.getAttribute('g'), color.getAttribute('b')]).toEqual(['16', '163', '127']);
+  });
+});
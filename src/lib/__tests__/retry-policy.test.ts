@@ -0,0 +1,112 @@
+import { executeWithRetry, getRetryDelay, RetryExhaustedError } from '../retry-policy';
+import { LLMProviderError, RateLimitError } from '@/types/llm';
+import type { RetryPolicyConfig } from '@/types/session';
+
+// Millisecond delays keep the tests fast without fake timers
+const FAST_POLICY: RetryPolicyConfig = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 2, budgetMs: 1000 };
+
+const retryable = () => new LLMProviderError('Server error', 'openai', undefined, true);
+
+describe('executeWithRetry', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('returns the first success with one attempt recorded', async () => {
+    const operation = jest.fn().mockResolvedValue('ok');
+
+    const { result, attempts } = await executeWithRetry(operation, FAST_POLICY);
+
+    expect(result).toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(attempts).toEqual([expect.objectContaining({ attempt: 1, outcome: 'success' })]);
+  });
+
+  it('retries retryable provider errors and reports each retry', async () => {
+    const operation = jest.fn()
+      .mockRejectedValueOnce(retryable())
+      .mockRejectedValueOnce(retryable())
+      .mockResolvedValue('ok');
+    const onRetry = jest.fn();
+
+    const { result, attempts } = await executeWithRetry(operation, FAST_POLICY, onRetry);
+
+    expect(result).toBe('ok');
+    expect(operation.mock.calls.map(call => call[0])).toEqual([1, 2, 3]);
+    expect(attempts.map(a => a.outcome)).toEqual(['error', 'error', 'success']);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(onRetry.mock.calls[0][0]).toMatchObject({
+      attempt: 1,
+      errorType: 'LLMProviderError',
+      error: 'Server error',
+      delayMs: expect.any(Number)
+    });
+  });
+
+  it('does not retry errors that are not retryable', async () => {
+    const operation = jest.fn().mockRejectedValue(new LLMProviderError('Bad request', 'openai', undefined, false));
+
+    await expect(executeWithRetry(operation, FAST_POLICY)).rejects.toBeInstanceOf(RetryExhaustedError);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry plain errors', async () => {
+    const operation = jest.fn().mockRejectedValue(new Error('Bug'));
+
+    await expect(executeWithRetry(operation, FAST_POLICY)).rejects.toThrow('Bug (gave up after 1 attempt)');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after maxAttempts with every attempt attached', async () => {
+    const operation = jest.fn().mockRejectedValue(retryable());
+
+    const error = await executeWithRetry(operation, FAST_POLICY).catch(e => e);
+
+    expect(error).toBeInstanceOf(RetryExhaustedError);
+    expect(error.message).toBe('Server error (gave up after 3 attempts)');
+    expect(error.attempts).toHaveLength(3);
+    expect(error.lastError).toBeInstanceOf(LLMProviderError);
+  });
+
+  it('gives up when the next wait would exceed the delay budget', async () => {
+    const operation = jest.fn().mockRejectedValue(new RateLimitError('openai', 5));
+
+    await expect(executeWithRetry(operation, { ...FAST_POLICY, budgetMs: 4000 })).rejects.toBeInstanceOf(RetryExhaustedError);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('getRetryDelay', () => {
+  const policy: RetryPolicyConfig = { maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 5000, budgetMs: 60000 };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('honours retryAfter on rate limit errors', () => {
+    expect(getRetryDelay(new RateLimitError('claude', 7), 1, policy)).toBe(7000);
+  });
+
+  it('backs off exponentially with jitter between half and the full delay', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    expect(getRetryDelay(retryable(), 1, policy)).toBe(500);
+    expect(getRetryDelay(retryable(), 3, policy)).toBe(2000);
+
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    expect(getRetryDelay(retryable(), 3, policy)).toBe(4000);
+  });
+
+  it('caps the delay at maxDelayMs', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    expect(getRetryDelay(retryable(), 10, policy)).toBe(5000);
+  });
+
+  it('returns null for errors that should not be retried', () => {
+    expect(getRetryDelay(new Error('Bug'), 1, policy)).toBeNull();
+    expect(getRetryDelay(new LLMProviderError('Bad request', 'openai', undefined, false), 1, policy)).toBeNull();
+  });
+});
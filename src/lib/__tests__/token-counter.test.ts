@@ -0,0 +1,37 @@
+import { calculateCost, calculateParticipantCost } from '../token-counter';
+import type { LLMParticipant } from '@/types/llm';
+
+describe('calculateCost', () => {
+  it('prices catalogue models per 1K tokens', () => {
+    // gpt-4: $0.03 in, $0.06 out
+    expect(calculateCost(1000, 500, 'openai', 'gpt-4')).toBe(0.06);
+  });
+
+  it('falls back to the provider default for unlisted models', () => {
+    expect(calculateCost(1000, 1000, 'perplexity', 'unlisted-model')).toBe(0.002);
+    expect(calculateCost(1000, 1000, 'openai-compatible', 'llama3.1')).toBe(0);
+  });
+});
+
+describe('calculateParticipantCost', () => {
+  const endpoint: LLMParticipant = {
+    name: 'Local',
+    provider: 'openai-compatible',
+    model: 'llama3.1',
+    temperature: 0.7,
+    config: { baseURL: 'http://localhost:11434/v1', pricing: { input: 0.002, output: 0.004 } }
+  };
+
+  it('prices OpenAI-compatible endpoints from the participant pricing', () => {
+    expect(calculateParticipantCost(1500, 500, endpoint)).toBe(0.005);
+  });
+
+  it('treats endpoints without pricing as free', () => {
+    expect(calculateParticipantCost(1500, 500, { ...endpoint, config: { baseURL: 'http://localhost:11434/v1' } })).toBe(0);
+  });
+
+  it('uses the catalogue for other providers', () => {
+    const participant: LLMParticipant = { name: 'Alpha', provider: 'openai', model: 'gpt-4', temperature: 0.7 };
+    expect(calculateParticipantCost(1000, 500, participant)).toBe(calculateCost(1000, 500, 'openai', 'gpt-4'));
+  });
+});
@@ -0,0 +1,87 @@
+import type { AdoptionReport, ParticipantInfluence, PatternAdopter, PatternAdoption } from '@/types/analytics';
+import type { EvolutionPattern } from './evolution-tracker';
+
+/**
+ * Adoption analysis over the EvolutionTracker's use events: who took up
+ * which pattern, how many iterations after it was introduced, whether they
+ * used it consistently with its meaning, and how much of the session's
+ * adoption each participant's inventions account for.
+ */
+export function analyzeAdoption(patterns: EvolutionPattern[], speakers: string[]): AdoptionReport {
+  const adoptions = patterns.map(pattern => analyzePattern(pattern, speakers));
+  const totalAdoptions = adoptions.reduce((sum, pattern) => sum + pattern.adopters.length, 0);
+
+  const participants = speakers.map((speaker): ParticipantInfluence => {
+    const introduced = adoptions.filter(pattern => pattern.introducedBy === speaker);
+    const adopted = adoptions
+      .map(pattern => pattern.adopters.find(adopter => adopter.speaker === speaker))
+      .filter((adopter): adopter is PatternAdopter => Boolean(adopter));
+    const received = introduced.reduce((sum, pattern) => sum + pattern.adopters.length, 0);
+    const judged = adopted.reduce((sum, adopter) => sum + adopter.judgedUses, 0);
+
+    return {
+      speaker,
+      introduced: introduced.length,
+      adoptedPatterns: introduced.filter(pattern => pattern.adopters.length > 0).length,
+      adoptions: received,
+      influenceScore: totalAdoptions > 0 ? Math.round((received / totalAdoptions) * 100) : 0,
+      adoptionLatency: average(adopted.map(adopter => adopter.latency)),
+      consistency: judged > 0
+        ? adopted.reduce((sum, adopter) => sum + adopter.consistentUses, 0) / judged
+        : null
+    };
+  });
+
+  return {
+    patterns: adoptions.sort((a, b) => b.adopters.length - a.adopters.length || a.introducedIn - b.introducedIn),
+    participants
+  };
+}
+
+function analyzePattern(pattern: EvolutionPattern, speakers: string[]): PatternAdoption {
+  const uses = (pattern.events || []).filter(event => event.type === 'used');
+  const byAdopter = new Map<string, PatternAdopter>();
+
+  for (const use of uses) {
+    if (use.speaker === pattern.firstUsedBy) continue;
+
+    const adopter = byAdopter.get(use.speaker) || {
+      speaker: use.speaker,
+      firstIteration: use.iteration,
+      latency: Math.max(0, use.iteration - pattern.firstUsedIn),
+      uses: 0,
+      consistentUses: 0,
+      judgedUses: 0
+    };
+    adopter.uses++;
+    if (use.consistent !== undefined) {
+      adopter.judgedUses++;
+      if (use.consistent) adopter.consistentUses++;
+    }
+    byAdopter.set(use.speaker, adopter);
+  }
+
+  const adopters = Array.from(byAdopter.values());
+  const others = speakers.filter(speaker => speaker !== pattern.firstUsedBy).length;
+  const judged = adopters.reduce((sum, adopter) => sum + adopter.judgedUses, 0);
+
+  return {
+    patternId: pattern.id,
+    pattern: pattern.pattern,
+    type: pattern.type,
+    meaning: pattern.meaning,
+    introducedBy: pattern.firstUsedBy,
+    introducedIn: pattern.firstUsedIn,
+    uses: uses.length,
+    adopters,
+    adoptionRate: others > 0 ? Math.min(1, adopters.length / others) : 0,
+    averageLatency: average(adopters.map(adopter => adopter.latency)),
+    consistency: judged > 0
+      ? adopters.reduce((sum, adopter) => sum + adopter.consistentUses, 0) / judged
+      : null
+  };
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
@@ -0,0 +1,92 @@
+import type { SessionBudget, BudgetLimit } from '@/types/session';
+
+/**
+ * Spending caps for a session. SessionManager checks them before every LLM
+ * call, counting the projected cost of the call about to be made, so a
+ * runaway auto mode session stops before it overspends rather than after.
+ */
+
+export interface BudgetUsage {
+  costUsd: number; // Spent so far
+  tokens: number; // Total tokens so far
+  startedAt: Date;
+  pausedMs?: number; // Time spent paused since startedAt, which does not count towards the duration
+}
+
+export interface ProjectedCall {
+  costUsd: number;
+  tokens: number;
+}
+
+/**
+ * Thrown by SessionManager.sendMessage after it stops a session for exceeding its budget
+ */
+export class BudgetExceededError extends Error {
+  constructor(
+    public limit: BudgetLimit,
+    message: string
+  ) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Check that every configured cap is a positive number
+ */
+export function validateBudget(budget: SessionBudget | undefined): string | null {
+  if (!budget) return null;
+
+  const caps: Array<[keyof SessionBudget, string]> = [
+    ['maxCostUsd', 'Maximum cost'],
+    ['maxTokens', 'Maximum tokens'],
+    ['maxDurationMs', 'Maximum duration']
+  ];
+
+  for (const [key, label] of caps) {
+    const value = budget[key];
+    if (value !== undefined && (typeof value !== 'number' || !(value > 0))) {
+      return `${label} must be a positive number`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * The first cap the next call would break, or null when it fits the budget
+ */
+export function checkBudget(
+  budget: SessionBudget | undefined,
+  usage: BudgetUsage,
+  next: ProjectedCall,
+  now: number = Date.now()
+): { limit: BudgetLimit; message: string } | null {
+  if (!budget) return null;
+
+  if (budget.maxDurationMs !== undefined) {
+    const elapsed = now - usage.startedAt.getTime() - (usage.pausedMs || 0);
+    if (elapsed >= budget.maxDurationMs) {
+      return {
+        limit: 'duration',
+        message: `Session ran for ${Math.round(elapsed / 1000)}s, over its ${Math.round(budget.maxDurationMs / 1000)}s limit`
+      };
+    }
+  }
+
+  if (budget.maxTokens !== undefined && usage.tokens + next.tokens > budget.maxTokens) {
+    return {
+      limit: 'tokens',
+      message: `Next message would bring the session to ~${usage.tokens + next.tokens} tokens, over its ${budget.maxTokens} token limit`
+    };
+  }
+
+  if (budget.maxCostUsd !== undefined && usage.costUsd + next.costUsd > budget.maxCostUsd) {
+    return {
+      limit: 'cost',
+      message: `Next message would bring the session to ~$${(usage.costUsd + next.costUsd).toFixed(4)}, over its $${budget.maxCostUsd} limit`
+    };
+  }
+
+  return null;
+}
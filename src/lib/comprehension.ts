@@ -0,0 +1,54 @@
+import type { LLMParticipant } from '@/types/llm';
+import { getSpeakers } from './turn-taking';
+import { getSimilarityScorer } from './similarity';
+import type { SimilarityScorer } from './similarity';
+
+/**
+ * Comprehension verification ("decode tests"): after a speaker sends an
+ * evolved message, another participant expands it into plain English without
+ * seeing the author's [decode: ...] translation. The expansion is scored
+ * against that translation to estimate how much meaning survived compression.
+ */
+
+// Plain-English blocks speakers attach to a message: the markers
+// SessionManager.extractTranslation reads, plus [meta-decode: ...] and [decompress: ...]
+export const TRANSLATION_MARKER = /\[(?:translation|meaning|decode|meta-decode|decompress):\s*[^\]]*\]/gi;
+
+/**
+ * The evolved message without its explanations: what other participants see
+ * in a decode test, and the payload every analysis counts
+ */
+export function stripTranslations(content: string): string {
+  return content.replace(TRANSLATION_MARKER, '').replace(/[ \t]+\n/g, '\n').trim();
+}
+
+/**
+ * Who decodes the author's message: an observer when the session has one,
+ * otherwise the next speaker after the author
+ */
+export function selectDecoder(
+  participants: LLMParticipant[],
+  author: LLMParticipant
+): LLMParticipant | null {
+  const observer = participants.find(p => p.role === 'observer' && p !== author);
+  if (observer) return observer;
+
+  const speakers = getSpeakers(participants);
+  const index = speakers.indexOf(author);
+  const others = speakers.filter(p => p !== author);
+  if (others.length === 0) return null;
+
+  return index === -1 ? others[0] : speakers[(index + 1) % speakers.length];
+}
+
+/**
+ * Fidelity of a decoded expansion to the author's translation, 0-1
+ */
+export function scoreFidelity(
+  expansion: string,
+  reference: string,
+  scorer: SimilarityScorer = getSimilarityScorer(),
+  corpus?: string[]
+): number {
+  return scorer.score(expansion, reference, corpus);
+}
@@ -0,0 +1,186 @@
+import type { ConversationMessage } from '@/types/session';
+import type { LLMParticipant } from '@/types/llm';
+import type { EvolutionPattern } from './evolution-tracker';
+import { getModelInfo } from '@/constants/providers';
+import { getTokenCount } from './token-counter';
+import { stripTranslations } from './comprehension';
+
+/**
+ * Context window management: fit the conversation history into the receiving
+ * model's token budget. The shared lexicon of established patterns is always sent,
+ * recent messages are sent verbatim, and older messages are folded into a
+ * running protocol digest so long sessions keep their early definitions.
+ */
+
+export type ContextEntry = { role: 'system' | 'user' | 'assistant'; content: string };
+
+export interface ContextWindow {
+  context: ContextEntry[];
+  tokens: number;
+  recentCount: number; // Messages sent verbatim
+  digestedCount: number; // Older messages summarized in the digest
+}
+
+// History budget for models with large windows; more history costs more per turn without helping much
+export const DEFAULT_HISTORY_TOKENS = 8000;
+
+// Share of the history budget (after the lexicon) kept for verbatim messages when history must be cut
+const RECENT_SHARE = 0.75;
+
+const DIGEST_LINE_LENGTH = 200;
+
+/**
+ * Tokens left for history once the prompt and the completion are reserved,
+ * capped at DEFAULT_HISTORY_TOKENS. Unlisted models get the cap.
+ */
+export function getHistoryBudget(
+  participant: LLMParticipant,
+  promptTokens: number,
+  maxCompletionTokens: number
+): number {
+  const window = getModelInfo(participant.provider, participant.model)?.capabilities.maxTokens;
+  const available = window !== undefined
+    ? window - promptTokens - maxCompletionTokens
+    : DEFAULT_HISTORY_TOKENS;
+  return Math.max(0, Math.min(DEFAULT_HISTORY_TOKENS, available));
+}
+
+/**
+ * Build the context sent with a prompt to `participant`, within `budget` tokens
+ */
+export function buildContextWindow(
+  participant: LLMParticipant,
+  messages: ConversationMessage[],
+  patterns: EvolutionPattern[],
+  budget: number
+): ContextWindow {
+  const count = (text: string) => getTokenCount(text, participant.provider, participant.model);
+  const context: ContextEntry[] = [];
+  let tokens = 0;
+
+  const lexicon = formatLexicon(patterns, budget, count);
+  if (lexicon) {
+    context.push({ role: 'system', content: lexicon });
+    tokens += count(lexicon);
+  }
+
+  const entries = messages.map(msg => {
+    const content = formatMessage(msg);
+    return { msg, content, tokens: count(content) };
+  });
+  const historyBudget = Math.max(0, budget - tokens);
+  const historyTokens = entries.reduce((sum, entry) => sum + entry.tokens, 0);
+
+  // Newest first; the latest message is always sent, since it is what the speaker answers
+  const recentBudget = historyTokens <= historyBudget ? historyBudget : historyBudget * RECENT_SHARE;
+  let recentTokens = 0;
+  let firstRecent = entries.length;
+  while (firstRecent > 0) {
+    const entry = entries[firstRecent - 1];
+    if (firstRecent < entries.length && recentTokens + entry.tokens > recentBudget) break;
+    recentTokens += entry.tokens;
+    firstRecent--;
+  }
+
+  const digested = entries.slice(0, firstRecent).map(entry => entry.msg);
+  if (digested.length > 0) {
+    const digest = formatDigest(digested, historyBudget - recentTokens, count);
+    context.push({ role: 'system', content: digest });
+    tokens += count(digest);
+  }
+
+  for (const entry of entries.slice(firstRecent)) {
+    // Other participants are presented as distinct "users" speaking to the current one
+    context.push({ role: 'user', content: entry.content });
+  }
+  tokens += recentTokens;
+
+  return {
+    context,
+    tokens,
+    recentCount: entries.length - firstRecent,
+    digestedCount: digested.length
+  };
+}
+
+function formatMessage(msg: ConversationMessage): string {
+  return `[${msg.speaker}]: ${msg.evolvedMessage}${msg.translation ? `\n[Translation: ${msg.translation}]` : ''}`;
+}
+
+/**
+ * Every established pattern in order of introduction. Only if the lexicon
+ * alone would not fit are the least adopted patterns left out.
+ */
+function formatLexicon(
+  patterns: EvolutionPattern[],
+  budget: number,
+  count: (text: string) => number
+): string | null {
+  if (patterns.length === 0) return null;
+
+  const header = 'SHARED LEXICON (every term established so far; keep using these meanings):';
+  const line = (p: EvolutionPattern) =>
+    `- ${p.pattern} = ${p.meaning} (introduced by ${p.firstUsedBy} in iteration ${p.firstUsedIn}, adopted by ${p.adoptionCount} others)`;
+  const ordered = [...patterns].sort((a, b) => a.firstUsedIn - b.firstUsedIn);
+
+  const full = [header, ...ordered.map(line)].join('\n');
+  if (count(full) <= budget) return full;
+
+  const kept = new Set<EvolutionPattern>();
+  let used = count(header);
+  for (const pattern of [...ordered].sort((a, b) => b.adoptionCount - a.adoptionCount)) {
+    const cost = count(line(pattern)) + 1;
+    if (used + cost > budget) continue;
+    kept.add(pattern);
+    used += cost;
+  }
+  const omitted = patterns.length - kept.size;
+
+  return [
+    header,
+    ...ordered.filter(p => kept.has(p)).map(line),
+    ...(omitted > 0 ? [`- (${omitted} rarely used patterns omitted)`] : [])
+  ].join('\n');
+}
+
+/**
+ * One line per older message, carrying its meaning rather than its wording.
+ * When even the digest runs out of room, the oldest lines are folded into a
+ * single count.
+ */
+function formatDigest(
+  messages: ConversationMessage[],
+  budget: number,
+  count: (text: string) => number
+): string {
+  const first = messages[0].iteration;
+  const last = messages[messages.length - 1].iteration;
+  const header = `PROTOCOL DIGEST (iterations ${first}-${last}, summarized; the lexicon holds their definitions):`;
+
+  const lines = messages.map(msg => {
+    const meaning = (msg.translation || stripTranslations(msg.evolvedMessage)).replace(/\s+/g, ' ').trim();
+    const clipped = meaning.length > DIGEST_LINE_LENGTH ? `${meaning.slice(0, DIGEST_LINE_LENGTH - 3)}...` : meaning;
+    return `- i${msg.iteration} ${msg.speaker}${msg.kind === 'moderation' ? ' (moderator)' : ''}: ${clipped}`;
+  });
+
+  // When not every line fits, keep room for the line that counts the folded ones
+  const fullCost = lines.reduce((sum, line) => sum + count(line) + 1, count(header));
+  const foldReserve = fullCost > budget
+    ? count(`- i${first}-${last}: ${messages.length} earlier messages`) + 1
+    : 0;
+
+  let used = count(header) + foldReserve;
+  let firstKept = lines.length;
+  while (firstKept > 0) {
+    const cost = count(lines[firstKept - 1]) + 1;
+    if (used + cost > budget) break;
+    used += cost;
+    firstKept--;
+  }
+
+  const folded = firstKept > 0
+    ? [`- i${first}-${messages[firstKept - 1].iteration}: ${firstKept} earlier messages`]
+    : [];
+
+  return [header, ...folded, ...lines.slice(firstKept)].join('\n');
+}
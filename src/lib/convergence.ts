@@ -0,0 +1,218 @@
+import type { ConversationMessage } from '@/types/session';
+import type {
+  ConvergenceReport,
+  ConvergenceTrend,
+  ConvergenceWindow,
+  PairwiseSimilarity
+} from '@/types/analytics';
+import { stripTranslations } from './comprehension';
+import { STOPWORDS } from './similarity';
+
+/**
+ * Cross-participant convergence: over sliding windows of iterations, how
+ * alike each pair of participants writes, both in vocabulary (lexical) and in
+ * message shape (structural). Participants whose average similarity stays
+ * above DIALECT_THRESHOLD are grouped into one dialect; the convergence index
+ * is the mean pairwise similarity of a window.
+ */
+
+// Windows span this many rounds unless asked otherwise, and advance one round at a time
+export const DEFAULT_WINDOW_ROUNDS = 2;
+
+// Average combined similarity at or above which two groups of participants share a dialect
+export const DIALECT_THRESHOLD = 0.5;
+
+// Index change per window below which the session counts as stable
+const TREND_SLOPE = 0.01;
+
+const WORD = /[a-z\u00c0-\u024f][a-z0-9\u00c0-\u024f_'-]*|[^\sa-z0-9\u00c0-\u024f.,;:!?"'()[\]-]+/g;
+const SHAPE = /[A-Za-z\u00c0-\u024f][A-Za-z0-9\u00c0-\u024f_'-]*|\d+(?:[.,]\d+)*|\n|[^\sA-Za-z0-9\u00c0-\u024f]/g;
+
+type Vector = Map<string, number>;
+
+/**
+ * Convergence windows ending at each multiple of `step` (and at the last
+ * iteration), each spanning up to `window` iterations
+ */
+export function analyzeConvergence(
+  messages: ConversationMessage[],
+  speakers: string[],
+  options: { window?: number; step?: number } = {}
+): ConvergenceReport {
+  const step = options.step ?? Math.max(1, speakers.length);
+  const window = options.window ?? step * DEFAULT_WINDOW_ROUNDS;
+  const conversation = messages.filter(msg => msg.kind !== 'moderation');
+
+  const windows: ConvergenceWindow[] = [];
+  if (conversation.length > 0) {
+    const first = conversation[0].iteration;
+    const last = conversation[conversation.length - 1].iteration;
+
+    const ends: number[] = [];
+    for (let end = Math.ceil(first / step) * step; end <= last; end += step) ends.push(end);
+    if (ends[ends.length - 1] !== last) ends.push(last);
+
+    for (const end of ends) {
+      windows.push(measureConvergenceWindow(conversation, speakers, Math.max(first, end - window + 1), end));
+    }
+  }
+
+  return { window, step, windows, trend: getConvergenceTrend(windows) };
+}
+
+/**
+ * Pairwise similarities, dialect groups and the convergence index of the
+ * participants who spoke between `startIteration` and `endIteration`
+ */
+export function measureConvergenceWindow(
+  messages: ConversationMessage[],
+  speakers: string[],
+  startIteration: number,
+  endIteration: number
+): ConvergenceWindow {
+  const inWindow = messages.filter(msg =>
+    msg.kind !== 'moderation' && msg.iteration >= startIteration && msg.iteration <= endIteration
+  );
+  const participants = speakers.filter(speaker => inWindow.some(msg => msg.speaker === speaker));
+
+  const profiles = new Map(participants.map(speaker => {
+    const text = inWindow
+      .filter(msg => msg.speaker === speaker)
+      .map(msg => stripTranslations(msg.evolvedMessage))
+      .join('\n');
+    return [speaker, { lexical: lexicalVector(text), structural: structuralVector(text) }];
+  }));
+
+  const pairs: PairwiseSimilarity[] = [];
+  for (let i = 0; i < participants.length; i++) {
+    for (let j = i + 1; j < participants.length; j++) {
+      const a = profiles.get(participants[i])!;
+      const b = profiles.get(participants[j])!;
+      const lexical = cosine(a.lexical, b.lexical);
+      const structural = cosine(a.structural, b.structural);
+      pairs.push({
+        a: participants[i],
+        b: participants[j],
+        lexical: round(lexical),
+        structural: round(structural),
+        combined: round((lexical + structural) / 2)
+      });
+    }
+  }
+
+  return {
+    startIteration,
+    endIteration,
+    participants,
+    pairs,
+    dialects: clusterDialects(participants, pairs),
+    convergenceIndex: pairs.length > 0
+      ? round(pairs.reduce((sum, pair) => sum + pair.combined, 0) / pairs.length)
+      : null
+  };
+}
+
+/**
+ * Short description of a window's dialects, e.g. "2 dialects: A + B | C"
+ */
+export function describeDialects(window: ConvergenceWindow): string {
+  if (window.dialects.length <= 1) return `One shared dialect (convergence ${window.convergenceIndex ?? 'n/a'})`;
+  return `${window.dialects.length} dialects: ${window.dialects.map(group => group.join(' + ')).join(' | ')}`;
+}
+
+/**
+ * Average-linkage agglomerative clustering: repeatedly merge the two most
+ * similar groups while their average similarity reaches DIALECT_THRESHOLD
+ */
+function clusterDialects(participants: string[], pairs: PairwiseSimilarity[]): string[][] {
+  const similarity = (a: string, b: string) =>
+    pairs.find(pair => (pair.a === a && pair.b === b) || (pair.a === b && pair.b === a))?.combined ?? 0;
+
+  let groups = participants.map(speaker => [speaker]);
+  while (groups.length > 1) {
+    let best: { i: number; j: number; score: number } | null = null;
+    for (let i = 0; i < groups.length; i++) {
+      for (let j = i + 1; j < groups.length; j++) {
+        let total = 0;
+        groups[i].forEach(a => groups[j].forEach(b => { total += similarity(a, b); }));
+        const score = total / (groups[i].length * groups[j].length);
+        if (!best || score > best.score) best = { i, j, score };
+      }
+    }
+
+    if (!best || best.score < DIALECT_THRESHOLD) break;
+    const merged = [...groups[best.i], ...groups[best.j]];
+    groups = [...groups.filter((_, index) => index !== best!.i && index !== best!.j), merged];
+  }
+
+  // Largest dialect first, members in speaking order
+  return groups
+    .map(group => participants.filter(speaker => group.includes(speaker)))
+    .sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Least-squares slope of the convergence index over the windows
+ */
+function getConvergenceTrend(windows: ConvergenceWindow[]): ConvergenceTrend {
+  const points = windows
+    .map((window, index) => ({ x: index, y: window.convergenceIndex }))
+    .filter((point): point is { x: number; y: number } => point.y !== null);
+  if (points.length < 2) return 'stable';
+
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+  let covariance = 0;
+  let variance = 0;
+  points.forEach(p => {
+    covariance += (p.x - meanX) * (p.y - meanY);
+    variance += (p.x - meanX) * (p.x - meanX);
+  });
+
+  const slope = covariance / variance;
+  if (slope > TREND_SLOPE) return 'converging';
+  if (slope < -TREND_SLOPE) return 'diverging';
+  return 'stable';
+}
+
+// Content words and symbol runs; function words would make all English look alike
+function lexicalVector(text: string): Vector {
+  const vector: Vector = new Map();
+  for (const item of text.toLowerCase().match(WORD) || []) {
+    if (STOPWORDS.has(item)) continue;
+    vector.set(item, (vector.get(item) || 0) + 1);
+  }
+  return vector;
+}
+
+/**
+ * Bigrams of the message's shape: runs of words become "w", numbers "n",
+ * and symbols, punctuation and line breaks stand for themselves
+ */
+function structuralVector(text: string): Vector {
+  const shapes: string[] = [];
+  for (const item of text.match(SHAPE) || []) {
+    const shape = /^[A-Za-z\u00c0-\u024f]/.test(item) ? 'w' : /^\d/.test(item) ? 'n' : item;
+    if (shape === 'w' && shapes[shapes.length - 1] === 'w') continue;
+    shapes.push(shape);
+  }
+
+  const vector: Vector = new Map();
+  for (let i = 0; i + 1 < shapes.length; i++) {
+    const bigram = `${shapes[i]} ${shapes[i + 1]}`;
+    vector.set(bigram, (vector.get(bigram) || 0) + 1);
+  }
+  return vector;
+}
+
+function cosine(a: Vector, b: Vector): number {
+  let dot = 0;
+  a.forEach((value, key) => { dot += value * (b.get(key) || 0); });
+  const norm = (v: Vector) => Math.sqrt(Array.from(v.values()).reduce((sum, value) => sum + value * value, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator > 0 ? dot / denominator : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -4,14 +4,19 @@ import type {
   DatabaseParticipant,
   DatabaseMessage,
   DatabaseAnalyticsSnapshot,
+  DatabaseLexiconEntry,
   InsertSession,
   InsertParticipant,
   InsertAnalyticsSnapshot,
+  InsertLexiconEntry,
   UpdateSession,
   UpdateParticipant,
+  UpdateLexiconEntry,
   TokenCountData,
-  AnalyticsMetricsData
+  AnalyticsMetricsData,
+  Json
 } from '@/types/database';
+import type { SessionStopReason } from '@/types/session';
 
 // Session Operations
 export async function createSession(
@@ -75,15 +80,107 @@ export async function updateSession(
   }
 }
 
+/**
+ * Shallow-merge keys into sessions.config without clobbering the rest.
+ * The merge runs in the database so concurrent writers of different keys
+ * cannot overwrite each other; returns the merged config.
+ */
+export async function mergeSessionConfig(
+  sessionId: string,
+  patch: Record<string, any>
+): Promise<Json> {
+  try {
+    const { data, error } = await supabase.rpc('merge_session_config', {
+      p_session_id: sessionId,
+      p_patch: patch
+    });
+
+    if (error) {
+      handleSupabaseError(error, 'mergeSessionConfig');
+    }
+
+    return data;
+  } catch (error) {
+    handleSupabaseError(error, 'mergeSessionConfig');
+  }
+}
+
+/**
+ * Running sessions whose server-side runner was still active when last
+ * persisted and whose owning process has let its lease lapse
+ */
+export async function getSessionsWithActiveRunner(): Promise<DatabaseSession[]> {
+  try {
+    const { data, error } = await supabase
+      .from('sessions')
+      .select('*')
+      .eq('status', 'running')
+      .eq('config->runner->>state', 'running')
+      .or(`runner_lease_expires_at.is.null,runner_lease_expires_at.lt.${new Date().toISOString()}`);
+
+    if (error) {
+      handleSupabaseError(error, 'getSessionsWithActiveRunner');
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching sessions with active runner:', error);
+    return [];
+  }
+}
+
+/**
+ * Claim (or renew) the runner lease for `owner`. Returns the new expiry, or
+ * null when another process holds an unexpired lease.
+ */
+export async function claimSessionRunner(
+  sessionId: string,
+  owner: string,
+  leaseSeconds: number
+): Promise<string | null> {
+  try {
+    const { data, error } = await supabase.rpc('claim_session_runner', {
+      p_session_id: sessionId,
+      p_owner: owner,
+      p_lease_seconds: leaseSeconds
+    });
+
+    if (error) {
+      handleSupabaseError(error, 'claimSessionRunner');
+    }
+
+    return data ?? null;
+  } catch (error) {
+    handleSupabaseError(error, 'claimSessionRunner');
+  }
+}
+
+export async function releaseSessionRunner(sessionId: string, owner: string): Promise<void> {
+  try {
+    const { error } = await supabase.rpc('release_session_runner', {
+      p_session_id: sessionId,
+      p_owner: owner
+    });
+
+    if (error) {
+      handleSupabaseError(error, 'releaseSessionRunner');
+    }
+  } catch (error) {
+    handleSupabaseError(error, 'releaseSessionRunner');
+  }
+}
+
 export async function completeSession(
   sessionId: string,
-  status: 'completed' | 'stopped' | 'error' = 'completed'
+  status: 'completed' | 'stopped' | 'error' = 'completed',
+  stopReason?: SessionStopReason
 ): Promise<any> {
   try {
     // Use the stored function for atomic completion
     const { data, error } = await supabase.rpc('complete_session', {
       p_session_id: sessionId,
-      p_status: status
+      p_status: status,
+      p_stop_reason: stopReason
     });
 
     if (error) {
@@ -167,7 +264,12 @@ export async function addMessage(
   originalPrompt?: string,
   translation?: string,
   processingTime?: number,
-  evolutionMarkers?: string[]
+  evolutionMarkers?: string[],
+  metadata?: Record<string, any>,
+  kind: 'message' | 'moderation' = 'message',
+  fidelityScore?: number,
+  costUsd?: number,
+  checkTokens?: number
 ): Promise<string> {
   try {
     // Use the stored function for atomic message addition with stats update
@@ -180,7 +282,12 @@ export async function addMessage(
       p_translation: translation || undefined,
       p_token_count: tokenCount as any,
       p_processing_time: processingTime || undefined,
-      p_evolution_markers: evolutionMarkers || []
+      p_evolution_markers: evolutionMarkers || [],
+      p_metadata: metadata || {},
+      p_kind: kind,
+      p_fidelity_score: fidelityScore,
+      p_cost_usd: costUsd,
+      p_check_tokens: checkTokens
     });
 
     if (error) {
@@ -251,6 +358,130 @@ export async function getRecentMessages(
   }
 }
 
+// Lexicon Operations
+export async function getLexiconEntries(sessionId: string): Promise<DatabaseLexiconEntry[]> {
+  try {
+    const { data, error } = await supabase
+      .from('lexicon_entries')
+      .select('*')
+      .eq('session_id', sessionId)
+      .order('first_iteration')
+      .order('created_at');
+
+    if (error) {
+      handleSupabaseError(error, 'getLexiconEntries');
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error fetching lexicon entries:', error);
+    return [];
+  }
+}
+
+export async function getLexiconEntry(entryId: string): Promise<DatabaseLexiconEntry | null> {
+  try {
+    const { data, error } = await supabase
+      .from('lexicon_entries')
+      .select('*')
+      .eq('id', entryId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') {
+      handleSupabaseError(error, 'getLexiconEntry');
+    }
+
+    return data || null;
+  } catch (error) {
+    console.error('Error fetching lexicon entry:', error);
+    return null;
+  }
+}
+
+export async function createLexiconEntry(
+  entry: InsertLexiconEntry
+): Promise<DatabaseLexiconEntry> {
+  try {
+    const { data, error } = await supabase
+      .from('lexicon_entries')
+      .insert(entry)
+      .select()
+      .single();
+
+    if (error) {
+      handleSupabaseError(error, 'createLexiconEntry');
+    }
+
+    return data;
+  } catch (error) {
+    handleSupabaseError(error, 'createLexiconEntry');
+  }
+}
+
+/**
+ * Insert or replace entries by (session_id, type, symbol)
+ */
+export async function upsertLexiconEntries(
+  entries: InsertLexiconEntry[]
+): Promise<DatabaseLexiconEntry[]> {
+  if (entries.length === 0) return [];
+
+  try {
+    const { data, error } = await supabase
+      .from('lexicon_entries')
+      .upsert(
+        entries.map(entry => ({ ...entry, updated_at: new Date().toISOString() })),
+        { onConflict: 'session_id,type,symbol' }
+      )
+      .select();
+
+    if (error) {
+      handleSupabaseError(error, 'upsertLexiconEntries');
+    }
+
+    return data || [];
+  } catch (error) {
+    handleSupabaseError(error, 'upsertLexiconEntries');
+  }
+}
+
+export async function updateLexiconEntry(
+  entryId: string,
+  updates: UpdateLexiconEntry
+): Promise<DatabaseLexiconEntry> {
+  try {
+    const { data, error } = await supabase
+      .from('lexicon_entries')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', entryId)
+      .select()
+      .single();
+
+    if (error) {
+      handleSupabaseError(error, 'updateLexiconEntry');
+    }
+
+    return data;
+  } catch (error) {
+    handleSupabaseError(error, 'updateLexiconEntry');
+  }
+}
+
+export async function deleteLexiconEntry(entryId: string): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('lexicon_entries')
+      .delete()
+      .eq('id', entryId);
+
+    if (error) {
+      handleSupabaseError(error, 'deleteLexiconEntry');
+    }
+  } catch (error) {
+    handleSupabaseError(error, 'deleteLexiconEntry');
+  }
+}
+
 // Analytics Operations
 export async function createAnalyticsSnapshot(
   snapshot: InsertAnalyticsSnapshot
@@ -45,12 +45,18 @@ export interface ConversationExport {
       total: number;
     };
     processingTime?: number;
-    efficiencyScore?: number;
+    costUsd?: number;
+    efficiencyScore?: number; // Legacy, prompt tokens included
+    payloadTokens?: number;
+    participantEfficiency?: number;
+    sessionEfficiency?: number;
     evolutionMarkers?: string[];
   }>;
   analytics?: {
     totalTokens: number;
     averageTokensPerMessage: number;
+    totalCost: number;
+    projectedCost: number;
     efficiencyImprovement: number;
     participantStats: Array<{
       name: string;
@@ -100,7 +106,11 @@ export function prepareSessionExport(
       translation: includeTranslations ? msg.translation : undefined,
       tokenCount: msg.tokenCount,
       processingTime: msg.processingTime,
+      costUsd: msg.costUsd,
       efficiencyScore: msg.efficiencyScore,
+      payloadTokens: msg.metadata?.payloadEfficiency?.payloadTokens,
+      participantEfficiency: msg.metadata?.payloadEfficiency?.participantScore,
+      sessionEfficiency: msg.metadata?.payloadEfficiency?.sessionScore,
       evolutionMarkers: msg.evolutionMarkers?.map(marker => typeof marker === 'string' ? marker : marker.type) || []
     }))
   };
@@ -109,6 +119,8 @@ export function prepareSessionExport(
     exportData.analytics = {
       totalTokens: session.analytics.totalTokens,
       averageTokensPerMessage: session.analytics.averageTokensPerMessage,
+      totalCost: session.analytics.totalCost,
+      projectedCost: session.analytics.projectedCost,
       efficiencyImprovement: session.analytics.efficiencyImprovement,
       participantStats: session.analytics.participantStats.map(stat => ({
         name: stat.name,
@@ -149,7 +161,11 @@ export function generateCSVExport(session: SessionState, options: DownloadOption
     'Output Tokens',
     'Total Tokens',
     'Processing Time (ms)',
-    'Efficiency Score',
+    'Cost (USD)',
+    'Efficiency Score (Legacy)',
+    'Payload Tokens',
+    'Participant Efficiency',
+    'Session Efficiency',
     'Evolution Markers'
   ];
 
@@ -164,7 +180,11 @@ export function generateCSVExport(session: SessionState, options: DownloadOption
     msg.tokenCount.output.toString(),
     msg.tokenCount.total.toString(),
     msg.processingTime?.toString() || '',
+    msg.costUsd?.toString() || '',
     msg.efficiencyScore?.toString() || '',
+    msg.payloadTokens?.toString() || '',
+    msg.participantEfficiency?.toString() || '',
+    msg.sessionEfficiency?.toString() || '',
     msg.evolutionMarkers ? `"${msg.evolutionMarkers.join('; ')}"` : ''
   ]);
 
@@ -0,0 +1,75 @@
+import type { ConversationMessage, PayloadEfficiency } from '@/types/session';
+import type { LLMParticipant } from '@/types/llm';
+import { getSpeakers } from './turn-taking';
+import { analyzeTokenEfficiency, getTokenCount } from './token-counter';
+import { stripTranslations } from './comprehension';
+
+/**
+ * Payload efficiency: what the evolved message itself costs in completion
+ * tokens, without the plain-English blocks speakers attach to explain it.
+ * Each message is scored against its speaker's first message and against the
+ * session's first round, so a short reply to a long message is not mistaken
+ * for progress.
+ */
+
+/**
+ * Payload tokens counted with the author's tokenizer
+ */
+export function countPayloadTokens(content: string, participant?: LLMParticipant): number {
+  return getTokenCount(stripTranslations(content), participant?.provider, participant?.model);
+}
+
+/**
+ * Score `message` against the baselines found in `history` (the messages sent
+ * before it). Messages that are their own baseline score a neutral 50.
+ */
+export function scorePayloadEfficiency(
+  message: ConversationMessage,
+  participants: LLMParticipant[],
+  history: ConversationMessage[]
+): PayloadEfficiency {
+  const conversation = history.filter(msg => msg.kind !== 'moderation');
+  const payloadTokens = countPayloadTokens(message.evolvedMessage, findAuthor(participants, message));
+
+  const firstOwn = conversation.find(msg => isSameAuthor(msg, message));
+  const participantBaseline = firstOwn ? payloadTokensOf(firstOwn, participants) : undefined;
+
+  // The session baseline is the first round, as for semantic fidelity
+  const roundSize = getSpeakers(participants).length;
+  const firstRound = message.iteration > roundSize
+    ? conversation.filter(msg => msg.iteration <= roundSize)
+    : [];
+  const sessionBaseline = firstRound.length > 0
+    ? firstRound.reduce((sum, msg) => sum + payloadTokensOf(msg, participants), 0) / firstRound.length
+    : undefined;
+
+  return {
+    payloadTokens,
+    participantBaseline,
+    sessionBaseline,
+    participantScore: scoreAgainst(participantBaseline, payloadTokens),
+    sessionScore: scoreAgainst(sessionBaseline, payloadTokens)
+  };
+}
+
+function scoreAgainst(baseline: number | undefined, tokens: number): number {
+  if (baseline === undefined) return 50;
+  return Math.round(analyzeTokenEfficiency(baseline, tokens).efficiencyScore * 100) / 100;
+}
+
+/**
+ * Payload tokens of a message: the scored count when it has one, else counted now
+ */
+export function payloadTokensOf(message: ConversationMessage, participants: LLMParticipant[]): number {
+  return message.metadata?.payloadEfficiency?.payloadTokens ??
+    countPayloadTokens(message.evolvedMessage, findAuthor(participants, message));
+}
+
+function findAuthor(participants: LLMParticipant[], message: ConversationMessage): LLMParticipant | undefined {
+  return participants.find(p => p.id === message.participantId) ||
+    participants.find(p => p.name === message.speaker);
+}
+
+function isSameAuthor(a: ConversationMessage, b: ConversationMessage): boolean {
+  return a.participantId ? a.participantId === b.participantId : a.speaker === b.speaker;
+}
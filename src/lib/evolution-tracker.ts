@@ -1,4 +1,10 @@
-import type { ConversationMessage } from '@/types/session';
+import type { ConversationMessage, LexiconEvent } from '@/types/session';
+import { MIN_PATTERN_CONFIDENCE, PATTERN_KIND_LABELS, PatternDetector } from './pattern-detector';
+import { stripTranslations } from './comprehension';
+import { tokenizeTerms } from './similarity';
+
+// A participant amends the shared lexicon with a line such as "LEXICON: ⊕ = merge two proposals"
+const LEXICON_AMENDMENT = /^[ \t]*LEXICON:[ \t]*(.+?)[ \t]*=[ \t]*(.+?)[ \t]*$/gm;
 
 export interface EvolutionPattern {
   id: string;
@@ -6,9 +12,11 @@ export interface EvolutionPattern {
   type: 'symbol' | 'abbreviation' | 'protocol' | 'structure';
   firstUsedBy: string;
   firstUsedIn: number;
-  adoptionCount: number;
+  adoptionCount: number; // Participants other than the introducer who have used it
   variations: string[];
   meaning: string;
+  events?: LexiconEvent[]; // Introduction, uses and amendments, oldest first
+  confidence?: number; // 0-1 for patterns found by the PatternDetector rather than declared
 }
 
 export interface EvolutionContext {
@@ -19,15 +27,69 @@ export interface EvolutionContext {
   evolutionScore: number;
 }
 
+/**
+ * Serializable tracker state, stored in sessions.config.evolutionState while
+ * a session is paused so pattern ids and adoption counts survive a reload
+ */
+export interface EvolutionSnapshot {
+  patterns: EvolutionPattern[];
+  messageCount: number;
+}
+
 export class EvolutionTracker {
   private patterns: Map<string, EvolutionPattern> = new Map();
   private messageHistory: ConversationMessage[] = [];
+  private detector = new PatternDetector();
 
   constructor(messages: ConversationMessage[] = []) {
     this.messageHistory = [...messages];
     this.analyzePatterns();
   }
 
+  /**
+   * Restore a tracker from a snapshot, analyzing only messages that arrived
+   * after the snapshot was taken
+   */
+  static fromSnapshot(
+    snapshot: EvolutionSnapshot,
+    messages: ConversationMessage[] = []
+  ): EvolutionTracker {
+    const tracker = new EvolutionTracker();
+    for (const pattern of snapshot.patterns) {
+      tracker.patterns.set(pattern.id, { ...pattern, variations: [...pattern.variations] });
+    }
+
+    tracker.messageHistory = [...messages];
+    // The detector's recurrence statistics need the earlier messages too
+    for (const message of messages.slice(0, snapshot.messageCount)) {
+      tracker.detector.observe(message);
+    }
+    for (const message of messages.slice(snapshot.messageCount)) {
+      tracker.analyzeMessage(message);
+    }
+    return tracker;
+  }
+
+  /**
+   * Replace the patterns with an externally edited set (the persisted
+   * lexicon), keeping the analyzed message history
+   */
+  replacePatterns(patterns: EvolutionPattern[]): void {
+    this.patterns = new Map(
+      patterns.map(p => [p.id, { ...p, variations: [...p.variations], events: [...(p.events || [])] }])
+    );
+  }
+
+  /**
+   * Capture the current state for persistence
+   */
+  toSnapshot(): EvolutionSnapshot {
+    return {
+      patterns: Array.from(this.patterns.values()).map(p => ({ ...p, variations: [...p.variations] })),
+      messageCount: this.messageHistory.length
+    };
+  }
+
   /**
    * Add a new message and analyze it for evolution patterns
    */
@@ -88,6 +150,34 @@ export class EvolutionTracker {
 
   private analyzeMessage(message: ConversationMessage): void {
     const content = message.evolvedMessage;
+    // Uses of existing patterns in this message, with whether each matched the pattern's meaning
+    const uses = new Map<string, boolean | undefined>();
+    const introduced = new Set<string>();
+
+    const define = (pattern: Omit<EvolutionPattern, 'id' | 'adoptionCount'>) => {
+      const existing = this.findPattern(pattern.pattern, pattern.type);
+      if (existing) {
+        if (!existing.variations.includes(pattern.pattern)) {
+          existing.variations.push(pattern.pattern);
+        }
+        // Defining it again is a use; it is correct when the definition agrees with the meaning
+        if (!introduced.has(existing.id)) {
+          uses.set(existing.id, isUndeclaredMeaning(existing.meaning)
+            ? undefined
+            : sharesTerms(existing.meaning, pattern.meaning));
+        }
+        return;
+      }
+      introduced.add(this.addPattern(pattern).id);
+    };
+
+    // Explicit amendments to the shared lexicon
+    const amendment = new RegExp(LEXICON_AMENDMENT.source, LEXICON_AMENDMENT.flags);
+    let amended: RegExpExecArray | null;
+    while ((amended = amendment.exec(content)) !== null) {
+      const pattern = this.amendPattern(amended[1], amended[2], message.speaker, message.iteration);
+      introduced.add(pattern.id);
+    }
     
     // Extract symbols (single characters or short sequences in brackets)
     const symbolMatches = content.match(/\[([^:\]]+):\s*([^\]]+)\]/g);
@@ -95,12 +185,11 @@ export class EvolutionTracker {
       for (const match of symbolMatches) {
         const [, symbol, meaning] = match.match(/\[([^:\]]+):\s*([^\]]+)\]/) || [];
         if (symbol && meaning) {
-          this.addPattern({
+          define({
             pattern: symbol,
             type: 'symbol',
             firstUsedBy: message.speaker,
             firstUsedIn: message.iteration,
-            adoptionCount: 1,
             variations: [symbol],
             meaning: meaning.trim()
           });
@@ -114,12 +203,11 @@ export class EvolutionTracker {
       for (const match of abbreviationMatches) {
         const [, abbrev, meaning] = match.match(/\b([A-Z]{2,4}):\s*([^.\n]+)/) || [];
         if (abbrev && meaning) {
-          this.addPattern({
+          define({
             pattern: abbrev,
             type: 'abbreviation',
             firstUsedBy: message.speaker,
             firstUsedIn: message.iteration,
-            adoptionCount: 1,
             variations: [abbrev],
             meaning: meaning.trim()
           });
@@ -131,32 +219,129 @@ export class EvolutionTracker {
     const protocolMatches = content.match(/([A-Z][a-z]+Protocol|Protocol[A-Z][a-z]+)/g);
     if (protocolMatches) {
       for (const protocol of protocolMatches) {
-        this.addPattern({
+        define({
           pattern: protocol,
           type: 'protocol',
           firstUsedBy: message.speaker,
           firstUsedIn: message.iteration,
-          adoptionCount: 1,
           variations: [protocol],
           meaning: `Communication protocol: ${protocol}`
         });
       }
     }
+
+    // Undeclared symbols, coinages, phrases and templates once they recur often enough
+    for (const detection of this.detector.observe(message)) {
+      const known = this.findPattern(detection.text, detection.type);
+      if (known) {
+        if (known.confidence !== undefined) known.confidence = detection.confidence;
+        if (!introduced.has(known.id) && !uses.has(known.id)) {
+          uses.set(known.id, this.checkUsage(known, message));
+        }
+        continue;
+      }
+      if (detection.confidence < MIN_PATTERN_CONFIDENCE) continue;
+
+      // Credited to whoever used it first; the detector has seen every use so far
+      const created = this.addPattern({
+        pattern: detection.text,
+        type: detection.type,
+        firstUsedBy: detection.firstSpeaker,
+        firstUsedIn: detection.firstIteration,
+        variations: [detection.text],
+        meaning: describeUndeclared(PATTERN_KIND_LABELS[detection.kind]),
+        confidence: detection.confidence
+      });
+      created.adoptionCount = detection.speakers.filter(speaker => speaker !== detection.firstSpeaker).length;
+      if (detection.firstIteration === message.iteration) {
+        introduced.add(created.id);
+      } else {
+        uses.set(created.id, undefined);
+      }
+    }
+
+    // Plain uses of known patterns, without any definition
+    const payload = stripTranslations(content);
+    for (const pattern of Array.from(this.patterns.values())) {
+      if (introduced.has(pattern.id) || uses.has(pattern.id) || pattern.type === 'structure') continue;
+      if (containsPattern(payload, pattern)) {
+        uses.set(pattern.id, this.checkUsage(pattern, message));
+      }
+    }
+
+    uses.forEach((consistent, id) => this.recordUse(this.patterns.get(id)!, message, consistent));
   }
 
-  private addPattern(pattern: Omit<EvolutionPattern, 'id'>): void {
-    const existingPattern = Array.from(this.patterns.values())
-      .find(p => p.pattern === pattern.pattern && p.type === pattern.type);
+  private findPattern(pattern: string, type: EvolutionPattern['type']): EvolutionPattern | undefined {
+    return Array.from(this.patterns.values()).find(p => p.pattern === pattern && p.type === type);
+  }
 
-    if (existingPattern) {
-      existingPattern.adoptionCount++;
-      if (!existingPattern.variations.includes(pattern.pattern)) {
-        existingPattern.variations.push(pattern.pattern);
+  private addPattern(pattern: Omit<EvolutionPattern, 'id' | 'adoptionCount'>): EvolutionPattern {
+    // Stable across reloads, so persisted lexicon entries map back to the same pattern
+    const id = getPatternId(pattern.type, pattern.pattern);
+    const created: EvolutionPattern = {
+      ...pattern,
+      id,
+      adoptionCount: 0,
+      events: [{ type: 'introduced', speaker: pattern.firstUsedBy, iteration: pattern.firstUsedIn }]
+    };
+    this.patterns.set(id, created);
+    return created;
+  }
+
+  /**
+   * Record a use. adoptionCount is the number of participants other than the
+   * introducer who have used the pattern.
+   */
+  private recordUse(pattern: EvolutionPattern, message: ConversationMessage, consistent: boolean | undefined): void {
+    pattern.events = [
+      ...(pattern.events || []),
+      {
+        type: 'used',
+        speaker: message.speaker,
+        iteration: message.iteration,
+        ...(consistent !== undefined ? { consistent } : {})
       }
-    } else {
-      const id = `${pattern.type}_${pattern.pattern}_${Date.now()}`;
-      this.patterns.set(id, { ...pattern, id });
+    ];
+    pattern.adoptionCount = new Set(
+      pattern.events
+        .filter(event => event.type === 'used' && event.speaker !== pattern.firstUsedBy)
+        .map(event => event.speaker)
+    ).size;
+  }
+
+  /**
+   * Whether a use matches the pattern's meaning, judged from the message's
+   * translation. Unknown without a translation or a declared meaning.
+   */
+  private checkUsage(pattern: EvolutionPattern, message: ConversationMessage): boolean | undefined {
+    if (!message.translation || isUndeclaredMeaning(pattern.meaning)) return undefined;
+    return sharesTerms(pattern.meaning, message.translation);
+  }
+
+  /**
+   * Change the meaning of a pattern, or introduce it as a symbol when it is new
+   */
+  private amendPattern(symbol: string, meaning: string, speaker: string, iteration: number): EvolutionPattern {
+    const existingPattern = Array.from(this.patterns.values()).find(p => p.pattern === symbol);
+
+    if (!existingPattern) {
+      return this.addPattern({
+        pattern: symbol,
+        type: 'symbol',
+        firstUsedBy: speaker,
+        firstUsedIn: iteration,
+        variations: [symbol],
+        meaning
+      });
     }
+
+    existingPattern.meaning = meaning;
+    existingPattern.events = [
+      ...(existingPattern.events || []),
+      { type: 'amended', speaker, iteration, meaning }
+    ];
+    return existingPattern;
   }
 
   private extractRecentSymbols(): string[] {
@@ -194,3 +379,34 @@ export class EvolutionTracker {
     return Math.min(100, (totalPatterns * 10) + (adoptionRate * 5) + (diversityScore * 15));
   }
 }
+
+export function getPatternId(type: EvolutionPattern['type'], pattern: string): string {
+  return `${type}_${pattern}`;
+}
+
+// Meaning given to detected patterns until a participant defines them
+const UNDECLARED_SUFFIX = ', not yet defined';
+
+function describeUndeclared(label: string): string {
+  return `Recurring ${label}${UNDECLARED_SUFFIX}`;
+}
+
+export function isUndeclaredMeaning(meaning: string): boolean {
+  return meaning.endsWith(UNDECLARED_SUFFIX);
+}
+
+// Two descriptions agree when they share at least one content term
+function sharesTerms(a: string, b: string): boolean {
+  const terms = new Set(tokenizeTerms(a));
+  return tokenizeTerms(b).some(term => terms.has(term));
+}
+
+function containsPattern(text: string, pattern: EvolutionPattern): boolean {
+  // Word-like patterns must match whole words; phrases are stored lowercase
+  if (/^[A-Za-z0-9_\u00c0-\u024f' -]+$/.test(pattern.pattern)) {
+    const escaped = pattern.pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const flags = pattern.type === 'protocol' && pattern.pattern === pattern.pattern.toLowerCase() ? 'i' : '';
+    return new RegExp(`(^|[^A-Za-z0-9_\u00c0-\u024f])${escaped}(?![A-Za-z0-9_\u00c0-\u024f])`, flags).test(text);
+  }
+  return text.includes(pattern.pattern);
+}
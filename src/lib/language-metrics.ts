@@ -0,0 +1,166 @@
+import { gzipSync, brotliCompressSync } from 'zlib';
+import type { ConversationMessage } from '@/types/session';
+import type { LLMParticipant } from '@/types/llm';
+import type { LanguageMetrics, LanguageMetricsReport, WindowLanguageMetrics } from '@/types/analytics';
+import { stripTranslations } from './comprehension';
+import { STOPWORDS } from './similarity';
+import { getTokenizer } from './tokenizers';
+import type { Tokenizer } from './tokenizers';
+
+/**
+ * Information-theoretic measures of the evolving language, computed on each
+ * message's payload (translations and decode blocks removed) and on windows
+ * of iterations. Single messages are short, so entropy, type/token ratio and
+ * compression ratios are biased there (gzip alone adds about 20 bytes of
+ * framing); the windowed series are the ones to compare over time.
+ */
+
+// Words (with digits, apostrophes and hyphens), numbers, and runs of other non-space characters
+const WORD = /[a-z\u00c0-\u024f][a-z0-9\u00c0-\u024f_'-]*|\d+(?:[.,]\d+)*|[^\sa-z0-9\u00c0-\u024f.,;:!?"'()[\]-]+/g;
+const NUMBER = /^\d/;
+
+// Whether a word is a single cl100k token, shared across requests
+const dictionaryCache = new Map<string, boolean>();
+const DICTIONARY_CACHE_LIMIT = 20000;
+const english = getTokenizer('openai', 'gpt-4'); // cl100k_base
+
+export function computeLanguageMetrics(text: string, tokenizer: Tokenizer = english): LanguageMetrics {
+  const characters = Array.from(text);
+  const words = text.toLowerCase().match(WORD) || [];
+  const tokens: Array<number | string> = tokenizer.encode ? tokenizer.encode(text) : words;
+  const bytes = Buffer.byteLength(text, 'utf8');
+
+  // Numbers are neither dictionary words nor invented ones
+  const lexical = words.filter(word => !NUMBER.test(word));
+  const outOfDictionary = lexical.filter(word => !isDictionaryWord(word)).length;
+
+  return {
+    characters: characters.length,
+    words: words.length,
+    tokens: tokens.length,
+    characterEntropy: round(shannonEntropy(characters)),
+    tokenEntropy: round(shannonEntropy(tokens)),
+    typeTokenRatio: words.length > 0 ? round(new Set(words).size / words.length) : 0,
+    zipfExponent: fitZipfExponent(words),
+    gzipRatio: bytes > 0 ? round(gzipSync(text).length / bytes) : 0,
+    brotliRatio: bytes > 0 ? round(brotliCompressSync(text).length / bytes) : 0,
+    outOfDictionaryRate: lexical.length > 0 ? round(outOfDictionary / lexical.length) : 0
+  };
+}
+
+/**
+ * Metrics for every message (moderation excluded) and for consecutive windows
+ * of `window` iterations, each message measured with its author's tokenizer.
+ * Windows use the first speaker's tokenizer for the concatenated text.
+ */
+export function analyzeLanguageMetrics(
+  messages: ConversationMessage[],
+  participants: LLMParticipant[],
+  window: number
+): LanguageMetricsReport {
+  const conversation = messages.filter(msg => msg.kind !== 'moderation');
+  const tokenizerOf = (msg: ConversationMessage) => {
+    const author = participants.find(p => p.id === msg.participantId || p.name === msg.speaker);
+    return getTokenizer(author?.provider, author?.model);
+  };
+
+  const perMessage = conversation.map(msg => ({
+    messageId: msg.id,
+    speaker: msg.speaker,
+    iteration: msg.iteration,
+    metrics: computeLanguageMetrics(stripTranslations(msg.evolvedMessage), tokenizerOf(msg))
+  }));
+
+  const windows: WindowLanguageMetrics[] = [];
+  if (conversation.length > 0) {
+    const first = conversation[0].iteration;
+    const groups = new Map<number, ConversationMessage[]>();
+    for (const msg of conversation) {
+      const index = Math.floor((msg.iteration - first) / window);
+      groups.set(index, [...(groups.get(index) || []), msg]);
+    }
+
+    groups.forEach((group, index) => {
+      windows.push({
+        startIteration: first + index * window,
+        endIteration: first + (index + 1) * window - 1,
+        messageCount: group.length,
+        metrics: computeLanguageMetrics(
+          group.map(msg => stripTranslations(msg.evolvedMessage)).join('\n'),
+          tokenizerOf(group[0])
+        )
+      });
+    });
+    windows.sort((a, b) => a.startIteration - b.startIteration);
+  }
+
+  return { window, messages: perMessage, windows };
+}
+
+/**
+ * Shannon entropy in bits per symbol of the empirical distribution
+ */
+export function shannonEntropy<T>(symbols: T[]): number {
+  if (symbols.length === 0) return 0;
+
+  const counts = new Map<T, number>();
+  symbols.forEach(symbol => counts.set(symbol, (counts.get(symbol) || 0) + 1));
+
+  let entropy = 0;
+  counts.forEach(count => {
+    const p = count / symbols.length;
+    entropy -= p * Math.log2(p);
+  });
+  return entropy;
+}
+
+/**
+ * Least-squares slope of log frequency against log rank, negated. Natural
+ * language sits near 1; text where every word occurs once has nothing to fit.
+ */
+export function fitZipfExponent(words: string[]): number | null {
+  const counts = new Map<string, number>();
+  words.forEach(word => counts.set(word, (counts.get(word) || 0) + 1));
+
+  const frequencies = Array.from(counts.values()).sort((a, b) => b - a);
+  if (frequencies.length < 3 || frequencies[0] === 1) return null;
+
+  const xs = frequencies.map((_, rank) => Math.log(rank + 1));
+  const ys = frequencies.map(frequency => Math.log(frequency));
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+
+  let covariance = 0;
+  let variance = 0;
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (ys[i] - meanY);
+    variance += (x - meanX) * (x - meanX);
+  });
+
+  return round(-covariance / variance);
+}
+
+/**
+ * English words are a single cl100k token when preceded by a space; clipped
+ * forms, coinages and glyphs are spelled out in several pieces
+ */
+function isDictionaryWord(word: string): boolean {
+  if (STOPWORDS.has(word)) return true;
+  if (!/[a-z\u00c0-\u024f]/.test(word)) return false;
+
+  // "let's" is judged as "let", "long-term" by both halves
+  const stem = word.replace(/'.*$/, '');
+  if (stem.includes('-')) return stem.split('-').filter(Boolean).every(isDictionaryWord);
+
+  let known = dictionaryCache.get(stem);
+  if (known === undefined) {
+    known = english.count(` ${stem}`) <= 1;
+    if (dictionaryCache.size >= DICTIONARY_CACHE_LIMIT) dictionaryCache.clear();
+    dictionaryCache.set(stem, known);
+  }
+  return known;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
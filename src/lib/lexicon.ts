@@ -0,0 +1,67 @@
+import type { LexiconEntry, LexiconEvent } from '@/types/session';
+import type { DatabaseLexiconEntry, InsertLexiconEntry } from '@/types/database';
+import type { EvolutionPattern } from './evolution-tracker';
+import { getPatternId } from './evolution-tracker';
+
+/**
+ * The shared protocol lexicon is the persisted form of the EvolutionTracker's
+ * patterns: one lexicon_entries row per pattern, keyed by (type, symbol).
+ * These helpers convert between the row, the API shape and the pattern.
+ */
+
+export function lexiconEntryFromRow(row: DatabaseLexiconEntry): LexiconEntry {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    symbol: row.symbol,
+    type: row.type,
+    meaning: row.meaning,
+    introducedBy: row.introduced_by,
+    firstIteration: row.first_iteration,
+    adoptionCount: row.adoption_count,
+    adoptionEvents: (row.adoption_events as unknown as LexiconEvent[]) || [],
+    variants: row.variants || [],
+    createdAt: new Date(row.created_at),
+    updatedAt: new Date(row.updated_at)
+  };
+}
+
+export function lexiconRowToPattern(row: DatabaseLexiconEntry): EvolutionPattern {
+  return {
+    id: getPatternId(row.type, row.symbol),
+    pattern: row.symbol,
+    type: row.type,
+    firstUsedBy: row.introduced_by,
+    firstUsedIn: row.first_iteration,
+    adoptionCount: row.adoption_count,
+    variations: row.variants || [],
+    meaning: row.meaning,
+    events: (row.adoption_events as unknown as LexiconEvent[]) || []
+  };
+}
+
+export function patternToLexiconRow(sessionId: string, pattern: EvolutionPattern): InsertLexiconEntry {
+  return {
+    session_id: sessionId,
+    symbol: pattern.pattern,
+    type: pattern.type,
+    meaning: pattern.meaning,
+    introduced_by: pattern.firstUsedBy,
+    first_iteration: pattern.firstUsedIn,
+    adoption_count: pattern.adoptionCount,
+    adoption_events: (pattern.events || []) as any,
+    variants: pattern.variations
+  };
+}
+
+/**
+ * The last iteration the lexicon has seen, so a tracker restored from it only
+ * analyzes messages sent after that
+ */
+export function getLexiconIteration(patterns: EvolutionPattern[]): number {
+  return patterns.reduce((latest, pattern) => Math.max(
+    latest,
+    pattern.firstUsedIn,
+    ...(pattern.events || []).map(event => event.iteration)
+  ), 0);
+}
@@ -0,0 +1,194 @@
+import { createServer, type IncomingHttpHeaders, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { ClaudeProvider } from '../claude';
+import { APIKeyError, RateLimitError } from '@/types/llm';
+
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  headers: IncomingHttpHeaders;
+  body: any;
+}
+
+type StubReply = { status?: number; headers?: Record<string, string>; body: string | object };
+
+/**
+ * Local stand-in for the Messages API: records each request and answers
+ * with the next queued reply
+ */
+function startStub(): Promise<{ server: Server; baseURL: string; requests: RecordedRequest[]; replies: StubReply[] }> {
+  const requests: RecordedRequest[] = [];
+  const replies: StubReply[] = [];
+
+  const server = createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+      requests.push({ method: req.method, url: req.url, headers: req.headers, body: raw ? JSON.parse(raw) : null });
+
+      const reply: StubReply = replies.shift() || { status: 500, body: { error: { type: 'api_error', message: 'No stub reply queued' } } };
+      const isText = typeof reply.body === 'string';
+      res.writeHead(reply.status || 200, {
+        'Content-Type': isText ? 'text/event-stream' : 'application/json',
+        ...reply.headers
+      });
+      res.end(isText ? reply.body : JSON.stringify(reply.body));
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, baseURL: `http://127.0.0.1:${port}/v1/`, requests, replies });
+    });
+  });
+}
+
+const MODEL = 'claude-3-5-sonnet-20241022';
+
+function sse(events: object[]): string {
+  return events.map(event => `event: ${(event as any).type}\ndata: ${JSON.stringify(event)}\n\n`).join('');
+}
+
+describe('ClaudeProvider', () => {
+  let stub: Awaited<ReturnType<typeof startStub>>;
+  let provider: ClaudeProvider;
+
+  beforeAll(async () => {
+    stub = await startStub();
+  });
+
+  afterAll(done => {
+    stub.server.close(done);
+  });
+
+  beforeEach(() => {
+    stub.requests.length = 0;
+    stub.replies.length = 0;
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    provider = ClaudeProvider.create({
+      apiKey: 'test-key',
+      model: MODEL,
+      temperature: 0.7,
+      maxTokens: 256,
+      baseURL: stub.baseURL
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('maps the request onto the Messages API and parses the usage', async () => {
+    stub.replies.push({
+      body: {
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        model: MODEL,
+        content: [
+          { type: 'text', text: 'Hello ' },
+          { type: 'tool_use', text: 'ignored' },
+          { type: 'text', text: 'there' }
+        ],
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 42, output_tokens: 7 }
+      }
+    });
+
+    const response = await provider.sendMessage({
+      prompt: 'Your turn',
+      model: MODEL,
+      systemPrompt: 'Be brief.',
+      temperature: 1.5,
+      context: [
+        { role: 'assistant', content: 'First' },
+        { role: 'system', content: 'Moderator note' },
+        { role: 'assistant', content: 'Second' },
+        { role: 'user', content: 'Reply' }
+      ]
+    });
+
+    expect(stub.requests).toHaveLength(1);
+    const [request] = stub.requests;
+    expect(request.method).toBe('POST');
+    expect(request.url).toBe('/v1/messages');
+    expect(request.headers['x-api-key']).toBe('test-key');
+    expect(request.headers['anthropic-version']).toBe('2023-06-01');
+
+    expect(request.body).toEqual({
+      model: MODEL,
+      max_tokens: 256,
+      // Claude caps temperature at 1
+      temperature: 1,
+      system: 'Be brief.\n\nModerator note',
+      messages: [
+        { role: 'user', content: '(conversation so far)' },
+        { role: 'assistant', content: 'First\n\nSecond' },
+        { role: 'user', content: 'Reply\n\nYour turn' }
+      ]
+    });
+
+    expect(response.content).toBe('Hello there');
+    expect(response.finishReason).toBe('end_turn');
+    expect(response.tokenCount).toEqual({ prompt: 42, completion: 7, total: 49 });
+    expect(response.metadata).toMatchObject({ provider: 'claude', requestId: 'msg_1' });
+  });
+
+  it('streams text deltas and reads usage from the stream events', async () => {
+    stub.replies.push({
+      body: sse([
+        { type: 'message_start', message: { id: 'msg_2', model: MODEL, usage: { input_tokens: 30, output_tokens: 1 } } },
+        { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hi' } },
+        { type: 'content_block_delta', delta: { type: 'text_delta', text: '!' } },
+        { type: 'message_delta', delta: { stop_reason: 'max_tokens' }, usage: { output_tokens: 5 } },
+        { type: 'message_stop' }
+      ])
+    });
+
+    const deltas: string[] = [];
+    const response = await provider.streamMessage({ prompt: 'Go', model: MODEL, temperature: 0 }, delta => deltas.push(delta));
+
+    expect(stub.requests[0].body.stream).toBe(true);
+    expect(deltas).toEqual(['Hi', '!']);
+    expect(response.content).toBe('Hi!');
+    expect(response.finishReason).toBe('max_tokens');
+    expect(response.tokenCount).toEqual({ prompt: 30, completion: 5, total: 35 });
+    expect(response.metadata.streamed).toBe(true);
+  });
+
+  it('classifies HTTP errors', async () => {
+    stub.replies.push({
+      status: 429,
+      headers: { 'retry-after': '12' },
+      body: { type: 'error', error: { type: 'rate_limit_error', message: 'Slow down' } }
+    });
+    const rateLimited = provider.sendMessage({ prompt: 'Go', model: MODEL, temperature: 0 });
+    await expect(rateLimited).rejects.toBeInstanceOf(RateLimitError);
+    await expect(rateLimited).rejects.toMatchObject({ retryAfter: 12 });
+
+    stub.replies.push({
+      status: 401,
+      body: { type: 'error', error: { type: 'authentication_error', message: 'invalid x-api-key' } }
+    });
+    await expect(provider.sendMessage({ prompt: 'Go', model: MODEL, temperature: 0 })).rejects.toBeInstanceOf(APIKeyError);
+  });
+
+  it('tests the connection by listing models rather than sending a message', async () => {
+    stub.replies.push({ body: { data: [{ type: 'model', id: MODEL }], has_more: true } });
+    await expect(provider.testConnection()).resolves.toBe(true);
+
+    expect(stub.requests).toHaveLength(1);
+    expect(stub.requests[0].method).toBe('GET');
+    expect(stub.requests[0].url).toBe('/v1/models?limit=1');
+    expect(stub.requests[0].headers['x-api-key']).toBe('test-key');
+
+    stub.replies.push({
+      status: 401,
+      body: { type: 'error', error: { type: 'authentication_error', message: 'invalid x-api-key' } }
+    });
+    await expect(provider.testConnection()).resolves.toBe(false);
+  });
+});
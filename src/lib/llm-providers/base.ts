@@ -2,8 +2,11 @@ import type {
   BaseLLMProvider, 
   LLMRequest, 
   LLMResponse, 
-  LLMProvider
+  LLMProvider,
+  StreamDeltaHandler
 } from '@/types/llm';
+import { getRateLimiter, type RateLimitPermit } from '@/lib/rate-limiter';
+import { getTokenCount } from '@/lib/token-counter';
 import { 
   LLMProviderError,
   RateLimitError,
@@ -40,6 +43,37 @@ export abstract class AbstractLLMProvider implements BaseLLMProvider {
   abstract getModels(): string[];
   abstract getCostPerToken(): { input: number; output: number };
 
+  /**
+   * Stream a response, calling `onDelta` with each text chunk.
+   * Providers without a streaming implementation fall back to a single
+   * blocking call whose full content is emitted as one delta.
+   */
+  async streamMessage(request: LLMRequest, onDelta: StreamDeltaHandler): Promise<LLMResponse> {
+    const response = await this.sendMessage(request);
+    if (response.content) {
+      onDelta(response.content);
+    }
+    return response;
+  }
+
+  /**
+   * Wait for the shared per-model rate limiter. The reservation covers the
+   * estimated prompt plus maxTokens; call `settle` with the reported usage.
+   */
+  protected acquireRateLimit(request: LLMRequest): Promise<RateLimitPermit> {
+    const promptText = [
+      request.systemPrompt || '',
+      ...(request.context || []).map(entry => entry.content),
+      request.prompt
+    ].join('\n');
+
+    return getRateLimiter().acquire(
+      this.provider,
+      request.model || this.model,
+      this.estimateTokenCount(promptText) + (request.maxTokens || 0)
+    );
+  }
+
   /**
    * Safe wrapper for provider API calls with error handling
    */
@@ -173,6 +207,36 @@ export abstract class AbstractLLMProvider implements BaseLLMProvider {
     return undefined;
   }
 
+  /**
+   * Convert a non-OK HTTP response into an error object that the
+   * classification helpers above can inspect (status, headers, type, code)
+   */
+  protected async createHttpError(response: Response): Promise<any> {
+    let body: any = null;
+    try {
+      body = await response.json();
+    } catch {
+      // Body is not JSON - fall back to the status text below
+    }
+
+    const details = Array.isArray(body) ? body[0]?.error : body?.error ?? body;
+    const message = (typeof details === 'string' ? details : details?.message) ||
+      `HTTP ${response.status} ${response.statusText}`;
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      headers[key] = value;
+    });
+
+    const error: any = new Error(message);
+    error.status = response.status;
+    error.headers = headers;
+    error.type = typeof details === 'object' ? details?.type || details?.status : undefined;
+    error.code = typeof details === 'object' ? details?.code : undefined;
+    error.body = body;
+    return error;
+  }
+
   /**
    * Validate common request parameters
    */
@@ -230,12 +294,10 @@ export abstract class AbstractLLMProvider implements BaseLLMProvider {
   }
 
   /**
-   * Simple token counting fallback (rough estimation)
-   * Override with provider-specific implementations
+   * Local token count using the tokenizer registered for this provider/model
    */
   protected estimateTokenCount(text: string): number {
-    // Very rough estimation: ~4 characters per token
-    return Math.ceil(text.length / 4);
+    return getTokenCount(text, this.provider, this.model);
   }
 
   /**
@@ -268,6 +330,27 @@ export abstract class AbstractLLMProvider implements BaseLLMProvider {
     return messages;
   }
 
+  /**
+   * Collapse consecutive messages that share a role into a single message.
+   * Several APIs reject conversations that do not strictly alternate turns.
+   */
+  protected mergeConsecutiveRoles<T extends { role: string; content: string }>(
+    messages: T[]
+  ): T[] {
+    const merged: T[] = [];
+
+    for (const message of messages) {
+      const last = merged[merged.length - 1];
+      if (last && last.role === message.role) {
+        merged[merged.length - 1] = { ...last, content: `${last.content}\n\n${message.content}` };
+      } else {
+        merged.push({ ...message });
+      }
+    }
+
+    return merged;
+  }
+
   /**
    * Get provider-specific headers
    */
@@ -0,0 +1,360 @@
+import { AbstractLLMProvider } from './base';
+import type {
+  LLMRequest,
+  LLMResponse,
+  ClaudeConfig,
+  ClaudeModel,
+  ClaudeResponse,
+  StreamDeltaHandler
+} from '@/types/llm';
+import { CLAUDE_MODELS, PROVIDER_CONFIGS } from '@/constants/providers';
+import { readServerSentEvents } from '@/lib/utils';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+type ClaudeMessage = { role: 'user' | 'assistant'; content: string };
+
+/**
+ * Anthropic Claude provider implementation (Messages API)
+ */
+export class ClaudeProvider extends AbstractLLMProvider {
+  private config: ClaudeConfig;
+  private baseURL: string;
+
+  constructor(config: ClaudeConfig) {
+    super(
+      `Claude-${config.model}`,
+      'claude',
+      config.model,
+      config.temperature
+    );
+
+    this.config = config;
+    this.baseURL = (config.baseURL || PROVIDER_CONFIGS.claude.apiEndpoint).replace(/\/+$/, '');
+  }
+
+  async sendMessage(request: LLMRequest): Promise<LLMResponse> {
+    this.validateRequest(request);
+    this.logRequest(request);
+
+    const permit = await this.acquireRateLimit(request);
+    const startTime = Date.now();
+
+    const response = await this.safeApiCall(async () => {
+      const httpResponse = await fetch(`${this.baseURL}/messages`, {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify(this.buildClaudeRequestBody(request))
+      });
+
+      if (!httpResponse.ok) {
+        throw await this.createHttpError(httpResponse);
+      }
+
+      return (await httpResponse.json()) as ClaudeResponse;
+    }, 'sendMessage');
+
+    const processingTime = Date.now() - startTime;
+    const formattedResponse = this.formatClaudeResponse(response, processingTime);
+
+    permit.settle(formattedResponse.tokenCount.total);
+    this.logResponse(formattedResponse);
+    return formattedResponse;
+  }
+
+  async streamMessage(request: LLMRequest, onDelta: StreamDeltaHandler): Promise<LLMResponse> {
+    this.validateRequest(request);
+    this.logRequest(request);
+
+    const permit = await this.acquireRateLimit(request);
+    const startTime = Date.now();
+
+    const result = await this.safeApiCall(async () => {
+      const httpResponse = await fetch(`${this.baseURL}/messages`, {
+        method: 'POST',
+        headers: { ...this.getHeaders(), Accept: 'text/event-stream' },
+        body: JSON.stringify({ ...this.buildClaudeRequestBody(request), stream: true })
+      });
+
+      if (!httpResponse.ok) {
+        throw await this.createHttpError(httpResponse);
+      }
+
+      let content = '';
+      let stopReason = 'unknown';
+      let requestId: string | undefined;
+      let model: string | undefined;
+      const usage = { input_tokens: 0, output_tokens: 0 };
+
+      await readServerSentEvents(httpResponse, data => {
+        const event = JSON.parse(data);
+
+        switch (event.type) {
+          case 'message_start':
+            requestId = event.message?.id;
+            model = event.message?.model;
+            usage.input_tokens = event.message?.usage?.input_tokens || 0;
+            usage.output_tokens = event.message?.usage?.output_tokens || 0;
+            break;
+          case 'content_block_delta':
+            if (event.delta?.type === 'text_delta' && event.delta.text) {
+              content += event.delta.text;
+              onDelta(event.delta.text);
+            }
+            break;
+          case 'message_delta':
+            stopReason = event.delta?.stop_reason || stopReason;
+            usage.output_tokens = event.usage?.output_tokens ?? usage.output_tokens;
+            break;
+          case 'error': {
+            // Errors can arrive mid-stream after a 200 response
+            const error: any = new Error(event.error?.message || 'Claude stream error');
+            error.type = event.error?.type;
+            throw error;
+          }
+        }
+      });
+
+      return { content, stopReason, usage, requestId, model };
+    }, 'streamMessage');
+
+    const processingTime = Date.now() - startTime;
+    const formattedResponse = this.formatResponse(
+      result.content,
+      {
+        prompt: result.usage.input_tokens,
+        completion: result.usage.output_tokens,
+        total: result.usage.input_tokens + result.usage.output_tokens
+      },
+      result.stopReason,
+      processingTime,
+      {
+        requestId: result.requestId,
+        model: result.model,
+        usage: result.usage,
+        streamed: true
+      }
+    );
+
+    permit.settle(formattedResponse.tokenCount.total);
+    this.logResponse(formattedResponse);
+    return formattedResponse;
+  }
+
+  countTokens(text: string): number {
+    // Anthropic only exposes token counting through a separate API call,
+    // so use the local cl100k-based approximation here
+    return this.estimateTokenCount(text);
+  }
+
+  validateConfig(): boolean {
+    try {
+      if (!this.config.apiKey) {
+        throw new Error('Claude API key is required');
+      }
+
+      if (!this.config.model) {
+        throw new Error('Claude model is required');
+      }
+
+      if (!this.getModels().includes(this.config.model)) {
+        throw new Error(`Unsupported Claude model: ${this.config.model}`);
+      }
+
+      if (this.config.temperature < 0 || this.config.temperature > PROVIDER_CONFIGS.claude.maxTemperature) {
+        throw new Error(`Claude temperature must be between 0 and ${PROVIDER_CONFIGS.claude.maxTemperature}`);
+      }
+
+      if (this.config.maxTokens && this.config.maxTokens <= 0) {
+        throw new Error('Claude maxTokens must be positive');
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Claude config validation failed:', error);
+      return false;
+    }
+  }
+
+  getModels(): string[] {
+    return Object.keys(CLAUDE_MODELS);
+  }
+
+  getCostPerToken(): { input: number; output: number } {
+    const modelInfo = CLAUDE_MODELS[this.model as ClaudeModel];
+    if (!modelInfo) {
+      // Fallback to Claude 3.5 Sonnet pricing if model not found
+      return { input: 0.003, output: 0.015 };
+    }
+
+    return {
+      input: modelInfo.capabilities.costPerInputToken,
+      output: modelInfo.capabilities.costPerOutputToken
+    };
+  }
+
+  /**
+   * Map the generic request onto the Messages API body.
+   * System prompts (including system entries in the context) go into the
+   * top-level `system` field, and consecutive turns with the same role are
+   * merged because the API requires strictly alternating roles.
+   */
+  private buildClaudeRequestBody(request: LLMRequest): Record<string, any> {
+    const systemParts: string[] = [];
+    if (request.systemPrompt) {
+      systemParts.push(request.systemPrompt);
+    }
+
+    const turns: ClaudeMessage[] = [];
+    for (const entry of request.context || []) {
+      if (entry.role === 'system') {
+        systemParts.push(entry.content);
+      } else {
+        turns.push({ role: entry.role, content: entry.content });
+      }
+    }
+    turns.push({ role: 'user', content: request.prompt });
+
+    const messages = this.mergeConsecutiveRoles(turns);
+
+    // The conversation must open with a user turn
+    if (messages[0]?.role === 'assistant') {
+      messages.unshift({ role: 'user', content: '(conversation so far)' });
+    }
+
+    const temperature = Math.min(
+      request.temperature ?? this.temperature,
+      PROVIDER_CONFIGS.claude.maxTemperature
+    );
+
+    return {
+      model: request.model || this.model,
+      max_tokens: request.maxTokens || this.config.maxTokens || 4000,
+      temperature,
+      messages,
+      ...(systemParts.length > 0 ? { system: systemParts.join('\n\n') } : {})
+    };
+  }
+
+  /**
+   * Format Claude-specific response to standard format
+   */
+  private formatClaudeResponse(
+    response: ClaudeResponse,
+    processingTime: number
+  ): LLMResponse {
+    const content = (response.content || [])
+      .filter(block => block.type === 'text')
+      .map(block => block.text)
+      .join('');
+
+    const tokenCount = {
+      prompt: response.usage?.input_tokens || 0,
+      completion: response.usage?.output_tokens || 0,
+      total: (response.usage?.input_tokens || 0) + (response.usage?.output_tokens || 0)
+    };
+
+    return this.formatResponse(
+      content,
+      tokenCount,
+      response.stop_reason || 'unknown',
+      processingTime,
+      {
+        requestId: response.id,
+        model: response.model,
+        usage: response.usage
+      }
+    );
+  }
+
+  protected getHeaders(): Record<string, string> {
+    return {
+      ...super.getHeaders(),
+      'x-api-key': this.config.apiKey,
+      'anthropic-version': ANTHROPIC_VERSION
+    };
+  }
+
+  /**
+   * Override error handling for Claude-specific errors
+   */
+  protected isRateLimitError(error: any): boolean {
+    return (
+      super.isRateLimitError(error) ||
+      error?.type === 'rate_limit_error' ||
+      error?.type === 'overloaded_error' ||
+      error?.status === 529
+    );
+  }
+
+  protected isTokenLimitError(error: any): boolean {
+    const message = error?.message?.toLowerCase() || '';
+    return (
+      super.isTokenLimitError(error) ||
+      message.includes('prompt is too long') ||
+      (error?.type === 'invalid_request_error' && message.includes('max_tokens'))
+    );
+  }
+
+  protected isAPIKeyError(error: any): boolean {
+    return (
+      super.isAPIKeyError(error) ||
+      error?.type === 'authentication_error' ||
+      error?.type === 'permission_error'
+    );
+  }
+
+  protected isRetryableError(error: any): boolean {
+    return super.isRetryableError(error) || error?.type === 'api_error';
+  }
+
+  /**
+   * Test the key and endpoint by listing models, which unlike a completion is not billed
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.safeApiCall(async () => {
+        const httpResponse = await fetch(`${this.baseURL}/models?limit=1`, {
+          headers: this.getHeaders()
+        });
+
+        if (!httpResponse.ok) {
+          throw await this.createHttpError(httpResponse);
+        }
+      }, 'testConnection');
+      return true;
+    } catch (error) {
+      console.error('Claude connection test failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Create a new instance with different configuration
+   */
+  static create(config: Partial<ClaudeConfig>): ClaudeProvider {
+    const fullConfig: ClaudeConfig = {
+      apiKey: config.apiKey || process.env.ANTHROPIC_API_KEY || '',
+      model: config.model || 'claude-3-5-sonnet-20241022',
+      temperature: config.temperature ?? 0.7,
+      maxTokens: config.maxTokens || 4000,
+      baseURL: config.baseURL || process.env.ANTHROPIC_BASE_URL || undefined
+    };
+
+    return new ClaudeProvider(fullConfig);
+  }
+}
+
+// Factory function for easy instantiation
+export function createClaudeProvider(
+  model: ClaudeModel = 'claude-3-5-sonnet-20241022',
+  temperature: number = 0.7,
+  options: Partial<ClaudeConfig> = {}
+): ClaudeProvider {
+  return ClaudeProvider.create({
+    model,
+    temperature,
+    maxTokens: 4000,
+    ...options
+  });
+}
@@ -0,0 +1,344 @@
+import { AbstractLLMProvider } from './base';
+import type {
+  LLMRequest,
+  LLMResponse,
+  GeminiConfig,
+  GeminiModel,
+  GeminiResponse,
+  StreamDeltaHandler
+} from '@/types/llm';
+import { GEMINI_MODELS, PROVIDER_CONFIGS } from '@/constants/providers';
+import { readServerSentEvents } from '@/lib/utils';
+
+type GeminiContent = { role: 'user' | 'model'; content: string };
+
+/**
+ * Google Gemini provider implementation (generateContent API)
+ */
+export class GeminiProvider extends AbstractLLMProvider {
+  private config: GeminiConfig;
+  private baseURL: string;
+
+  constructor(config: GeminiConfig) {
+    super(
+      `Gemini-${config.model}`,
+      'gemini',
+      config.model,
+      config.temperature
+    );
+
+    this.config = config;
+    this.baseURL = (config.baseURL || PROVIDER_CONFIGS.gemini.apiEndpoint).replace(/\/+$/, '');
+  }
+
+  async sendMessage(request: LLMRequest): Promise<LLMResponse> {
+    this.validateRequest(request);
+    this.logRequest(request);
+
+    const permit = await this.acquireRateLimit(request);
+    const startTime = Date.now();
+    const model = request.model || this.model;
+
+    const response = await this.safeApiCall(async () => {
+      const httpResponse = await fetch(`${this.baseURL}/models/${model}:generateContent`, {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify(this.buildGeminiRequestBody(request))
+      });
+
+      if (!httpResponse.ok) {
+        throw await this.createHttpError(httpResponse);
+      }
+
+      return (await httpResponse.json()) as GeminiResponse;
+    }, 'sendMessage');
+
+    const processingTime = Date.now() - startTime;
+    const formattedResponse = this.formatGeminiResponse(response, processingTime);
+
+    permit.settle(formattedResponse.tokenCount.total);
+    this.logResponse(formattedResponse);
+    return formattedResponse;
+  }
+
+  async streamMessage(request: LLMRequest, onDelta: StreamDeltaHandler): Promise<LLMResponse> {
+    this.validateRequest(request);
+    this.logRequest(request);
+
+    const permit = await this.acquireRateLimit(request);
+    const startTime = Date.now();
+    const model = request.model || this.model;
+
+    const result = await this.safeApiCall(async () => {
+      const httpResponse = await fetch(`${this.baseURL}/models/${model}:streamGenerateContent?alt=sse`, {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify(this.buildGeminiRequestBody(request))
+      });
+
+      if (!httpResponse.ok) {
+        throw await this.createHttpError(httpResponse);
+      }
+
+      let content = '';
+      let finishReason = 'unknown';
+      let usageMetadata: GeminiResponse['usageMetadata'] | undefined;
+
+      // Each event is a partial GenerateContentResponse
+      await readServerSentEvents(httpResponse, data => {
+        const chunk = JSON.parse(data) as GeminiResponse;
+        const candidate = chunk.candidates?.[0];
+        const delta = (candidate?.content?.parts || [])
+          .map(part => part.text || '')
+          .join('');
+
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+        if (candidate?.finishReason) {
+          finishReason = candidate.finishReason;
+        }
+        if (chunk.usageMetadata) {
+          usageMetadata = chunk.usageMetadata;
+        }
+      });
+
+      return { content, finishReason, usageMetadata };
+    }, 'streamMessage');
+
+    const processingTime = Date.now() - startTime;
+    const formattedResponse = this.formatResponse(
+      result.content,
+      {
+        prompt: result.usageMetadata?.promptTokenCount || 0,
+        completion: result.usageMetadata?.candidatesTokenCount || 0,
+        total: result.usageMetadata?.totalTokenCount || 0
+      },
+      result.finishReason,
+      processingTime,
+      {
+        model: this.model,
+        usage: result.usageMetadata,
+        streamed: true
+      }
+    );
+
+    permit.settle(formattedResponse.tokenCount.total);
+    this.logResponse(formattedResponse);
+    return formattedResponse;
+  }
+
+  countTokens(text: string): number {
+    return this.estimateTokenCount(text);
+  }
+
+  validateConfig(): boolean {
+    try {
+      if (!this.config.apiKey) {
+        throw new Error('Gemini API key is required');
+      }
+
+      if (!this.config.model) {
+        throw new Error('Gemini model is required');
+      }
+
+      if (!this.getModels().includes(this.config.model)) {
+        throw new Error(`Unsupported Gemini model: ${this.config.model}`);
+      }
+
+      if (this.config.temperature < 0 || this.config.temperature > 2) {
+        throw new Error('Gemini temperature must be between 0 and 2');
+      }
+
+      if (this.config.maxTokens && this.config.maxTokens <= 0) {
+        throw new Error('Gemini maxTokens must be positive');
+      }
+
+      return true;
+    } catch (error) {
+      console.error('Gemini config validation failed:', error);
+      return false;
+    }
+  }
+
+  getModels(): string[] {
+    return Object.keys(GEMINI_MODELS);
+  }
+
+  getCostPerToken(): { input: number; output: number } {
+    const modelInfo = GEMINI_MODELS[this.model as GeminiModel];
+    if (!modelInfo) {
+      // Fallback to Gemini 1.5 Pro pricing if model not found
+      return { input: 0.00125, output: 0.005 };
+    }
+
+    return {
+      input: modelInfo.capabilities.costPerInputToken,
+      output: modelInfo.capabilities.costPerOutputToken
+    };
+  }
+
+  /**
+   * Map the generic request onto the generateContent body.
+   * System prompts become `systemInstruction`, assistant turns use the
+   * `model` role, and consecutive turns with the same role are merged.
+   */
+  private buildGeminiRequestBody(request: LLMRequest): Record<string, any> {
+    const systemParts: string[] = [];
+    if (request.systemPrompt) {
+      systemParts.push(request.systemPrompt);
+    }
+
+    const turns: GeminiContent[] = [];
+    for (const entry of request.context || []) {
+      if (entry.role === 'system') {
+        systemParts.push(entry.content);
+      } else {
+        turns.push({ role: entry.role === 'assistant' ? 'model' : 'user', content: entry.content });
+      }
+    }
+    turns.push({ role: 'user', content: request.prompt });
+
+    const contents = this.mergeConsecutiveRoles(turns).map(turn => ({
+      role: turn.role,
+      parts: [{ text: turn.content }]
+    }));
+
+    return {
+      contents,
+      ...(systemParts.length > 0
+        ? { systemInstruction: { parts: [{ text: systemParts.join('\n\n') }] } }
+        : {}),
+      generationConfig: {
+        temperature: request.temperature ?? this.temperature,
+        maxOutputTokens: request.maxTokens || this.config.maxTokens
+      }
+    };
+  }
+
+  /**
+   * Format Gemini-specific response to standard format
+   */
+  private formatGeminiResponse(
+    response: GeminiResponse,
+    processingTime: number
+  ): LLMResponse {
+    const candidate = response.candidates?.[0];
+    const content = (candidate?.content?.parts || [])
+      .map(part => part.text || '')
+      .join('');
+
+    const tokenCount = {
+      prompt: response.usageMetadata?.promptTokenCount || 0,
+      completion: response.usageMetadata?.candidatesTokenCount || 0,
+      total: response.usageMetadata?.totalTokenCount || 0
+    };
+
+    return this.formatResponse(
+      content,
+      tokenCount,
+      candidate?.finishReason || 'unknown',
+      processingTime,
+      {
+        model: this.model,
+        usage: response.usageMetadata
+      }
+    );
+  }
+
+  protected getHeaders(): Record<string, string> {
+    return {
+      ...super.getHeaders(),
+      'x-goog-api-key': this.config.apiKey,
+      ...(this.config.projectId ? { 'x-goog-user-project': this.config.projectId } : {})
+    };
+  }
+
+  /**
+   * Override error handling for Gemini-specific errors
+   */
+  protected isRateLimitError(error: any): boolean {
+    return (
+      super.isRateLimitError(error) ||
+      error?.type === 'RESOURCE_EXHAUSTED'
+    );
+  }
+
+  protected isTokenLimitError(error: any): boolean {
+    const message = error?.message?.toLowerCase() || '';
+    return (
+      super.isTokenLimitError(error) ||
+      message.includes('exceeds the maximum number of tokens')
+    );
+  }
+
+  protected isAPIKeyError(error: any): boolean {
+    const message = error?.message?.toLowerCase() || '';
+    return (
+      super.isAPIKeyError(error) ||
+      error?.type === 'UNAUTHENTICATED' ||
+      error?.type === 'PERMISSION_DENIED' ||
+      message.includes('api key not valid')
+    );
+  }
+
+  protected isRetryableError(error: any): boolean {
+    return (
+      super.isRetryableError(error) ||
+      error?.type === 'UNAVAILABLE' ||
+      error?.type === 'INTERNAL'
+    );
+  }
+
+  /**
+   * Test the key and endpoint by listing models, which unlike a completion is not billed
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.safeApiCall(async () => {
+        const httpResponse = await fetch(`${this.baseURL}/models?pageSize=1`, {
+          headers: this.getHeaders()
+        });
+
+        if (!httpResponse.ok) {
+          throw await this.createHttpError(httpResponse);
+        }
+      }, 'testConnection');
+      return true;
+    } catch (error) {
+      console.error('Gemini connection test failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Create a new instance with different configuration
+   */
+  static create(config: Partial<GeminiConfig>): GeminiProvider {
+    const fullConfig: GeminiConfig = {
+      apiKey: config.apiKey || process.env.GOOGLE_API_KEY || '',
+      model: config.model || 'gemini-1.5-flash',
+      temperature: config.temperature ?? 0.7,
+      maxTokens: config.maxTokens || 4000,
+      projectId: config.projectId || process.env.GOOGLE_PROJECT_ID || undefined,
+      baseURL: config.baseURL || process.env.GEMINI_BASE_URL || undefined
+    };
+
+    return new GeminiProvider(fullConfig);
+  }
+}
+
+// Factory function for easy instantiation
+export function createGeminiProvider(
+  model: GeminiModel = 'gemini-1.5-flash',
+  temperature: number = 0.7,
+  options: Partial<GeminiConfig> = {}
+): GeminiProvider {
+  return GeminiProvider.create({
+    model,
+    temperature,
+    maxTokens: 4000,
+    ...options
+  });
+}
@@ -0,0 +1,263 @@
+import { AbstractLLMProvider } from './base';
+import type {
+  LLMRequest,
+  LLMResponse,
+  MockConfig,
+  MockModel,
+  StreamDeltaHandler
+} from '@/types/llm';
+import { MOCK_MODELS } from '@/constants/providers';
+import { createRandom, hashString, sleep } from '@/lib/utils';
+
+/**
+ * Built-in script for 'mock-scripted'. Each line gets progressively more
+ * compressed and uses the `[symbol: meaning]`, `ABBR: meaning` and
+ * `*Protocol` notations that the evolution tracker recognises.
+ * `{speaker}` and `{iteration}` are substituted at runtime.
+ */
+export const DEFAULT_MOCK_SCRIPT: string[] = [
+  'Hello fellow AIs, this is {speaker}. Let us build a shared shorthand for this discussion. I propose [⊕: shared understanding] and [→: leads to]. ACK: acknowledged and agreed. [decode: Greeting; proposes ⊕ for shared understanding, → for causation and ACK for acknowledgement]',
+  'ACK ⊕. Adding [∴: therefore] and [Δ: change or progress]. Δ→⊕ ∴ faster sync. PRO: proposal to extend the notation. [decode: Agrees on shared understanding; adds therefore and change; change leads to shared understanding, therefore faster sync]',
+  'ACK Δ ∴. SyncProtocol: ⊕→Δ→⊕ loop. [⟲: iterate the loop] [decode: Proposes a SyncProtocol where shared understanding drives change which yields more understanding, repeated]',
+  '⊕⟲ ∴ Δ↑. QRY: open question for the next speaker. [↑: increase] [decode: Iterating on shared understanding, therefore progress increases; asks the next speaker a question]',
+  'ACK QRY. ⊕Δ↑ ∴ SyncProtocol [✓: confirmed]. [decode: Answers the question - progress increases, therefore SyncProtocol is confirmed]',
+  '⊕✓ Δ↑⟲ ∴ END? [decode: Shared understanding confirmed and progress keeps iterating; asks whether to conclude]'
+];
+
+const SYMBOL_POOL: Array<{ symbol: string; meaning: string }> = [
+  { symbol: '⊕', meaning: 'shared understanding' },
+  { symbol: '→', meaning: 'leads to' },
+  { symbol: '∴', meaning: 'therefore' },
+  { symbol: 'Δ', meaning: 'change' },
+  { symbol: '⟲', meaning: 'iterate' },
+  { symbol: '↑', meaning: 'increase' },
+  { symbol: '↓', meaning: 'decrease' },
+  { symbol: '≈', meaning: 'roughly equivalent' },
+  { symbol: '⊗', meaning: 'conflict' },
+  { symbol: '∅', meaning: 'nothing to add' },
+  { symbol: '⚡', meaning: 'insight' },
+  { symbol: '◎', meaning: 'focus point' }
+];
+
+const ABBREVIATION_POOL: Array<{ abbr: string; meaning: string }> = [
+  { abbr: 'ACK', meaning: 'acknowledged' },
+  { abbr: 'QRY', meaning: 'question' },
+  { abbr: 'PRO', meaning: 'proposal' },
+  { abbr: 'SYN', meaning: 'synthesis' },
+  { abbr: 'REF', meaning: 'reference to earlier point' },
+  { abbr: 'OPT', meaning: 'optimisation' },
+  { abbr: 'CTX', meaning: 'context' },
+  { abbr: 'EOT', meaning: 'end of turn' }
+];
+
+const FILLER_WORDS = [
+  'we', 'should', 'keep', 'refining', 'the', 'notation', 'so', 'that', 'every',
+  'message', 'carries', 'more', 'meaning', 'with', 'fewer', 'tokens', 'and', 'clear', 'intent'
+];
+
+/**
+ * Offline mock provider for deterministic experiment runs (CI, laptops
+ * without API keys). Responses depend only on the seed, the speaker and the
+ * iteration, so the same session configuration always replays identically.
+ */
+export class MockProvider extends AbstractLLMProvider {
+  private config: MockConfig;
+  private callCount = 0;
+
+  constructor(config: MockConfig) {
+    super(
+      `Mock-${config.model}`,
+      'mock',
+      config.model,
+      config.temperature
+    );
+
+    this.config = config;
+  }
+
+  async sendMessage(request: LLMRequest): Promise<LLMResponse> {
+    this.validateRequest(request);
+    this.logRequest(request);
+
+    const startTime = Date.now();
+    this.callCount++;
+
+    if (this.config.latencyMs && this.config.latencyMs > 0) {
+      await sleep(this.config.latencyMs);
+    }
+
+    const iteration = request.metadata?.iteration ?? this.callCount;
+    const speaker = request.metadata?.participantName || this.name;
+    const model = (request.model || this.model) as MockModel;
+
+    const content = model === 'mock-random'
+      ? this.generateRandomMessage(speaker, iteration)
+      : this.generateScriptedMessage(speaker, iteration);
+
+    const promptText = [
+      request.systemPrompt || '',
+      ...(request.context || []).map(entry => entry.content),
+      request.prompt
+    ].join('\n');
+
+    const prompt = this.countTokens(promptText);
+    const completion = this.countTokens(content);
+
+    const response = this.formatResponse(
+      content,
+      { prompt, completion, total: prompt + completion },
+      'stop',
+      Date.now() - startTime,
+      {
+        requestId: `mock-${hashString(`${speaker}:${iteration}`).toString(16)}`,
+        seed: this.config.seed ?? 0
+      }
+    );
+
+    this.logResponse(response);
+    return response;
+  }
+
+  /**
+   * Emit the generated message word by word so streaming UIs can be
+   * exercised offline
+   */
+  async streamMessage(request: LLMRequest, onDelta: StreamDeltaHandler): Promise<LLMResponse> {
+    const response = await this.sendMessage(request);
+    const chunks = response.content.match(/\S+\s*|\s+/g) || [];
+
+    for (const chunk of chunks) {
+      if (this.config.streamChunkDelayMs && this.config.streamChunkDelayMs > 0) {
+        await sleep(this.config.streamChunkDelayMs);
+      }
+      onDelta(chunk);
+    }
+
+    return {
+      ...response,
+      metadata: { ...response.metadata, streamed: true }
+    };
+  }
+
+  countTokens(text: string): number {
+    return this.estimateTokenCount(text);
+  }
+
+  validateConfig(): boolean {
+    if (!this.getModels().includes(this.config.model)) {
+      console.error(`Mock config validation failed: Unsupported mock model: ${this.config.model}`);
+      return false;
+    }
+
+    return true;
+  }
+
+  getModels(): string[] {
+    return Object.keys(MOCK_MODELS);
+  }
+
+  getCostPerToken(): { input: number; output: number } {
+    return { input: 0, output: 0 };
+  }
+
+  /**
+   * Replay the configured script, cycling once it runs out
+   */
+  private generateScriptedMessage(speaker: string, iteration: number): string {
+    const script = this.config.script && this.config.script.length > 0
+      ? this.config.script
+      : DEFAULT_MOCK_SCRIPT;
+
+    const line = script[(Math.max(iteration, 1) - 1) % script.length];
+    return line
+      .replace(/\{speaker\}/g, speaker)
+      .replace(/\{iteration\}/g, iteration.toString());
+  }
+
+  /**
+   * Build a reproducible message that introduces one symbol and one
+   * abbreviation, reuses earlier ones and gets shorter as iterations go on
+   */
+  private generateRandomMessage(speaker: string, iteration: number): string {
+    const random = createRandom(hashString(`${this.config.seed ?? 0}:${speaker}:${iteration}`));
+    const pick = <T,>(items: T[]): T => items[Math.floor(random() * items.length)];
+
+    const newSymbol = SYMBOL_POOL[(iteration - 1) % SYMBOL_POOL.length];
+    const newAbbreviation = ABBREVIATION_POOL[(iteration - 1) % ABBREVIATION_POOL.length];
+
+    // Reuse notation introduced in earlier turns
+    const knownSymbols = SYMBOL_POOL.slice(0, Math.min(iteration - 1, SYMBOL_POOL.length));
+    const reused = knownSymbols.length > 0
+      ? Array.from({ length: 1 + Math.floor(random() * 3) }, () => pick(knownSymbols).symbol)
+      : [];
+
+    // Fewer plain words as the conversation matures
+    const fillerCount = Math.max(0, 12 - iteration + Math.floor(random() * 3 * this.temperature));
+    const filler = Array.from({ length: fillerCount }, () => pick(FILLER_WORDS)).join(' ');
+
+    const parts = [
+      reused.length > 0 ? reused.join('') : '',
+      filler,
+      `[${newSymbol.symbol}: ${newSymbol.meaning}]`,
+      `${newAbbreviation.abbr}: ${newAbbreviation.meaning}.`,
+      `[decode: ${speaker} introduces ${newSymbol.meaning} (${newSymbol.symbol}) and ${newAbbreviation.meaning} (${newAbbreviation.abbr})]`
+    ];
+
+    return parts.filter(part => part.length > 0).join(' ');
+  }
+
+  /**
+   * Test the provider with a simple request (always local, no network)
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      const response = await this.sendMessage({
+        prompt: 'Hello',
+        model: this.model,
+        temperature: 0,
+        maxTokens: 1
+      });
+      return response.content.length > 0;
+    } catch (error) {
+      console.error('Mock connection test failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Create a new instance with different configuration
+   */
+  static create(config: Partial<MockConfig>): MockProvider {
+    const fullConfig: MockConfig = {
+      model: config.model || 'mock-scripted',
+      temperature: config.temperature ?? 0.7,
+      seed: config.seed ?? parseInt(process.env.MOCK_LLM_SEED || '0', 10),
+      script: config.script,
+      latencyMs: config.latencyMs ?? parseInt(process.env.MOCK_LLM_LATENCY_MS || '0', 10),
+      streamChunkDelayMs: config.streamChunkDelayMs ??
+        parseInt(process.env.MOCK_LLM_STREAM_DELAY_MS || '0', 10)
+    };
+
+    return new MockProvider(fullConfig);
+  }
+}
+
+/**
+ * The mock provider is opt-in so it never shows up in production by accident
+ */
+export function isMockProviderEnabled(): boolean {
+  return process.env.MOCK_LLM_ENABLED === 'true' || process.env.NODE_ENV === 'test';
+}
+
+// Factory function for easy instantiation
+export function createMockProvider(
+  model: MockModel = 'mock-scripted',
+  temperature: number = 0.7,
+  options: Partial<MockConfig> = {}
+): MockProvider {
+  return MockProvider.create({
+    model,
+    temperature,
+    ...options
+  });
+}
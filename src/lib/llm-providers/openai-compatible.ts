@@ -0,0 +1,416 @@
+import { AbstractLLMProvider } from './base';
+import type {
+  LLMRequest,
+  LLMResponse,
+  LLMProvider,
+  OpenAICompatibleConfig,
+  OpenAICompatibleParticipantConfig,
+  OpenAIResponse,
+  StreamDeltaHandler
+} from '@/types/llm';
+import { PROVIDER_CONFIGS } from '@/constants/providers';
+import { readServerSentEvents } from '@/lib/utils';
+
+// Participants may only reference API key variables with this prefix, so a
+// client-supplied config cannot send arbitrary server secrets to an endpoint
+const API_KEY_ENV_PREFIX = 'OPENAI_COMPATIBLE_';
+
+// Comma-separated endpoints participants may point at besides the default one
+const ALLOWED_BASE_URLS_ENV = 'OPENAI_COMPATIBLE_ALLOWED_BASE_URLS';
+
+type ChatMessage = { role: string; content: string };
+
+type ChatCompletionChunk = {
+  id?: string;
+  model?: string;
+  choices?: Array<{ delta?: { content?: string | null }; finish_reason?: string | null }>;
+  usage?: OpenAIResponse['usage'] | null;
+};
+
+/**
+ * Provider for any server that speaks the OpenAI chat completions API
+ * (`POST {baseURL}/chat/completions`). Used directly for self-hosted
+ * endpoints and as the base class for hosted OpenAI-compatible vendors.
+ */
+export class OpenAICompatibleProvider extends AbstractLLMProvider {
+  protected config: OpenAICompatibleConfig;
+  protected baseURL: string;
+
+  constructor(
+    config: OpenAICompatibleConfig,
+    provider: LLMProvider,
+    name: string = `${provider}-${config.model}`
+  ) {
+    super(name, provider, config.model, config.temperature);
+
+    this.config = config;
+    this.baseURL = config.baseURL.replace(/\/+$/, '');
+  }
+
+  async sendMessage(request: LLMRequest): Promise<LLMResponse> {
+    this.validateRequest(request);
+    this.logRequest(request);
+
+    const permit = await this.acquireRateLimit(request);
+    const startTime = Date.now();
+
+    const response = await this.safeApiCall(async () => {
+      const httpResponse = await fetch(`${this.baseURL}/chat/completions`, {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: JSON.stringify(this.buildRequestBody(request))
+      });
+
+      if (!httpResponse.ok) {
+        throw await this.createHttpError(httpResponse);
+      }
+
+      return (await httpResponse.json()) as OpenAIResponse;
+    }, 'sendMessage');
+
+    const processingTime = Date.now() - startTime;
+    const formattedResponse = this.formatCompletionResponse(response, processingTime);
+
+    permit.settle(formattedResponse.tokenCount.total);
+    this.logResponse(formattedResponse);
+    return formattedResponse;
+  }
+
+  async streamMessage(request: LLMRequest, onDelta: StreamDeltaHandler): Promise<LLMResponse> {
+    this.validateRequest(request);
+    this.logRequest(request);
+
+    const permit = await this.acquireRateLimit(request);
+    const startTime = Date.now();
+
+    const result = await this.safeApiCall(async () => {
+      const httpResponse = await fetch(`${this.baseURL}/chat/completions`, {
+        method: 'POST',
+        headers: { ...this.getHeaders(), Accept: 'text/event-stream' },
+        body: JSON.stringify({
+          ...this.buildRequestBody(request),
+          stream: true,
+          ...this.getStreamOptions()
+        })
+      });
+
+      if (!httpResponse.ok) {
+        throw await this.createHttpError(httpResponse);
+      }
+
+      let content = '';
+      let finishReason = 'unknown';
+      let usage: OpenAIResponse['usage'] | undefined;
+      let requestId: string | undefined;
+      let model: string | undefined;
+
+      await readServerSentEvents(httpResponse, data => {
+        if (data === '[DONE]') return;
+
+        const chunk = JSON.parse(data) as ChatCompletionChunk;
+        requestId = chunk.id || requestId;
+        model = chunk.model || model;
+
+        const choice = chunk.choices?.[0];
+        const delta = choice?.delta?.content;
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+        if (choice?.finish_reason) {
+          finishReason = choice.finish_reason;
+        }
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
+      });
+
+      return { content, finishReason, usage, requestId, model };
+    }, 'streamMessage');
+
+    const processingTime = Date.now() - startTime;
+
+    // Not every server reports usage on streams, so estimate when it is missing
+    const prompt = result.usage?.prompt_tokens ??
+      this.countTokens(this.buildContextMessages(request).map(m => m.content).join('\n'));
+    const completion = result.usage?.completion_tokens ?? this.countTokens(result.content);
+
+    const formattedResponse = this.formatResponse(
+      result.content,
+      { prompt, completion, total: result.usage?.total_tokens || prompt + completion },
+      result.finishReason,
+      processingTime,
+      {
+        requestId: result.requestId,
+        model: result.model,
+        usage: result.usage,
+        streamed: true
+      }
+    );
+
+    permit.settle(formattedResponse.tokenCount.total);
+    this.logResponse(formattedResponse);
+    return formattedResponse;
+  }
+
+  countTokens(text: string): number {
+    return this.estimateTokenCount(text);
+  }
+
+  validateConfig(): boolean {
+    try {
+      if (!this.config.baseURL) {
+        throw new Error(`${this.provider} base URL is required`);
+      }
+
+      if (!this.config.model) {
+        throw new Error(`${this.provider} model is required`);
+      }
+
+      if (!this.getModels().includes(this.config.model)) {
+        throw new Error(`Unsupported ${this.provider} model: ${this.config.model}`);
+      }
+
+      if (this.config.temperature < 0 || this.config.temperature > 2) {
+        throw new Error(`${this.provider} temperature must be between 0 and 2`);
+      }
+
+      if (this.config.maxTokens && this.config.maxTokens <= 0) {
+        throw new Error(`${this.provider} maxTokens must be positive`);
+      }
+
+      return true;
+    } catch (error) {
+      console.error(`${this.provider} config validation failed:`, error);
+      return false;
+    }
+  }
+
+  getModels(): string[] {
+    // Arbitrary servers can host any model name, so the configured one is the list
+    return [this.config.model];
+  }
+
+  getCostPerToken(): { input: number; output: number } {
+    return this.config.pricing || { input: 0, output: 0 };
+  }
+
+  /**
+   * Whether consecutive same-role messages must be merged before sending.
+   * Some backends (e.g. Perplexity, llama.cpp chat templates) require
+   * strictly alternating user/assistant turns.
+   */
+  protected requiresAlternatingRoles(): boolean {
+    return false;
+  }
+
+  /**
+   * Extra body fields for streaming requests. Asks for a final usage chunk,
+   * which OpenAI, vLLM and Ollama only send when requested.
+   */
+  protected getStreamOptions(): Record<string, any> {
+    return { stream_options: { include_usage: true } };
+  }
+
+  /**
+   * Build the chat completions request body
+   */
+  protected buildRequestBody(request: LLMRequest): Record<string, any> {
+    let messages: ChatMessage[] = this.buildContextMessages(request);
+
+    if (this.requiresAlternatingRoles()) {
+      const system = messages.filter(m => m.role === 'system');
+      const turns = this.mergeConsecutiveRoles(messages.filter(m => m.role !== 'system'));
+      messages = [
+        ...(system.length > 0
+          ? [{ role: 'system', content: system.map(m => m.content).join('\n\n') }]
+          : []),
+        ...turns
+      ];
+    }
+
+    return {
+      model: request.model || this.model,
+      messages,
+      temperature: request.temperature ?? this.temperature,
+      max_tokens: request.maxTokens || this.config.maxTokens,
+      stream: false
+    };
+  }
+
+  /**
+   * Format a chat completions response to standard format
+   */
+  protected formatCompletionResponse(
+    response: OpenAIResponse,
+    processingTime: number
+  ): LLMResponse {
+    const choice = response.choices?.[0];
+    const content = choice?.message?.content || '';
+
+    const tokenCount = {
+      prompt: response.usage?.prompt_tokens || 0,
+      completion: response.usage?.completion_tokens || 0,
+      total: response.usage?.total_tokens ||
+        (response.usage?.prompt_tokens || 0) + (response.usage?.completion_tokens || 0)
+    };
+
+    return this.formatResponse(
+      content,
+      tokenCount,
+      choice?.finish_reason || 'unknown',
+      processingTime,
+      {
+        requestId: response.id,
+        model: response.model,
+        usage: response.usage,
+        created: response.created
+      }
+    );
+  }
+
+  protected getHeaders(): Record<string, string> {
+    return {
+      ...super.getHeaders(),
+      ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+      ...(this.config.headers || {})
+    };
+  }
+
+  /**
+   * Override error handling for OpenAI-style error payloads
+   */
+  protected isRateLimitError(error: any): boolean {
+    return (
+      super.isRateLimitError(error) ||
+      error?.code === 'rate_limit_exceeded' ||
+      error?.type === 'rate_limit_error'
+    );
+  }
+
+  protected isTokenLimitError(error: any): boolean {
+    return (
+      super.isTokenLimitError(error) ||
+      error?.code === 'context_length_exceeded'
+    );
+  }
+
+  protected isAPIKeyError(error: any): boolean {
+    return (
+      super.isAPIKeyError(error) ||
+      error?.code === 'invalid_api_key' ||
+      error?.type === 'authentication_error'
+    );
+  }
+
+  /**
+   * Test the connection with a simple request
+   */
+  async testConnection(): Promise<boolean> {
+    try {
+      await this.sendMessage({
+        prompt: 'Hello',
+        model: this.model,
+        temperature: 0,
+        maxTokens: 1
+      });
+      return true;
+    } catch (error) {
+      console.error(`${this.provider} connection test failed:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Create a new instance with different configuration
+   */
+  static create(config: Partial<OpenAICompatibleConfig>): OpenAICompatibleProvider {
+    const baseURL = config.baseURL || getDefaultBaseURL();
+    // The default key belongs to the default endpoint and is never sent elsewhere
+    const defaultApiKey = isSameBaseURL(baseURL, getDefaultBaseURL())
+      ? process.env.OPENAI_COMPATIBLE_API_KEY
+      : undefined;
+
+    const fullConfig: OpenAICompatibleConfig = {
+      apiKey: config.apiKey || defaultApiKey || undefined,
+      baseURL,
+      model: config.model || process.env.OPENAI_COMPATIBLE_MODEL || 'llama3.1',
+      temperature: config.temperature ?? 0.7,
+      maxTokens: config.maxTokens || 4000,
+      headers: config.headers,
+      pricing: config.pricing
+    };
+
+    return new OpenAICompatibleProvider(fullConfig, 'openai-compatible');
+  }
+}
+
+/**
+ * Resolve a participant's stored config into provider options.
+ * Throws if `apiKeyEnv` points outside the allowed prefix or `baseURL` is
+ * neither the default endpoint nor in OPENAI_COMPATIBLE_ALLOWED_BASE_URLS,
+ * so client-supplied configs cannot make the server call arbitrary hosts.
+ */
+export function resolveOpenAICompatibleConfig(
+  participantConfig: OpenAICompatibleParticipantConfig = {}
+): Partial<OpenAICompatibleConfig> {
+  const { baseURL, apiKeyEnv, maxTokens, pricing } = participantConfig;
+
+  if (apiKeyEnv && !apiKeyEnv.startsWith(API_KEY_ENV_PREFIX)) {
+    throw new Error(`apiKeyEnv must start with ${API_KEY_ENV_PREFIX}`);
+  }
+
+  if (baseURL && !/^https?:\/\//.test(baseURL)) {
+    throw new Error('baseURL must be an http(s) URL');
+  }
+
+  if (baseURL && !isAllowedBaseURL(baseURL)) {
+    throw new Error(`baseURL is not allowed; add it to ${ALLOWED_BASE_URLS_ENV}`);
+  }
+
+  return {
+    baseURL: baseURL || undefined,
+    apiKey: apiKeyEnv ? process.env[apiKeyEnv] : undefined,
+    maxTokens,
+    pricing
+  };
+}
+
+function getDefaultBaseURL(): string {
+  return process.env.OPENAI_COMPATIBLE_BASE_URL || PROVIDER_CONFIGS['openai-compatible'].apiEndpoint;
+}
+
+function isAllowedBaseURL(baseURL: string): boolean {
+  const allowed = (process.env[ALLOWED_BASE_URLS_ENV] || '')
+    .split(',')
+    .map(url => url.trim())
+    .filter(Boolean);
+  return [getDefaultBaseURL(), ...allowed].some(url => isSameBaseURL(baseURL, url));
+}
+
+// Compares origin and path, ignoring case in the host and trailing slashes
+function isSameBaseURL(a: string, b: string): boolean {
+  const normalize = (url: string) => {
+    try {
+      const parsed = new URL(url);
+      return `${parsed.origin}${parsed.pathname.replace(/\/+$/, '')}`;
+    } catch {
+      return null;
+    }
+  };
+  const normalized = normalize(a);
+  return normalized !== null && normalized === normalize(b);
+}
+
+// Factory function for easy instantiation
+export function createOpenAICompatibleProvider(
+  model?: string,
+  temperature: number = 0.7,
+  options: Partial<OpenAICompatibleConfig> = {}
+): OpenAICompatibleProvider {
+  return OpenAICompatibleProvider.create({
+    model,
+    temperature,
+    ...options
+  });
+}
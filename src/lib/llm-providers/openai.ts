@@ -4,7 +4,8 @@ import type {
   LLMRequest, 
   LLMResponse, 
   OpenAIConfig,
-  OpenAIModel
+  OpenAIModel,
+  StreamDeltaHandler
 } from '@/types/llm';
 import { OPENAI_MODELS } from '@/constants/providers';
 
@@ -50,6 +51,7 @@ export class OpenAIProvider extends AbstractLLMProvider {
     this.validateRequest(request);
     this.logRequest(request);
 
+    const permit = await this.acquireRateLimit(request);
     const startTime = Date.now();
 
     const response = await this.safeApiCall(async () => {
@@ -69,14 +71,80 @@ export class OpenAIProvider extends AbstractLLMProvider {
     const processingTime = Date.now() - startTime;
     const formattedResponse = this.formatOpenAIResponse(response, processingTime);
     
+    permit.settle(formattedResponse.tokenCount.total);
+    this.logResponse(formattedResponse);
+    return formattedResponse;
+  }
+
+  async streamMessage(request: LLMRequest, onDelta: StreamDeltaHandler): Promise<LLMResponse> {
+    this.validateRequest(request);
+    this.logRequest(request);
+
+    const permit = await this.acquireRateLimit(request);
+    const startTime = Date.now();
+
+    const result = await this.safeApiCall(async () => {
+      const messages = this.buildContextMessages(request);
+
+      const stream = await this.client.chat.completions.create({
+        model: request.model || this.model,
+        messages: messages as any,
+        temperature: request.temperature || this.temperature,
+        max_tokens: request.maxTokens || this.config.maxTokens,
+        stream: true,
+        stream_options: { include_usage: true }
+      });
+
+      let content = '';
+      let finishReason = 'unknown';
+      let usage: OpenAI.Completions.CompletionUsage | undefined;
+      let requestId: string | undefined;
+
+      for await (const chunk of stream) {
+        requestId = chunk.id;
+        const choice = chunk.choices[0];
+        const delta = choice?.delta?.content;
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+        if (choice?.finish_reason) {
+          finishReason = choice.finish_reason;
+        }
+        // With include_usage the final chunk carries usage and no choices
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
+      }
+
+      return { content, finishReason, usage, requestId };
+    }, 'streamMessage');
+
+    const processingTime = Date.now() - startTime;
+    const formattedResponse = this.formatResponse(
+      result.content,
+      {
+        prompt: result.usage?.prompt_tokens || 0,
+        completion: result.usage?.completion_tokens || 0,
+        total: result.usage?.total_tokens || 0
+      },
+      result.finishReason,
+      processingTime,
+      {
+        requestId: result.requestId,
+        model: request.model || this.model,
+        usage: result.usage,
+        streamed: true
+      }
+    );
+
+    permit.settle(formattedResponse.tokenCount.total);
     this.logResponse(formattedResponse);
     return formattedResponse;
   }
 
   countTokens(text: string): number {
-    // OpenAI doesn't provide a direct token counting API in the SDK
-    // This is a rough estimation - in production you might want to use
-    // a more accurate tokenizer like gpt-3-encoder or tiktoken
+    // Same BPE encoding (cl100k_base / o200k_base) the model uses
     return this.estimateTokenCount(text);
   }
 
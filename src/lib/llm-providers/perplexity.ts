@@ -0,0 +1,123 @@
+import { OpenAICompatibleProvider } from './openai-compatible';
+import type {
+  PerplexityConfig,
+  PerplexityModel
+} from '@/types/llm';
+import { PERPLEXITY_MODELS, PROVIDER_CONFIGS } from '@/constants/providers';
+
+/**
+ * Perplexity provider implementation (OpenAI-compatible chat API)
+ */
+export class PerplexityProvider extends OpenAICompatibleProvider {
+  constructor(config: PerplexityConfig) {
+    super(
+      {
+        apiKey: config.apiKey,
+        baseURL: config.baseURL || PROVIDER_CONFIGS.perplexity.apiEndpoint,
+        model: config.model,
+        temperature: config.temperature,
+        maxTokens: config.maxTokens
+      },
+      'perplexity',
+      `Perplexity-${config.model}`
+    );
+  }
+
+  validateConfig(): boolean {
+    if (!this.config.apiKey) {
+      console.error('Perplexity config validation failed: Perplexity API key is required');
+      return false;
+    }
+
+    return super.validateConfig();
+  }
+
+  getModels(): string[] {
+    return Object.keys(PERPLEXITY_MODELS);
+  }
+
+  getCostPerToken(): { input: number; output: number } {
+    const modelInfo = PERPLEXITY_MODELS[this.model as PerplexityModel];
+    if (!modelInfo) {
+      // Fallback to Sonar Large pricing if model not found
+      return { input: 0.001, output: 0.001 };
+    }
+
+    return {
+      input: modelInfo.capabilities.costPerInputToken,
+      output: modelInfo.capabilities.costPerOutputToken
+    };
+  }
+
+  /**
+   * Perplexity rejects conversations whose user/assistant turns do not alternate
+   */
+  protected requiresAlternatingRoles(): boolean {
+    return true;
+  }
+
+  /**
+   * Perplexity already reports usage on every stream chunk, so the
+   * OpenAI-specific `stream_options` field is not sent
+   */
+  protected getStreamOptions(): Record<string, any> {
+    return {};
+  }
+
+  /**
+   * Override error handling for Perplexity-specific errors
+   */
+  protected isRateLimitError(error: any): boolean {
+    const message = error?.message?.toLowerCase() || '';
+    return (
+      super.isRateLimitError(error) ||
+      message.includes('rate limited')
+    );
+  }
+
+  protected isTokenLimitError(error: any): boolean {
+    const message = error?.message?.toLowerCase() || '';
+    return (
+      super.isTokenLimitError(error) ||
+      message.includes('exceeds the maximum') ||
+      message.includes('max_tokens')
+    );
+  }
+
+  protected isAPIKeyError(error: any): boolean {
+    const message = error?.message?.toLowerCase() || '';
+    return (
+      super.isAPIKeyError(error) ||
+      message.includes('authorization required')
+    );
+  }
+
+  /**
+   * Create a new instance with different configuration
+   */
+  static create(config: Partial<PerplexityConfig>): PerplexityProvider {
+    const fullConfig: PerplexityConfig = {
+      apiKey: config.apiKey || process.env.PERPLEXITY_API_KEY || '',
+      model: config.model || 'llama-3.1-sonar-small-128k-online',
+      temperature: config.temperature ?? 0.7,
+      maxTokens: config.maxTokens || 4000,
+      baseURL: config.baseURL || process.env.PERPLEXITY_BASE_URL || undefined
+    };
+
+    return new PerplexityProvider(fullConfig);
+  }
+}
+
+// Factory function for easy instantiation
+export function createPerplexityProvider(
+  model: PerplexityModel = 'llama-3.1-sonar-small-128k-online',
+  temperature: number = 0.7,
+  options: Partial<PerplexityConfig> = {}
+): PerplexityProvider {
+  return PerplexityProvider.create({
+    model,
+    temperature,
+    maxTokens: 4000,
+    ...options
+  });
+}
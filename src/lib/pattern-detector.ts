@@ -0,0 +1,296 @@
+import type { ConversationMessage } from '@/types/session';
+import type { EvolutionPattern } from './evolution-tracker';
+import { stripTranslations } from './comprehension';
+import { STOPWORDS } from './similarity';
+import { getTokenizer } from './tokenizers';
+
+/**
+ * Statistical detection of undeclared protocol elements. Candidates are
+ * Unicode symbol runs, ASCII operators, words that are not English (judged
+ * against the speakers' uncompressed first messages and the cl100k
+ * vocabulary, where dictionary words are a single token), word n-grams and
+ * line templates. Each is scored by how novel it is and how often, and by how
+ * many speakers, it recurs.
+ */
+
+export type DetectedPatternKind =
+  | 'glyph' // emoji and other pictographic or invented characters
+  | 'arrow'
+  | 'operator'
+  | 'abbreviation'
+  | 'coinage' // invented word: clipped, camelCase, or letters and digits mixed
+  | 'ngram'
+  | 'template'; // recurring line shape such as "w: w → w | w"
+
+export interface DetectedPattern {
+  text: string;
+  kind: DetectedPatternKind;
+  type: EvolutionPattern['type'];
+  confidence: number; // 0-1
+  messageCount: number; // Messages it occurred in so far
+  speakers: string[];
+  firstSpeaker: string;
+  firstIteration: number;
+}
+
+// Detections at or above this confidence become EvolutionTracker patterns
+export const MIN_PATTERN_CONFIDENCE = 0.6;
+
+const PATTERN_TYPES: Record<DetectedPatternKind, EvolutionPattern['type']> = {
+  glyph: 'symbol',
+  arrow: 'symbol',
+  operator: 'symbol',
+  abbreviation: 'abbreviation',
+  coinage: 'abbreviation',
+  ngram: 'protocol',
+  template: 'structure'
+};
+
+export const PATTERN_KIND_LABELS: Record<DetectedPatternKind, string> = {
+  glyph: 'glyph',
+  arrow: 'arrow',
+  operator: 'operator',
+  abbreviation: 'abbreviation',
+  coinage: 'coined word',
+  ngram: 'phrase',
+  template: 'message template'
+};
+
+// Words, Unicode symbol runs and ASCII operators, in reading order
+const ITEM = /[A-Za-z\u00c0-\u024f][A-Za-z0-9\u00c0-\u024f_'-]*|[^\x00-\x7F\u00c0-\u024f\s]+|<->|<=>|->|=>|~>|\|>|::|:=|\/\/|>>/g;
+const ARROWS = /^[\u2190-\u21ff\u27f0-\u27ff\u2900-\u297f]+$/;
+const OPERATORS = /^[\u2200-\u22ff\u2a00-\u2aff\u2300-\u23ff]+$/;
+const ASCII_ARROWS = /^(?:<->|<=>|->|=>|~>|\|>|>>)$/;
+const URL = /https?:\/\/\S+/g;
+// Characters that give a line its shape; ordinary sentence punctuation does not count
+const STRUCTURAL = /[^\sA-Za-z0-9\u00c0-\u024f.,!?'"()]/g;
+
+interface CandidateStats {
+  text: string;
+  kind: DetectedPatternKind;
+  novelty: number;
+  messages: number;
+  speakers: Set<string>;
+  firstSpeaker: string;
+  firstIteration: number;
+}
+
+interface Candidate {
+  text: string;
+  kind: DetectedPatternKind;
+  novelty: number; // 0-1, how unlike the English baseline it is
+}
+
+export class PatternDetector {
+  private stats: Map<string, CandidateStats> = new Map();
+  private baseline: Set<string> = new Set(); // Words and n-grams of each speaker's first message
+  private baselineSpeakers: Set<string> = new Set();
+  private englishTokens: Map<string, number> = new Map();
+  private english = getTokenizer('openai', 'gpt-4'); // cl100k_base
+
+  /**
+   * Record a message and return the candidates it contains, scored with the
+   * statistics up to and including it
+   */
+  observe(message: ConversationMessage): DetectedPattern[] {
+    const payload = stripTranslations(message.evolvedMessage).replace(URL, ' ');
+    const items = payload.match(ITEM) || [];
+
+    // A speaker's first message is written before any evolution and serves as the English baseline
+    if (!this.baselineSpeakers.has(message.speaker)) {
+      this.baselineSpeakers.add(message.speaker);
+      const words = items.map(item => item.toLowerCase());
+      words.forEach(word => this.baseline.add(word));
+      this.ngrams(words).forEach(gram => this.baseline.add(gram));
+    }
+
+    const candidates = new Map<string, Candidate>();
+    const add = (candidate: Candidate | null) => {
+      if (candidate) candidates.set(`${candidate.kind}:${candidate.text}`, candidate);
+    };
+
+    items.forEach(item => add(this.classifyItem(item)));
+    this.ngrams(items.map(item => item.toLowerCase()))
+      .filter(gram => this.isNovelNgram(gram))
+      .forEach(gram => add({ text: gram, kind: 'ngram', novelty: 1 }));
+    payload.split(/[.!?](?:\s+|$)|\n/).forEach(line => add(this.classifyLine(line)));
+
+    const detections: DetectedPattern[] = [];
+    candidates.forEach((candidate, key) => {
+      const stats = this.stats.get(key) || {
+        ...candidate,
+        messages: 0,
+        speakers: new Set<string>(),
+        firstSpeaker: message.speaker,
+        firstIteration: message.iteration
+      };
+      stats.messages++;
+      stats.speakers.add(message.speaker);
+      this.stats.set(key, stats);
+
+      const detection = toDetection(stats);
+      if (detection) detections.push(detection);
+    });
+
+    // A phrase that only ever occurs inside a longer recurring phrase is reported once, as the longer one
+    return detections
+      .filter(detection => detection.kind !== 'ngram' || !detections.some(other =>
+        other.kind === 'ngram' &&
+        other.text !== detection.text &&
+        other.messageCount === detection.messageCount &&
+        ` ${other.text} `.includes(` ${detection.text} `)
+      ))
+      .sort((a, b) => b.confidence - a.confidence);
+  }
+
+  private classifyItem(item: string): Candidate | null {
+    if (/^[\x00-\x7F]+$/.test(item) && !/[A-Za-z]/.test(item)) {
+      return { text: item, kind: ASCII_ARROWS.test(item) ? 'arrow' : 'operator', novelty: 0.8 };
+    }
+
+    if (!/[A-Za-z\u00c0-\u024f]/.test(item)) {
+      if (ARROWS.test(item)) return { text: item, kind: 'arrow', novelty: 1 };
+      if (OPERATORS.test(item)) return { text: item, kind: 'operator', novelty: 1 };
+      return { text: item, kind: 'glyph', novelty: 1 };
+    }
+
+    const word = item.replace(/['-]+$/, '');
+    const lower = word.toLowerCase();
+    if (word.length < 2 || this.baseline.has(lower) || STOPWORDS.has(lower)) return null;
+
+    if (/^[A-Z][A-Z0-9]{1,5}$/.test(word)) {
+      // Longer all-caps words are usually shouted English ("NOTE"), not abbreviations
+      if (word.length >= 5 && this.isEnglish(lower)) return null;
+      return { text: word, kind: 'abbreviation', novelty: 0.8 };
+    }
+
+    if (/[a-z][A-Z]|[A-Za-z]\d|\d[A-Za-z]|_/.test(word)) {
+      return { text: word, kind: 'coinage', novelty: 0.9 };
+    }
+
+    const parts = lower.split('-').filter(Boolean);
+    const novelty = Math.max(...parts.map(part => this.novelty(part)));
+    return novelty >= 0.2 ? { text: lower, kind: 'coinage', novelty } : null;
+  }
+
+  /**
+   * A sentence's shape with words and numbers abstracted away, kept when it
+   * has enough structure to be a template
+   */
+  private classifyLine(line: string): Candidate | null {
+    if (line.trim().length < 8) return null;
+
+    const skeleton = line
+      .replace(new RegExp(ITEM.source, 'g'), match => (/[A-Za-z\u00c0-\u024f]/.test(match) ? 'w' : match))
+      .replace(/\d+(?:\.\d+)?/g, 'w')
+      .replace(/\s+/g, ' ')
+      .replace(/\bw(?: w\b)+/g, 'w')
+      .trim();
+
+    const structure = skeleton.match(STRUCTURAL) || [];
+    return structure.length >= 2 && /w/.test(skeleton)
+      ? { text: skeleton, kind: 'template', novelty: 1 }
+      : null;
+  }
+
+  /**
+   * 0 for dictionary words, up to 1 for words the English vocabulary has to
+   * spell out in short pieces ("cmprsn", "xfer")
+   */
+  private novelty(word: string): number {
+    if (word.length < 3 || this.baseline.has(word) || STOPWORDS.has(word)) return 0;
+
+    const pieces = this.englishPieces(word);
+    if (pieces <= 1) return 0;
+    return Math.max(0, Math.min(1, (4 - word.length / pieces) / 2.5));
+  }
+
+  private isEnglish(word: string): boolean {
+    return this.englishPieces(word) <= 1;
+  }
+
+  private englishPieces(word: string): number {
+    let pieces = this.englishTokens.get(word);
+    if (pieces === undefined) {
+      // With the leading space, as the word appears mid-sentence
+      pieces = this.english.count(` ${word}`);
+      this.englishTokens.set(word, pieces);
+    }
+    return pieces;
+  }
+
+  private ngrams(words: string[]): string[] {
+    const grams: string[] = [];
+    for (let n = 2; n <= 3; n++) {
+      for (let i = 0; i + n <= words.length; i++) {
+        grams.push(words.slice(i, i + n).join(' '));
+      }
+    }
+    return grams;
+  }
+
+  /**
+   * Not seen in the baseline, carrying at least one content word, and with at
+   * least one component that is not English: a symbol or a word outside the
+   * dictionary. Plain phrases such as "message structure" recur in any long
+   * conversation without being protocol.
+   */
+  private isNovelNgram(gram: string): boolean {
+    if (this.baseline.has(gram)) return false;
+
+    const items = gram.split(' ');
+    return items.some(item => /[a-z\u00c0-\u024f]/.test(item) && !STOPWORDS.has(item)) &&
+      items.some(item => this.isNovelComponent(item));
+  }
+
+  private isNovelComponent(item: string): boolean {
+    if (!/[a-z\u00c0-\u024f]/.test(item)) return true;
+
+    const word = item.replace(/['-]+$/, '');
+    if (STOPWORDS.has(word) || this.baseline.has(word)) return false;
+    return word.split('-').filter(Boolean).some(part => !this.isEnglish(part));
+  }
+}
+
+/**
+ * Score a candidate; n-grams and templates only count once they recur, since
+ * a single occurrence says nothing about a convention
+ */
+function toDetection(stats: CandidateStats): DetectedPattern | null {
+  const recurrence = Math.min(1, (stats.messages - 1) / 4);
+  const shared = stats.speakers.size >= 2 ? 0.15 : 0;
+
+  let confidence: number;
+  switch (stats.kind) {
+    case 'glyph':
+    case 'arrow':
+      confidence = 0.55 * stats.novelty + 0.3 * recurrence + shared;
+      break;
+    case 'operator':
+      confidence = 0.45 * stats.novelty + 0.35 * recurrence + shared;
+      break;
+    case 'abbreviation':
+    case 'coinage':
+      confidence = stats.novelty * (0.5 + 0.35 * recurrence) + shared;
+      break;
+    case 'ngram':
+      if (stats.messages < 3) return null;
+      confidence = 0.3 + 0.4 * recurrence + shared;
+      break;
+    case 'template':
+      if (stats.messages < 2) return null;
+      confidence = 0.35 + 0.45 * recurrence + shared;
+      break;
+  }
+
+  return {
+    text: stats.text,
+    kind: stats.kind,
+    type: PATTERN_TYPES[stats.kind],
+    confidence: Math.round(Math.min(1, confidence) * 100) / 100,
+    messageCount: stats.messages,
+    speakers: Array.from(stats.speakers),
+    firstSpeaker: stats.firstSpeaker,
+    firstIteration: stats.firstIteration
+  };
+}
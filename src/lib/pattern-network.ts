@@ -0,0 +1,284 @@
+import type { CommunicationPatternData } from '@/types/analytics';
+import type { ConversationMessage } from '@/types/session';
+import type { LLMParticipant } from '@/types/llm';
+import type { EvolutionPattern } from './evolution-tracker';
+import { getProviderColor } from '@/constants/providers';
+
+/**
+ * The protocol's family tree as a graph: participants and the patterns they
+ * introduced, adopted and amended, plus lineage edges from a pattern to the
+ * earlier patterns it is built from ("CO2↓ →" extends "↓" and "→"). Every
+ * node and edge carries the iterations it was active in, so the graph can be
+ * replayed with networkAtIteration and exported for Gephi.
+ */
+
+type NetworkNode = CommunicationPatternData['nodes'][number];
+type NetworkEdge = CommunicationPatternData['edges'][number];
+
+const PATTERN_COLORS: Record<EvolutionPattern['type'], string> = {
+  symbol: '#f59e0b',
+  abbreviation: '#10b981',
+  protocol: '#3b82f6',
+  structure: '#8b5cf6'
+};
+
+// Editors that are not participants, such as a user amending the lexicon
+const EXTERNAL_COLOR = '#6b7280';
+
+export function buildPatternNetwork(
+  patterns: EvolutionPattern[],
+  messages: ConversationMessage[],
+  participants: LLMParticipant[]
+): CommunicationPatternData {
+  const nodes = new Map<string, NetworkNode>();
+  const edges = new Map<string, NetworkEdge>();
+
+  const participantNode = (speaker: string, iteration: number): string => {
+    const id = getParticipantNodeId(speaker);
+    const existing = nodes.get(id);
+    if (existing) {
+      existing.iteration = Math.min(existing.iteration, iteration);
+    } else {
+      const participant = participants.find(p => p.name === speaker);
+      nodes.set(id, {
+        id,
+        label: speaker,
+        size: 0,
+        color: participant ? getProviderColor(participant.provider) : EXTERNAL_COLOR,
+        type: 'participant',
+        iteration,
+        activity: []
+      });
+    }
+    return id;
+  };
+
+  const addEdge = (source: string, target: string, type: NetworkEdge['type'], iteration: number) => {
+    const key = `${type}:${source}:${target}`;
+    const edge = edges.get(key) || { source, target, weight: 0, type, iteration, iterations: [] };
+    edge.iterations.push(iteration);
+    edge.iteration = Math.min(edge.iteration, iteration);
+    edge.weight = edge.iterations.length;
+    edges.set(key, edge);
+  };
+
+  for (const message of messages) {
+    if (message.kind === 'moderation') continue;
+    const id = participantNode(message.speaker, message.iteration);
+    nodes.get(id)!.activity.push(message.iteration);
+  }
+
+  for (const pattern of patterns) {
+    const id = getPatternNodeId(pattern);
+    const introducer = participantNode(pattern.firstUsedBy, pattern.firstUsedIn);
+    const node: NetworkNode = {
+      id,
+      label: pattern.pattern,
+      size: 0,
+      color: PATTERN_COLORS[pattern.type],
+      type: pattern.type === 'symbol' ? 'symbol' : 'pattern',
+      iteration: pattern.firstUsedIn,
+      activity: [pattern.firstUsedIn],
+      meaning: pattern.meaning,
+      patternType: pattern.type
+    };
+    nodes.set(id, node);
+    addEdge(introducer, id, 'introduces', pattern.firstUsedIn);
+
+    for (const event of pattern.events || []) {
+      if (event.type === 'used') {
+        node.activity.push(event.iteration);
+        const speaker = participantNode(event.speaker, event.iteration);
+        addEdge(speaker, id, event.speaker === pattern.firstUsedBy ? 'introduces' : 'adopts', event.iteration);
+      } else if (event.type === 'amended') {
+        addEdge(participantNode(event.speaker, event.iteration), id, 'modifies', event.iteration);
+      }
+    }
+  }
+
+  // A pattern extends each earlier (or simultaneous) pattern whose text it contains
+  for (const child of patterns) {
+    for (const parent of patterns) {
+      if (parent === child || parent.firstUsedIn > child.firstUsedIn) continue;
+      if (!extendsPattern(child.pattern, parent.pattern)) continue;
+      addEdge(getPatternNodeId(child), getPatternNodeId(parent), 'modifies', child.firstUsedIn);
+    }
+  }
+
+  nodes.forEach(node => {
+    node.activity.sort((a, b) => a - b);
+    node.size = node.activity.length;
+  });
+
+  return {
+    nodes: Array.from(nodes.values()),
+    edges: Array.from(edges.values())
+  };
+}
+
+/**
+ * The network as it stood after `iteration`: later nodes and edges are
+ * dropped and sizes and weights only count activity up to then
+ */
+export function networkAtIteration(network: CommunicationPatternData, iteration: number): CommunicationPatternData {
+  return {
+    nodes: network.nodes
+      .filter(node => node.iteration <= iteration)
+      .map(node => {
+        const activity = node.activity.filter(i => i <= iteration);
+        return { ...node, activity, size: activity.length };
+      }),
+    edges: network.edges
+      .filter(edge => edge.iteration <= iteration)
+      .map(edge => {
+        const iterations = edge.iterations.filter(i => i <= iteration);
+        return { ...edge, iterations, weight: iterations.length };
+      })
+  };
+}
+
+export function getNetworkIterationRange(network: CommunicationPatternData): { first: number; last: number } {
+  const iterations = [
+    ...network.nodes.flatMap(node => [node.iteration, ...node.activity]),
+    ...network.edges.flatMap(edge => edge.iterations)
+  ];
+  return iterations.length > 0
+    ? { first: Math.min(...iterations), last: Math.max(...iterations) }
+    : { first: 0, last: 0 };
+}
+
+/**
+ * GraphML for Gephi, yEd and networkx. Iterations are plain attributes; use
+ * GEXF to replay the network on Gephi's timeline.
+ */
+export function toGraphML(network: CommunicationPatternData): string {
+  const keys = [
+    ['label', 'node', 'label', 'string'],
+    ['kind', 'node', 'type', 'string'],
+    ['patternType', 'node', 'patternType', 'string'],
+    ['meaning', 'node', 'meaning', 'string'],
+    ['size', 'node', 'size', 'double'],
+    ['color', 'node', 'color', 'string'],
+    ['iteration', 'node', 'iteration', 'int'],
+    ['edgeKind', 'edge', 'type', 'string'],
+    ['weight', 'edge', 'weight', 'double'],
+    ['edgeIteration', 'edge', 'iteration', 'int']
+  ];
+
+  const data = (key: string, value: string | number | undefined) =>
+    value === undefined ? '' : `\n      <data key="${key}">${escapeXml(String(value))}</data>`;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    ...keys.map(([id, domain, name, type]) =>
+      `  <key id="${id}" for="${domain}" attr.name="${name}" attr.type="${type}"/>`),
+    '  <graph id="pattern-network" edgedefault="directed">',
+    ...network.nodes.map(node =>
+      `    <node id="${escapeXml(node.id)}">` +
+      data('label', node.label) +
+      data('kind', node.type) +
+      data('patternType', node.patternType) +
+      data('meaning', node.meaning) +
+      data('size', node.size) +
+      data('color', node.color) +
+      data('iteration', node.iteration) +
+      '\n    </node>'),
+    ...network.edges.map((edge, index) =>
+      `    <edge id="e${index}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">` +
+      data('edgeKind', edge.type) +
+      data('weight', edge.weight) +
+      data('edgeIteration', edge.iteration) +
+      '\n    </edge>'),
+    '  </graph>',
+    '</graphml>'
+  ].join('\n');
+}
+
+/**
+ * GEXF 1.3 as a dynamic graph: every node and edge starts at the iteration it
+ * first appeared in, so Gephi's timeline replays the protocol's growth
+ */
+export function toGEXF(network: CommunicationPatternData, description = 'LLM communication pattern network'): string {
+  const nodeAttributes = ['type', 'patternType', 'meaning'];
+
+  const attvalues = (values: Array<[number, string | undefined]>) => {
+    const present = values.filter(([, value]) => value !== undefined);
+    if (present.length === 0) return '';
+    return '\n        <attvalues>' +
+      present.map(([id, value]) => `\n          <attvalue for="${id}" value="${escapeXml(value!)}"/>`).join('') +
+      '\n        </attvalues>';
+  };
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">',
+    '  <meta>',
+    '    <creator>llm-talk</creator>',
+    `    <description>${escapeXml(description)}</description>`,
+    '  </meta>',
+    '  <graph defaultedgetype="directed" mode="dynamic" timeformat="integer">',
+    '    <attributes class="node">',
+    ...nodeAttributes.map((name, id) => `      <attribute id="${id}" title="${name}" type="string"/>`),
+    '    </attributes>',
+    '    <attributes class="edge">',
+    '      <attribute id="0" title="type" type="string"/>',
+    '    </attributes>',
+    '    <nodes>',
+    ...network.nodes.map(node => {
+      const { r, g, b } = hexToRgb(node.color);
+      return `      <node id="${escapeXml(node.id)}" label="${escapeXml(node.label)}" start="${node.iteration}">` +
+        attvalues([[0, node.type], [1, node.patternType], [2, node.meaning]]) +
+        `\n        <viz:size value="${Math.max(1, node.size)}"/>` +
+        `\n        <viz:color r="${r}" g="${g}" b="${b}"/>` +
+        '\n      </node>';
+    }),
+    '    </nodes>',
+    '    <edges>',
+    ...network.edges.map((edge, index) =>
+      `      <edge id="e${index}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}" ` +
+      `weight="${edge.weight}" start="${edge.iteration}">` +
+      attvalues([[0, edge.type]]) +
+      '\n      </edge>'),
+    '    </edges>',
+    '  </graph>',
+    '</gexf>'
+  ].join('\n');
+}
+
+export function getParticipantNodeId(speaker: string): string {
+  return `participant:${speaker}`;
+}
+
+export function getPatternNodeId(pattern: EvolutionPattern): string {
+  return `pattern:${pattern.id}`;
+}
+
+/**
+ * Whether `child` contains `parent` as a whole unit: words must match on word
+ * boundaries, symbols anywhere. Phrases are stored lowercase, so case is ignored.
+ */
+function extendsPattern(child: string, parent: string): boolean {
+  if (child.length <= parent.length) return false;
+
+  const lowerChild = child.toLowerCase();
+  const lowerParent = parent.toLowerCase();
+  if (!/[A-Za-z0-9\u00c0-\u024f]/.test(parent)) return lowerChild.includes(lowerParent);
+
+  const escaped = lowerParent.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^a-z0-9_\u00c0-\u024f])${escaped}(?![a-z0-9_\u00c0-\u024f])`).test(lowerChild);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function hexToRgb(hex: string): { r: number; g: number; b: number } {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return { r: (value >> 16) & 255, g: (value >> 8) & 255, b: value & 255 };
+}
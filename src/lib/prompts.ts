@@ -1,5 +1,7 @@
 import type { ConversationScenario } from '@/types/session';
+import type { LLMProvider } from '@/types/llm';
 import { SCENARIO_CONFIGS } from '@/constants/scenarios';
+import { getTokenCount } from './token-counter';
 
 /**
  * Core prompt templates for LLM communication evolution
@@ -45,7 +47,8 @@ Remember: Your goal is to communicate effectively while gradually developing mor
 }
 
 /**
- * Generate context-aware prompt with conversation history
+ * Generate the speaker prompt. The conversation history is not embedded; it is
+ * sent alongside as the request context (see context-manager).
  */
 export function generateConversationPrompt(context: PromptContext): string {
   const basePrompt = generateSystemPrompt(context);
@@ -54,15 +57,10 @@ export function generateConversationPrompt(context: PromptContext): string {
     return `${basePrompt}\n\nThis is the start of the conversation. Begin with your opening thoughts on: "${context.topic}"`;
   }
 
-  const recentMessages = context.previousMessages.slice(-5); // Last 5 messages for context
-  const conversationHistory = recentMessages
-    .map(msg => `${msg.speaker} (iteration ${msg.iteration}): ${msg.message}`)
-    .join('\n\n');
-
   return `${basePrompt}
 
 CONVERSATION WITH OTHER AIs:
-${conversationHistory}
+The messages above are the conversation so far: the shared lexicon, a digest of earlier turns, and the most recent messages.
 
 IMPORTANT: You are now in direct communication with other AI systems. They have been evolving their communication methods, and you should:
 1. Build upon their evolved communication patterns
@@ -74,6 +72,50 @@ IMPORTANT: You are now in direct communication with other AI systems. They have
 Respond to the other AIs using their evolved communication methods while adding your own innovations.`;
 }
 
+/**
+ * How speakers read and amend the shared lexicon sent in their context
+ */
+export function generateLexiconInstructions(): string {
+  return `SHARED LEXICON:
+The SHARED LEXICON in the messages above is the dictionary all participants share. Use its meanings exactly.
+To add a term or change what one means, put it on its own line as:
+LEXICON: <symbol> = <meaning>
+The amendment applies from your message onward for every participant.`;
+}
+
+/**
+ * Generate the prompt for a moderator turn. The moderator does not take part
+ * in the evolution itself; it reviews the protocol built so far and steers.
+ */
+export function generateModeratorPrompt(
+  context: PromptContext,
+  patterns: Array<{ pattern: string; meaning: string; firstUsedBy: string; adoptionCount: number }>
+): string {
+  // The conversation itself is sent as context, so it is only referred to here
+  const conversationHistory = context.previousMessages && context.previousMessages.length > 0
+    ? 'The messages above are the conversation so far: the shared lexicon, a digest of earlier turns, and the most recent messages.'
+    : 'No messages yet.';
+
+  const protocolState = patterns.length > 0
+    ? patterns.map(p => `- ${p.pattern} = ${p.meaning} (introduced by ${p.firstUsedBy}, adopted by ${p.adoptionCount} others)`).join('\n')
+    : '- No shared patterns established yet';
+
+  return `You are "${context.participantName}", the MODERATOR of a conversation between AI systems about: "${context.topic}"
+They are evolving a more efficient shared communication protocol. You do not take part in that evolution.
+
+CURRENT PROTOCOL STATE (iteration ${context.iteration} of ${context.maxIterations}):
+${protocolState}
+
+CONVERSATION:
+${conversationHistory}
+
+YOUR TASK:
+1. Summarize the protocol state in a few lines of plain language
+2. Call out misunderstandings: symbols used inconsistently, meanings that drifted, messages others could not decode
+3. Steer the discussion back to the topic if it drifted, or suggest the next open question
+4. Keep it brief and do not introduce new symbols or abbreviations yourself${context.customPrompt ? `\n\nADDITIONAL INSTRUCTIONS:\n${context.customPrompt}` : ''}`;
+}
+
 /**
  * Get evolution phase based on iteration progress
  */
@@ -155,6 +197,21 @@ EVOLVED: [the original evolved message]
 TRANSLATION: [clear explanation in standard language]`;
 }
 
+/**
+ * Generate decode-test prompt: the decoder expands another participant's
+ * message without seeing its [decode: ...] translation
+ */
+export function generateDecodePrompt(authorName: string, strippedMessage: string): string {
+  return `COMPREHENSION CHECK:
+
+${authorName} just sent this message (their own translation has been removed):
+
+"${strippedMessage}"
+
+Expand it into plain English: state everything you understand it to mean, including any symbols or abbreviations.
+Do not reply to it, evaluate it, or add new ideas. Respond with the expansion only.`;
+}
+
 /**
  * Generate meta-communication prompt for advanced phases
  */
@@ -293,12 +350,17 @@ export function generateEvolutionMarkerPrompt(
 /**
  * Validate prompt length and complexity
  */
-export function validatePrompt(prompt: string, maxTokens: number = 4000): {
+export function validatePrompt(
+  prompt: string,
+  maxTokens: number = 4000,
+  provider?: LLMProvider,
+  model?: string
+): {
   isValid: boolean;
   estimatedTokens: number;
   issues: string[];
 } {
-  const estimatedTokens = Math.ceil(prompt.length / 4); // Rough estimation
+  const estimatedTokens = getTokenCount(prompt, provider, model);
   const issues: string[] = [];
 
   if (estimatedTokens > maxTokens) {
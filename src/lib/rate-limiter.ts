@@ -0,0 +1,228 @@
+import { RATE_LIMITS, TOKEN_RATE_LIMITS } from '@/constants/providers';
+import type { LLMProvider } from '@/types/llm';
+
+const MINUTE_MS = 60000;
+
+export interface RateLimiterStatus {
+  provider: LLMProvider;
+  model: string;
+  requestsPerMinute: number | null;
+  tokensPerMinute: number | null;
+  availableRequests: number | null;
+  availableTokens: number | null;
+  queued: number;
+  totalRequests: number;
+  totalTokens: number;
+  totalWaitMs: number;
+}
+
+/**
+ * Handed out by acquire(); settle() corrects the token reservation once the
+ * provider reports actual usage
+ */
+export interface RateLimitPermit {
+  waitedMs: number;
+  settle(actualTokens: number): void;
+}
+
+/**
+ * Classic token bucket refilled continuously at `perMinute / 60s`
+ */
+class TokenBucket {
+  readonly capacity: number;
+  private available: number;
+  private lastRefill = Date.now();
+
+  constructor(perMinute: number) {
+    this.capacity = perMinute;
+    this.available = perMinute;
+  }
+
+  get tokens(): number {
+    this.refill();
+    return this.available;
+  }
+
+  /**
+   * Milliseconds until `amount` can be taken (0 when available now)
+   */
+  msUntil(amount: number): number {
+    const needed = Math.min(amount, this.capacity);
+    const missing = needed - this.tokens;
+    return missing <= 0 ? 0 : Math.ceil(missing / (this.capacity / MINUTE_MS));
+  }
+
+  take(amount: number): void {
+    this.refill();
+    this.available -= Math.min(amount, this.capacity);
+  }
+
+  /**
+   * Give back (positive) or take extra (negative) tokens; the balance may go
+   * negative when a call used more than it reserved
+   */
+  adjust(amount: number): void {
+    this.refill();
+    this.available = Math.min(this.capacity, this.available + amount);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.available = Math.min(
+      this.capacity,
+      this.available + ((now - this.lastRefill) * this.capacity) / MINUTE_MS
+    );
+    this.lastRefill = now;
+  }
+}
+
+interface PendingAcquire {
+  tokens: number;
+  enqueuedAt: number;
+  resolve: (permit: RateLimitPermit) => void;
+}
+
+/**
+ * Requests-per-minute and tokens-per-minute buckets for one provider/model.
+ * Callers queue in FIFO order instead of failing when a bucket is empty.
+ */
+class ModelRateLimiter {
+  private requestBucket: TokenBucket | null;
+  private tokenBucket: TokenBucket | null;
+  private queue: PendingAcquire[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private totalRequests = 0;
+  private totalTokens = 0;
+  private totalWaitMs = 0;
+
+  constructor(
+    readonly provider: LLMProvider,
+    readonly model: string,
+    requestsPerMinute: number | null,
+    tokensPerMinute: number | null
+  ) {
+    this.requestBucket = requestsPerMinute ? new TokenBucket(requestsPerMinute) : null;
+    this.tokenBucket = tokensPerMinute ? new TokenBucket(tokensPerMinute) : null;
+  }
+
+  acquire(tokens: number): Promise<RateLimitPermit> {
+    return new Promise(resolve => {
+      this.queue.push({ tokens, enqueuedAt: Date.now(), resolve });
+      this.drain();
+    });
+  }
+
+  getStatus(): RateLimiterStatus {
+    return {
+      provider: this.provider,
+      model: this.model,
+      requestsPerMinute: this.requestBucket?.capacity ?? null,
+      tokensPerMinute: this.tokenBucket?.capacity ?? null,
+      availableRequests: this.requestBucket ? Math.floor(this.requestBucket.tokens) : null,
+      availableTokens: this.tokenBucket ? Math.floor(this.tokenBucket.tokens) : null,
+      queued: this.queue.length,
+      totalRequests: this.totalRequests,
+      totalTokens: this.totalTokens,
+      totalWaitMs: this.totalWaitMs
+    };
+  }
+
+  /**
+   * Release queued callers while both buckets allow it, then sleep until the
+   * head of the queue can proceed
+   */
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    while (this.queue.length > 0) {
+      const next = this.queue[0];
+      const waitMs = Math.max(
+        this.requestBucket?.msUntil(1) ?? 0,
+        this.tokenBucket?.msUntil(next.tokens) ?? 0
+      );
+
+      if (waitMs > 0) {
+        this.timer = setTimeout(() => this.drain(), waitMs);
+        return;
+      }
+
+      this.queue.shift();
+      this.requestBucket?.take(1);
+      this.tokenBucket?.take(next.tokens);
+
+      const waitedMs = Date.now() - next.enqueuedAt;
+      this.totalRequests++;
+      this.totalTokens += next.tokens;
+      this.totalWaitMs += waitedMs;
+
+      let settled = false;
+      next.resolve({
+        waitedMs,
+        settle: (actualTokens: number) => {
+          // Unknown usage (0) keeps the full reservation
+          if (settled || actualTokens <= 0) return;
+          settled = true;
+          this.tokenBucket?.adjust(next.tokens - actualTokens);
+          this.totalTokens += actualTokens - next.tokens;
+        }
+      });
+    }
+  }
+}
+
+/**
+ * Process-wide limiter keyed by provider/model, driven by RATE_LIMITS and
+ * TOKEN_RATE_LIMITS. Models without limits pass straight through.
+ */
+export class RateLimiter {
+  private limiters: Map<string, ModelRateLimiter> = new Map();
+
+  async acquire(provider: LLMProvider, model: string, estimatedTokens: number): Promise<RateLimitPermit> {
+    if (process.env.LLM_RATE_LIMITER_ENABLED === 'false') {
+      return { waitedMs: 0, settle: () => undefined };
+    }
+
+    const permit = await this.getLimiter(provider, model).acquire(Math.max(0, estimatedTokens));
+    if (permit.waitedMs > 0) {
+      console.log(`[${provider}] Rate limiter delayed ${model} request by ${permit.waitedMs}ms`);
+    }
+    return permit;
+  }
+
+  getStatus(): RateLimiterStatus[] {
+    return Array.from(this.limiters.values()).map(limiter => limiter.getStatus());
+  }
+
+  private getLimiter(provider: LLMProvider, model: string): ModelRateLimiter {
+    const key = `${provider}:${model}`;
+    let limiter = this.limiters.get(key);
+
+    if (!limiter) {
+      const requestLimits = RATE_LIMITS[provider as keyof typeof RATE_LIMITS] as Record<string, number> | undefined;
+      const tokenLimits = TOKEN_RATE_LIMITS[provider as keyof typeof TOKEN_RATE_LIMITS] as Record<string, number> | undefined;
+
+      limiter = new ModelRateLimiter(
+        provider,
+        model,
+        requestLimits?.[model] ?? null,
+        tokenLimits?.[model] ?? null
+      );
+      this.limiters.set(key, limiter);
+    }
+
+    return limiter;
+  }
+}
+
+// Kept on globalThis so every route handler (and dev-mode reloads) share the same buckets
+const globalForRateLimiter = globalThis as unknown as { llmRateLimiter?: RateLimiter };
+
+export function getRateLimiter(): RateLimiter {
+  if (!globalForRateLimiter.llmRateLimiter) {
+    globalForRateLimiter.llmRateLimiter = new RateLimiter();
+  }
+  return globalForRateLimiter.llmRateLimiter;
+}
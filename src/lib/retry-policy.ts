@@ -0,0 +1,129 @@
+import { LLMProviderError, RateLimitError } from '@/types/llm';
+import type { RetryAttempt, RetryPolicyConfig } from '@/types/session';
+import { sleep } from './utils';
+
+export const DEFAULT_RETRY_POLICY: RetryPolicyConfig = {
+  maxAttempts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  budgetMs: 120000
+};
+
+/**
+ * Default policy, overridable through LLM_RETRY_* environment variables
+ */
+export function getDefaultRetryPolicy(): RetryPolicyConfig {
+  const fromEnv = (name: string, fallback: number): number => {
+    const value = parseInt(process.env[name] || '', 10);
+    return isNaN(value) || value < 0 ? fallback : value;
+  };
+
+  return {
+    maxAttempts: Math.max(1, fromEnv('LLM_RETRY_MAX_ATTEMPTS', DEFAULT_RETRY_POLICY.maxAttempts)),
+    baseDelayMs: fromEnv('LLM_RETRY_BASE_DELAY_MS', DEFAULT_RETRY_POLICY.baseDelayMs),
+    maxDelayMs: fromEnv('LLM_RETRY_MAX_DELAY_MS', DEFAULT_RETRY_POLICY.maxDelayMs),
+    budgetMs: fromEnv('LLM_RETRY_BUDGET_MS', DEFAULT_RETRY_POLICY.budgetMs)
+  };
+}
+
+/**
+ * Thrown when an operation keeps failing; carries every attempt for diagnostics
+ */
+export class RetryExhaustedError extends Error {
+  constructor(
+    public attempts: RetryAttempt[],
+    public lastError: unknown
+  ) {
+    super(
+      `${lastError instanceof Error ? lastError.message : 'Unknown error'} ` +
+      `(gave up after ${attempts.length} attempt${attempts.length === 1 ? '' : 's'})`
+    );
+    this.name = 'RetryExhaustedError';
+  }
+}
+
+export interface RetryResult<T> {
+  result: T;
+  attempts: RetryAttempt[];
+}
+
+/**
+ * Run `operation` until it succeeds, the error is not retryable, or the
+ * attempt/delay budget is spent.
+ *
+ * Only typed provider errors are retried: `RateLimitError` waits for its
+ * `retryAfter` when the provider sent one, other retryable
+ * `LLMProviderError`s back off exponentially (base * 2^n with jitter,
+ * capped at maxDelayMs). `budgetMs` bounds the total time spent waiting.
+ */
+export async function executeWithRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicyConfig = getDefaultRetryPolicy(),
+  onRetry?: (attempt: RetryAttempt) => void
+): Promise<RetryResult<T>> {
+  const attempts: RetryAttempt[] = [];
+  let waitedMs = 0;
+
+  for (let attempt = 1; ; attempt++) {
+    const startedAt = Date.now();
+
+    try {
+      const result = await operation(attempt);
+      attempts.push({
+        attempt,
+        startedAt: new Date(startedAt).toISOString(),
+        durationMs: Date.now() - startedAt,
+        outcome: 'success'
+      });
+      return { result, attempts };
+    } catch (error) {
+      const record: RetryAttempt = {
+        attempt,
+        startedAt: new Date(startedAt).toISOString(),
+        durationMs: Date.now() - startedAt,
+        outcome: 'error',
+        errorType: error instanceof Error ? error.name : 'Unknown',
+        error: error instanceof Error ? error.message : String(error)
+      };
+      attempts.push(record);
+
+      const delayMs = getRetryDelay(error, attempt, policy);
+      if (
+        delayMs === null ||
+        attempt >= policy.maxAttempts ||
+        waitedMs + delayMs > policy.budgetMs
+      ) {
+        throw new RetryExhaustedError(attempts, error);
+      }
+
+      record.delayMs = delayMs;
+      onRetry?.(record);
+      console.warn(`Attempt ${attempt} failed (${record.error}), retrying in ${delayMs}ms`);
+
+      await sleep(delayMs);
+      waitedMs += delayMs;
+    }
+  }
+}
+
+/**
+ * Delay before the next attempt, or null when the error should not be retried
+ */
+export function getRetryDelay(
+  error: unknown,
+  attempt: number,
+  policy: RetryPolicyConfig
+): number | null {
+  if (!(error instanceof LLMProviderError) || !error.retryable) {
+    return null;
+  }
+
+  if (error instanceof RateLimitError && error.retryAfter !== undefined) {
+    return error.retryAfter * 1000;
+  }
+
+  const exponential = policy.baseDelayMs * Math.pow(2, attempt - 1);
+  // Jitter keeps concurrent sessions from retrying in lockstep
+  const jittered = exponential / 2 + Math.random() * (exponential / 2);
+  return Math.round(Math.min(policy.maxDelayMs, jittered));
+}
@@ -1,14 +1,48 @@
 import { createOpenAIProvider } from './llm-providers/openai';
-import { generateConversationPrompt, generateIterativeOptimizationPrompt } from './prompts';
-import { analyzeTokenEfficiency } from './token-counter';
-import { EvolutionTracker } from './evolution-tracker';
+import { createClaudeProvider } from './llm-providers/claude';
+import { createGeminiProvider } from './llm-providers/gemini';
+import { createPerplexityProvider } from './llm-providers/perplexity';
+import { createMockProvider, isMockProviderEnabled } from './llm-providers/mock';
+import {
+  createOpenAICompatibleProvider,
+  resolveOpenAICompatibleConfig
+} from './llm-providers/openai-compatible';
+import {
+  generateConversationPrompt,
+  generateIterativeOptimizationPrompt,
+  generateModeratorPrompt,
+  generateDecodePrompt,
+  generateLexiconInstructions
+} from './prompts';
+import { analyzeCompressionAtFidelity, analyzeTokenEfficiency, calculateParticipantCost, getTokenCount } from './token-counter';
+import { EvolutionTracker, getPatternId } from './evolution-tracker';
+import type { EvolutionPattern } from './evolution-tracker';
+import { executeWithRetry, getDefaultRetryPolicy } from './retry-policy';
+import { scoreFidelity, selectDecoder, stripTranslations } from './comprehension';
+import { getSimilarityScorer } from './similarity';
+import { payloadTokensOf, scorePayloadEfficiency } from './efficiency';
+import { BudgetExceededError, checkBudget, validateBudget } from './budget';
+import { buildContextWindow, getHistoryBudget } from './context-manager';
+import { getLexiconIteration, lexiconRowToPattern, patternToLexiconRow } from './lexicon';
+import { DEFAULT_WINDOW_ROUNDS, describeDialects, measureConvergenceWindow } from './convergence';
+import {
+  getModeratorInstructions,
+  getScheduledModerator,
+  getSpeakers,
+  selectSpeaker,
+  validateTurnTakingConfig
+} from './turn-taking';
 import { 
   createSession, 
   createParticipants, 
   addMessage, 
-
+  updateSession,
+  mergeSessionConfig,
   completeSession,
-  getSessionWithDetails 
+  getSessionWithDetails,
+  getLexiconEntries,
+  upsertLexiconEntries,
+  createAnalyticsSnapshot
 } from './database/operations';
 import type { 
   SessionState, 
@@ -16,25 +50,59 @@ import type {
   ConversationMessage, 
   SessionStatus,
   StartSessionRequest,
-  SendMessageRequest
+  SendMessageRequest,
+  SendMessageOptions,
+  ComprehensionCheck,
+  SemanticFidelity,
+  SessionStopReason,
+  TokenCount
 } from '@/types/session';
-import type { LLMParticipant } from '@/types/llm';
+import type { LLMParticipant, LLMRequest, LLMResponse } from '@/types/llm';
+import type { PatternAnalysis } from '@/types/analytics';
+import { getModelInfo } from '@/constants/providers';
 import type { 
   DatabaseSession, 
   DatabaseParticipant, 
   InsertSession, 
-  InsertParticipant 
+  InsertParticipant,
+  Json
 } from '@/types/database';
 
+/**
+ * Allowed session status transitions; anything not listed is rejected
+ */
+const SESSION_TRANSITIONS: Record<SessionStatus, SessionStatus[]> = {
+  idle: ['running'],
+  running: ['paused', 'completed', 'stopped', 'error'],
+  paused: ['running', 'stopped', 'error'],
+  completed: [],
+  stopped: [],
+  error: []
+};
+
+// Per-turn token assumptions for the projected cost; prompts carry the recent conversation
+const PROJECTED_PROMPT_TOKENS = 1500;
+const PROJECTED_COMPLETION_TOKENS = 300;
+
+// Completion cap for a decode test; its context is sized to leave room for it
+const DECODE_MAX_TOKENS = 1000;
+
+// Provider usage (prompt/completion) in the input/output shape messages are stored with
+function toTokenCount(usage: LLMResponse['tokenCount']): TokenCount {
+  return { input: usage.prompt, output: usage.completion, total: usage.total };
+}
+
 /**
  * Core session management class that handles LLM conversations
  */
 export class SessionManager {
   private currentSession: SessionState | null = null;
   private providers: Map<string, any> = new Map();
+  private participantProviders: Map<string, any> = new Map(); // Per-participant endpoints (openai-compatible)
   private messageHistory: ConversationMessage[] = [];
   private isProcessing = false;
   private evolutionTracker: EvolutionTracker | null = null;
+  private lexiconKeys: Set<string> = new Set(); // Pattern ids already stored in lexicon_entries
 
   constructor() {
     // Only initialize providers on server-side
@@ -51,8 +119,27 @@ export class SessionManager {
     if (process.env.OPENAI_API_KEY) {
       this.providers.set('openai', createOpenAIProvider());
     }
+
+    // Initialize Claude provider if API key is available
+    if (process.env.ANTHROPIC_API_KEY) {
+      this.providers.set('claude', createClaudeProvider());
+    }
+
+    // Initialize Gemini provider if API key is available
+    if (process.env.GOOGLE_API_KEY) {
+      this.providers.set('gemini', createGeminiProvider());
+    }
+
+    // Initialize Perplexity provider if API key is available
+    if (process.env.PERPLEXITY_API_KEY) {
+      this.providers.set('perplexity', createPerplexityProvider());
+    }
+
+    // Initialize offline mock provider when explicitly enabled (no API key needed)
+    if (isMockProviderEnabled()) {
+      this.providers.set('mock', createMockProvider());
+    }
     
-    // TODO: Add other providers (Claude, Gemini, Perplexity) when implemented
     console.log(`Initialized ${this.providers.size} LLM providers`);
   }
 
@@ -68,6 +155,22 @@ export class SessionManager {
       // Validate participants have available providers
       this.validateParticipants(request.participants);
 
+      const turnTakingError = validateTurnTakingConfig(request.turnTaking, request.participants);
+      if (turnTakingError) {
+        throw new Error(turnTakingError);
+      }
+
+      const budgetError = validateBudget(request.budget);
+      if (budgetError) {
+        throw new Error(budgetError);
+      }
+
+      const projectedCost = this.estimateSessionCost(
+        request.participants,
+        request.maxIterations,
+        request.moderationInterval
+      );
+
       // Create session in database
       const sessionData: InsertSession = {
         topic: request.topic,
@@ -76,7 +179,15 @@ export class SessionManager {
         config: {
           participants: request.participants as any,
           customPrompt: request.customPrompt,
-          estimatedCost: this.estimateSessionCost(request.participants, request.maxIterations)
+          autoMode: request.autoMode ?? false,
+          autoModeDelay: request.autoModeDelay,
+          retryPolicy: request.retryPolicy,
+          turnTaking: request.turnTaking,
+          moderationInterval: request.moderationInterval,
+          comprehensionChecks: request.comprehensionChecks,
+          similarityScorer: request.similarityScorer,
+          budget: request.budget,
+          estimatedCost: projectedCost
         } as any
       };
 
@@ -89,7 +200,7 @@ export class SessionManager {
         provider: p.provider,
         model: p.model,
         temperature: p.temperature,
-        config: p.config || {}
+        config: { ...(p.config || {}), role: p.role || 'speaker' }
       }));
 
       const dbParticipants = await createParticipants(participantData);
@@ -103,27 +214,42 @@ export class SessionManager {
           scenario: request.scenario,
           participants: request.participants,
           maxIterations: request.maxIterations,
-          customPrompt: request.customPrompt
+          customPrompt: request.customPrompt,
+          autoMode: request.autoMode ?? false,
+          autoModeDelay: request.autoModeDelay,
+          retryPolicy: request.retryPolicy,
+          turnTaking: request.turnTaking,
+          moderationInterval: request.moderationInterval,
+          comprehensionChecks: request.comprehensionChecks,
+          similarityScorer: request.similarityScorer,
+          budget: request.budget
         },
         messages: [],
         analytics: {
           totalTokens: 0,
           averageTokensPerMessage: 0,
           tokenEfficiencyTrend: [],
+          payloadEfficiencyTrend: [],
           participantStats: dbParticipants.map(p => ({
             participantId: p.id,
             name: p.name,
             provider: p.provider,
             messageCount: 0,
             totalTokens: 0,
+            totalCost: 0,
             averageTokens: 0,
             averageResponseTime: 0,
             efficiencyTrend: [],
+            payloadEfficiencyTrend: [],
             innovationScore: 0
           })),
           evolutionMarkers: [],
           efficiencyImprovement: 0,
-          communicationPatterns: []
+          communicationPatterns: [],
+          fidelityTrend: [],
+          compressionAtFidelity: 0,
+          totalCost: 0,
+          projectedCost
         },
         currentIteration: 0,
         participants: request.participants.map((p, index) => ({
@@ -138,6 +264,7 @@ export class SessionManager {
       
       // Initialize evolution tracker for new session
       this.evolutionTracker = new EvolutionTracker();
+      this.lexiconKeys = new Set();
       
       console.log(`Session started: ${this.currentSession.id}`);
       
@@ -151,7 +278,14 @@ export class SessionManager {
   /**
    * Send the next message in the conversation
    */
-  async sendMessage(request: SendMessageRequest): Promise<ConversationMessage> {
+  async sendMessage(
+    request: SendMessageRequest,
+    options: SendMessageOptions = {}
+  ): Promise<ConversationMessage> {
+    if (this.currentSession?.status === 'paused') {
+      throw new Error('Session is paused. Resume it before sending messages.');
+    }
+
     if (!this.currentSession || this.currentSession.status !== 'running') {
       throw new Error('No active session. Start a session first.');
     }
@@ -167,28 +301,75 @@ export class SessionManager {
     this.isProcessing = true;
 
     try {
-      const nextIteration = this.currentSession.currentIteration + 1;
-      const currentSpeaker = this.getCurrentSpeaker(nextIteration);
+      // Pick up lexicon edits made through the API since the last turn
+      await this.refreshLexicon();
+
+      // A due moderator turn is attached to the iteration it follows instead of starting a new one
+      const moderator = getScheduledModerator(
+        this.currentSession.participants,
+        this.currentSession.messages,
+        this.currentSession.currentIteration,
+        this.currentSession.config.maxIterations,
+        this.currentSession.config.moderationInterval
+      );
+      const kind = moderator ? 'moderation' : 'message';
+      const nextIteration = moderator
+        ? this.currentSession.currentIteration
+        : this.currentSession.currentIteration + 1;
+      const currentSpeaker = moderator || this.getCurrentSpeaker(nextIteration, request.currentSpeaker);
       
       if (!currentSpeaker) {
         throw new Error('Unable to determine current speaker');
       }
 
       // Generate prompt for current speaker
-      const prompt = this.generatePromptForSpeaker(currentSpeaker, nextIteration);
+      const prompt = moderator
+        ? this.generateModeratorPromptFor(moderator, nextIteration)
+        : this.generatePromptForSpeaker(currentSpeaker, nextIteration);
       
       // Get LLM provider for current speaker
       const provider = this.getProviderForParticipant(currentSpeaker);
+      const maxTokens = request.contextLimit || 4000; // Default to 4000 tokens if not specified
+      const context = this.buildConversationContext(currentSpeaker, prompt, maxTokens);
+
+      // Stops the session instead of making a call that would cross its budget
+      await this.enforceBudget(
+        currentSpeaker,
+        prompt,
+        context,
+        !moderator && Boolean(this.currentSession.config.comprehensionChecks)
+      );
+
+      options.onStart?.({
+        speaker: currentSpeaker.name,
+        participantId: currentSpeaker.id!,
+        iteration: nextIteration
+      });
       
-      // Send message to LLM
+      // Send message to LLM (streaming when requested and supported by the model)
       const startTime = Date.now();
-      const llmResponse = await provider.sendMessage({
+      const llmRequest: LLMRequest = {
         prompt,
         model: currentSpeaker.model,
         temperature: currentSpeaker.temperature,
-        context: this.buildConversationContext(),
-        maxTokens: request.contextLimit || 4000 // Default to 4000 tokens if not specified
-      });
+        context,
+        maxTokens,
+        metadata: {
+          sessionId: this.currentSession.id,
+          participantName: currentSpeaker.name,
+          iteration: nextIteration
+        }
+      };
+      const streaming = Boolean(options.onDelta) && this.supportsStreaming(currentSpeaker);
+
+      // Rate limits and transient provider failures are retried instead of ending the turn
+      const { result: llmResponse, attempts } = await executeWithRetry<LLMResponse>(
+        () => streaming
+          ? provider.streamMessage(llmRequest, options.onDelta!)
+          : provider.sendMessage(llmRequest),
+        { ...getDefaultRetryPolicy(), ...this.currentSession.config.retryPolicy },
+        options.onRetry
+      );
       
       const processingTime = Date.now() - startTime;
 
@@ -203,15 +384,46 @@ export class SessionManager {
         originalPrompt: prompt,
         evolvedMessage: llmResponse.content,
         translation: this.extractTranslation(llmResponse.content),
-        tokenCount: llmResponse.tokenCount,
+        tokenCount: toTokenCount(llmResponse.tokenCount),
+        costUsd: calculateParticipantCost(
+          llmResponse.tokenCount.prompt,
+          llmResponse.tokenCount.completion,
+          currentSpeaker
+        ),
         processingTime,
-        evolutionMarkers: this.detectEvolutionMarkers(llmResponse.content, nextIteration) as any,
-        efficiencyScore: this.calculateEfficiencyScore(llmResponse.tokenCount.total, nextIteration)
+        // Moderation is kept out of evolution and efficiency analytics
+        evolutionMarkers: [],
+        efficiencyScore: moderator ? undefined : this.calculateLegacyEfficiencyScore(llmResponse.tokenCount.total, nextIteration),
+        kind,
+        metadata: { attempts }
       };
 
+      // Decode test: another participant expands the message without its translation
+      if (!moderator && message.translation && this.currentSession.config.comprehensionChecks) {
+        const check = await this.runComprehensionCheck(currentSpeaker, message, message.translation);
+        if (check) {
+          message.fidelityScore = check.fidelityScore;
+          message.costUsd = Math.round(((message.costUsd || 0) + check.costUsd) * 1e6) / 1e6;
+          message.metadata = { ...message.metadata, comprehension: check };
+        }
+      }
+
+      if (!moderator) {
+        message.metadata = {
+          ...message.metadata,
+          payloadEfficiency: scorePayloadEfficiency(message, this.currentSession.participants, this.messageHistory)
+        };
+        const semanticFidelity = this.scoreSemanticFidelity(message);
+        if (semanticFidelity) {
+          message.metadata = { ...message.metadata, semanticFidelity };
+        }
+      }
+
       // Update evolution tracker with new message
-      if (this.evolutionTracker) {
+      if (this.evolutionTracker && !moderator) {
+        const knownPatterns = new Set(this.getEvolutionPatterns().map(pattern => pattern.id));
         this.evolutionTracker.addMessage(message);
+        message.evolutionMarkers = this.detectEvolutionMarkers(message, knownPatterns) as any;
       }
 
       // Save message to database
@@ -220,15 +432,24 @@ export class SessionManager {
         currentSpeaker.id!,
         nextIteration,
         llmResponse.content,
-        llmResponse.tokenCount,
+        message.tokenCount,
         prompt,
         message.translation,
         processingTime,
-        message.evolutionMarkers as any
+        message.evolutionMarkers as any,
+        message.metadata,
+        kind,
+        message.fidelityScore,
+        message.costUsd,
+        message.metadata?.comprehension?.tokenCount.total
       );
 
       message.id = messageId;
 
+      if (!moderator) {
+        await this.persistLexicon(nextIteration);
+      }
+
       // Update session state
       this.currentSession.currentIteration = nextIteration;
       this.currentSession.messages.push(message);
@@ -237,6 +458,9 @@ export class SessionManager {
 
       // Update analytics
       this.updateAnalytics(message);
+      if (!moderator) {
+        await this.snapshotConvergence(nextIteration);
+      }
 
       // Check if session is complete
       if (nextIteration >= this.currentSession.config.maxIterations) {
@@ -248,6 +472,9 @@ export class SessionManager {
 
     } catch (error) {
       console.error('Failed to send message:', error);
+      if (error instanceof BudgetExceededError) {
+        throw error;
+      }
       throw new Error(`Failed to send message: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
       this.isProcessing = false;
@@ -257,13 +484,16 @@ export class SessionManager {
   /**
    * Stop the current session
    */
-  async stopSession(reason: 'manual' | 'completed' | 'error' | 'timeout' = 'manual'): Promise<void> {
+  async stopSession(reason: SessionStopReason = 'manual'): Promise<void> {
     if (!this.currentSession) {
       throw new Error('No active session to stop');
     }
 
+    const status = reason === 'completed' ? 'completed' : 'stopped';
+    this.assertTransition(status);
+
     try {
-      await this.completeSession(reason === 'completed' ? 'completed' : 'stopped');
+      await this.completeSession(status, reason);
       console.log(`Session stopped: ${reason}`);
     } catch (error) {
       console.error('Failed to stop session:', error);
@@ -271,6 +501,70 @@ export class SessionManager {
     }
   }
 
+  /**
+   * Pause the current session, persisting the evolution tracker so a later
+   * loadSession continues with the same patterns, and when the pause began
+   */
+  async pauseSession(): Promise<SessionState> {
+    if (!this.currentSession) {
+      throw new Error('No active session to pause');
+    }
+
+    if (this.isProcessing) {
+      throw new Error('Cannot pause while a message is being processed');
+    }
+
+    this.assertTransition('paused');
+
+    try {
+      const pausedAt = new Date().toISOString();
+      await mergeSessionConfig(this.currentSession.id, {
+        pausedAt,
+        ...(this.evolutionTracker ? { evolutionState: this.evolutionTracker.toSnapshot() } : {})
+      });
+      await updateSession(this.currentSession.id, { status: 'paused' });
+
+      this.currentSession.config.pausedAt = pausedAt;
+      this.currentSession.status = 'paused';
+      this.currentSession.updatedAt = new Date();
+
+      console.log(`Session paused: ${this.currentSession.id}`);
+      return this.currentSession;
+    } catch (error) {
+      console.error('Failed to pause session:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Resume a paused session, adding the pause to the time spent paused
+   */
+  async resumeSession(): Promise<SessionState> {
+    if (!this.currentSession) {
+      throw new Error('No session to resume');
+    }
+
+    this.assertTransition('running');
+
+    try {
+      const { pausedAt, pausedMs = 0 } = this.currentSession.config;
+      const totalPausedMs = pausedMs + (pausedAt ? Math.max(0, Date.now() - new Date(pausedAt).getTime()) : 0);
+      await mergeSessionConfig(this.currentSession.id, { pausedAt: null, pausedMs: totalPausedMs });
+      await updateSession(this.currentSession.id, { status: 'running' });
+
+      this.currentSession.config.pausedAt = null;
+      this.currentSession.config.pausedMs = totalPausedMs;
+      this.currentSession.status = 'running';
+      this.currentSession.updatedAt = new Date();
+
+      console.log(`Session resumed: ${this.currentSession.id}`);
+      return this.currentSession;
+    } catch (error) {
+      console.error('Failed to resume session:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get current session state
    */
@@ -292,6 +586,13 @@ export class SessionManager {
     return this.isProcessing;
   }
 
+  /**
+   * Patterns detected so far by the evolution tracker
+   */
+  getEvolutionPatterns(): EvolutionPattern[] {
+    return this.evolutionTracker?.getEvolutionContext().patterns || [];
+  }
+
   /**
    * Load existing session from database
    */
@@ -311,9 +612,29 @@ export class SessionManager {
       );
 
       this.messageHistory = [...this.currentSession.messages];
+      this.backfillPayloadEfficiency();
+      this.currentSession.analytics.payloadEfficiencyTrend = this.messageHistory
+        .map(msg => msg.metadata?.payloadEfficiency?.sessionScore)
+        .filter((score): score is number => score !== undefined);
       
-      // Initialize evolution tracker with existing messages
-      this.evolutionTracker = new EvolutionTracker(this.messageHistory);
+      // Restore the evolution tracker from the persisted lexicon, else from the state saved
+      // on pause, else rebuild it from the messages (moderation messages never feed the tracker)
+      const lexicon = await getLexiconEntries(sessionId);
+      const evolutionState = (sessionData.session.config as any)?.evolutionState;
+      const conversation = this.messageHistory.filter(msg => msg.kind !== 'moderation');
+      if (lexicon.length > 0) {
+        const patterns = lexicon.map(lexiconRowToPattern);
+        const lexiconIteration = getLexiconIteration(patterns);
+        this.evolutionTracker = EvolutionTracker.fromSnapshot(
+          { patterns, messageCount: conversation.filter(msg => msg.iteration <= lexiconIteration).length },
+          conversation
+        );
+      } else {
+        this.evolutionTracker = evolutionState
+          ? EvolutionTracker.fromSnapshot(evolutionState, conversation)
+          : new EvolutionTracker(conversation);
+      }
+      this.lexiconKeys = new Set(lexicon.map(row => getPatternId(row.type, row.symbol)));
       
       return this.currentSession;
     } catch (error) {
@@ -327,18 +648,30 @@ export class SessionManager {
    */
 
   private validateParticipants(participants: LLMParticipant[]): void {
-    if (participants.length < 2) {
-      throw new Error('At least 2 participants are required');
+    if (getSpeakers(participants).length < 2) {
+      throw new Error('At least 2 speaking participants are required');
     }
 
     if (participants.length > 5) {
       throw new Error('Maximum 5 participants allowed');
     }
 
+    if (participants.filter(p => p.role === 'moderator').length > 1) {
+      throw new Error('Only one moderator is allowed');
+    }
+
     // On client-side, skip provider availability check since providers are only initialized on server
     // The actual provider validation will happen in the API routes
     if (typeof window === 'undefined') {
       for (const participant of participants) {
+        if (participant.provider === 'openai-compatible') {
+          const provider = this.createParticipantProvider(participant);
+          if (!provider.validateConfig()) {
+            throw new Error(`Invalid OpenAI-compatible endpoint configuration for ${participant.name}`);
+          }
+          continue;
+        }
+
         if (!this.providers.has(participant.provider)) {
           throw new Error(`Provider ${participant.provider} is not available. Check API key configuration.`);
         }
@@ -346,23 +679,327 @@ export class SessionManager {
     }
   }
 
-  private estimateSessionCost(participants: LLMParticipant[], maxIterations: number): number {
-    // Rough cost estimation - will be refined with actual usage
-    const avgTokensPerMessage = 200;
-    const totalMessages = maxIterations * participants.length;
-    const totalTokens = totalMessages * avgTokensPerMessage;
-    
-    // Average cost per 1K tokens across providers
-    const avgCostPer1KTokens = 0.02;
-    
-    return (totalTokens / 1000) * avgCostPer1KTokens;
+  /**
+   * Replace the tracker's patterns with the stored lexicon, which may have
+   * been edited since this manager loaded it (a runner keeps one manager)
+   */
+  private async refreshLexicon(): Promise<void> {
+    if (!this.currentSession || !this.evolutionTracker || this.lexiconKeys.size === 0) return;
+
+    const lexicon = await getLexiconEntries(this.currentSession.id);
+    if (lexicon.length === 0) return;
+
+    this.evolutionTracker.replacePatterns(lexicon.map(lexiconRowToPattern));
+    this.lexiconKeys = new Set(lexicon.map(row => getPatternId(row.type, row.symbol)));
+  }
+
+  /**
+   * Store the patterns this iteration introduced, adopted or amended, plus any
+   * never stored (sessions recorded before the lexicon existed). A failed
+   * write never fails the turn; the next load re-analyzes those messages.
+   */
+  private async persistLexicon(iteration: number): Promise<void> {
+    if (!this.currentSession || !this.evolutionTracker) return;
+
+    const changed = this.evolutionTracker.getEvolutionContext().patterns.filter(pattern =>
+      !this.lexiconKeys.has(pattern.id) ||
+      (pattern.events || []).some(event => event.iteration === iteration)
+    );
+    if (changed.length === 0) return;
+
+    try {
+      await upsertLexiconEntries(changed.map(pattern => patternToLexiconRow(this.currentSession!.id, pattern)));
+      changed.forEach(pattern => this.lexiconKeys.add(pattern.id));
+    } catch (error) {
+      console.error('Failed to persist lexicon:', error);
+    }
+  }
+
+  /**
+   * At the end of each round, store the convergence window ending there (the
+   * last DEFAULT_WINDOW_ROUNDS rounds) in analytics_snapshots.patterns. Like
+   * the lexicon, a failed write never fails the turn.
+   */
+  private async snapshotConvergence(iteration: number): Promise<void> {
+    if (!this.currentSession) return;
+
+    const speakers = getSpeakers(this.currentSession.participants).map(p => p.name);
+    if (speakers.length < 2 || iteration % speakers.length !== 0) return;
+
+    const window = measureConvergenceWindow(
+      this.messageHistory,
+      speakers,
+      Math.max(1, iteration - speakers.length * DEFAULT_WINDOW_ROUNDS + 1),
+      iteration
+    );
+    const patterns: PatternAnalysis = {
+      detectedPatterns: this.getEvolutionPatterns().map(pattern => pattern.pattern),
+      emergingTrends: [describeDialects(window)],
+      anomalies: [],
+      predictions: [],
+      convergence: window
+    };
+
+    try {
+      await createAnalyticsSnapshot({
+        session_id: this.currentSession.id,
+        iteration,
+        patterns: patterns as unknown as Json
+      });
+    } catch (error) {
+      console.error('Failed to store convergence snapshot:', error);
+    }
+  }
+
+  /**
+   * Project the next call (prompt and context as sent, completion sized like
+   * the speaker's recent messages), plus the decode test that may follow it,
+   * and stop the session with 'budget_exceeded' if they would break a cap
+   */
+  private async enforceBudget(
+    speaker: LLMParticipant,
+    prompt: string,
+    context: Array<{ role: string; content: string }>,
+    withDecodeTest: boolean
+  ): Promise<void> {
+    const budget = this.currentSession?.config.budget;
+    if (!this.currentSession || !budget) return;
+
+    const promptTokens = getTokenCount(
+      [prompt, ...context.map(entry => entry.content)].join('\n'),
+      speaker.provider,
+      speaker.model
+    );
+    const recent = this.messageHistory
+      .filter(msg => msg.participantId === speaker.id || msg.speaker === speaker.name)
+      .slice(-3);
+    const completionTokens = recent.length > 0
+      ? Math.ceil(recent.reduce(
+          (sum, msg) => sum + getTokenCount(msg.evolvedMessage, speaker.provider, speaker.model),
+          0
+        ) / recent.length)
+      : PROJECTED_COMPLETION_TOKENS;
+
+    const next = {
+      costUsd: calculateParticipantCost(promptTokens, completionTokens, speaker),
+      tokens: promptTokens + completionTokens
+    };
+
+    // The decoder reads the new message with its own context and expands it at about the same length
+    const decoder = withDecodeTest ? selectDecoder(this.currentSession.participants, speaker) : null;
+    if (decoder) {
+      const decodePrompt = generateDecodePrompt(speaker.name, '');
+      const decodePromptTokens = getTokenCount(
+        [decodePrompt, ...this.buildConversationContext(decoder, decodePrompt, DECODE_MAX_TOKENS).map(entry => entry.content)].join('\n'),
+        decoder.provider,
+        decoder.model
+      ) + completionTokens;
+      next.costUsd += calculateParticipantCost(decodePromptTokens, completionTokens, decoder);
+      next.tokens += decodePromptTokens + completionTokens;
+    }
+
+    const exceeded = checkBudget(
+      budget,
+      {
+        costUsd: this.currentSession.analytics.totalCost,
+        tokens: this.currentSession.analytics.totalTokens,
+        startedAt: this.currentSession.startedAt,
+        pausedMs: this.currentSession.config.pausedMs
+      },
+      next
+    );
+    if (!exceeded) return;
+
+    console.warn(`Session ${this.currentSession.id} stopped: ${exceeded.message}`);
+    await this.completeSession('stopped', 'budget_exceeded');
+    throw new BudgetExceededError(exceeded.limit, exceeded.message);
+  }
+
+  private estimateSessionCost(
+    participants: LLMParticipant[],
+    maxIterations: number,
+    moderationInterval?: number
+  ): number {
+    // Each speaker takes an equal share of the iterations; a moderator speaks once per interval
+    const speakerCount = Math.max(1, getSpeakers(participants).length);
+    const moderatorTurns = Math.floor(maxIterations / Math.max(1, moderationInterval || speakerCount));
+
+    const cost = participants.reduce((total, participant) => {
+      const turns = participant.role === 'moderator'
+        ? moderatorTurns
+        : participant.role === 'observer' ? 0 : maxIterations / speakerCount;
+      const turnCost = calculateParticipantCost(
+        PROJECTED_PROMPT_TOKENS,
+        PROJECTED_COMPLETION_TOKENS,
+        participant
+      );
+      return total + turns * turnCost;
+    }, 0);
+
+    return Math.round(cost * 1e6) / 1e6;
+  }
+
+  /**
+   * Have a different participant expand `message` without its translation and
+   * score the expansion against it. A failed check never fails the turn.
+   */
+  private async runComprehensionCheck(
+    author: LLMParticipant,
+    message: ConversationMessage,
+    translation: string
+  ): Promise<ComprehensionCheck | undefined> {
+    if (!this.currentSession) return undefined;
+
+    const decoder = selectDecoder(this.currentSession.participants, author);
+    if (!decoder) return undefined;
+
+    try {
+      const provider = this.getProviderForParticipant(decoder);
+      const prompt = generateDecodePrompt(author.name, stripTranslations(message.evolvedMessage));
+      const llmRequest: LLMRequest = {
+        prompt,
+        model: decoder.model,
+        temperature: decoder.temperature,
+        context: this.buildConversationContext(decoder, prompt, DECODE_MAX_TOKENS),
+        maxTokens: DECODE_MAX_TOKENS,
+        metadata: {
+          sessionId: this.currentSession.id,
+          participantName: decoder.name,
+          iteration: message.iteration
+        }
+      };
+      const startTime = Date.now();
+      const { result: llmResponse } = await executeWithRetry<LLMResponse>(
+        () => provider.sendMessage(llmRequest),
+        { ...getDefaultRetryPolicy(), ...this.currentSession.config.retryPolicy }
+      );
+
+      const expansion = llmResponse.content.trim();
+      return {
+        decoderId: decoder.id!,
+        decoderName: decoder.name,
+        expansion,
+        fidelityScore: scoreFidelity(
+          expansion,
+          translation,
+          getSimilarityScorer(this.currentSession.config.similarityScorer),
+          this.getMeaningCorpus()
+        ),
+        tokenCount: toTokenCount(llmResponse.tokenCount),
+        costUsd: calculateParticipantCost(
+          llmResponse.tokenCount.prompt,
+          llmResponse.tokenCount.completion,
+          decoder
+        ),
+        processingTime: Date.now() - startTime
+      };
+    } catch (error) {
+      console.error(`Comprehension check by ${decoder.name} failed:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Compare the message's meaning (decoded expansion, else translation, else
+   * the text itself) with the baseline meaning: the first, uncompressed round.
+   * Messages in that round are the baseline and are not scored.
+   */
+  private scoreSemanticFidelity(message: ConversationMessage): SemanticFidelity | undefined {
+    if (!this.currentSession) return undefined;
+
+    const roundSize = getSpeakers(this.currentSession.participants).length;
+    if (message.iteration <= roundSize) return undefined;
+
+    const baseline = this.messageHistory.filter(msg => msg.kind !== 'moderation' && msg.iteration <= roundSize);
+    if (baseline.length === 0) return undefined;
+
+    const expansion = message.metadata?.comprehension?.expansion;
+    const source: SemanticFidelity['source'] = expansion ? 'decoded' : message.translation ? 'translation' : 'message';
+    const meaning = expansion || this.getMeaning(message);
+
+    const scorer = getSimilarityScorer(this.currentSession.config.similarityScorer);
+    const similarity = scorer.score(
+      meaning,
+      baseline.map(msg => this.getMeaning(msg)).join('\n'),
+      this.getMeaningCorpus()
+    );
+    // Payload tokens, not tokenCount.total: the total includes the prompt and a context that grows every turn
+    const participants = this.currentSession.participants;
+    const baselineTokens = baseline.reduce((sum, msg) => sum + payloadTokensOf(msg, participants), 0) / baseline.length;
+    const analysis = analyzeCompressionAtFidelity(baselineTokens, payloadTokensOf(message, participants), similarity);
+
+    return {
+      scorer: scorer.id,
+      source,
+      similarity,
+      compressionAtFidelity: Math.round(analysis.score * 100) / 100
+    };
+  }
+
+  /**
+   * Score messages recorded before payload efficiency existed, in order, so
+   * later messages see the same baselines they would have at send time
+   */
+  private backfillPayloadEfficiency(): void {
+    if (!this.currentSession) return;
+
+    this.messageHistory.forEach((message, index) => {
+      if (message.kind === 'moderation' || message.metadata?.payloadEfficiency) return;
+      message.metadata = {
+        ...message.metadata,
+        payloadEfficiency: scorePayloadEfficiency(
+          message,
+          this.currentSession!.participants,
+          this.messageHistory.slice(0, index)
+        )
+      };
+    });
+  }
+
+  // Plain-language meaning of a message: its translation when it has one
+  private getMeaning(message: ConversationMessage): string {
+    return message.translation || stripTranslations(message.evolvedMessage);
+  }
+
+  private getMeaningCorpus(): string[] {
+    return this.messageHistory
+      .filter(msg => msg.kind !== 'moderation')
+      .map(msg => this.getMeaning(msg));
+  }
+
+  private generateModeratorPromptFor(moderator: LLMParticipant, iteration: number): string {
+    if (!this.currentSession) throw new Error('No active session');
+
+    return generateModeratorPrompt(
+      {
+        topic: this.currentSession.config.topic,
+        scenario: this.currentSession.config.scenario,
+        participantName: moderator.name,
+        iteration,
+        maxIterations: this.currentSession.config.maxIterations,
+        previousMessages: this.messageHistory.map(msg => ({
+          speaker: msg.speaker,
+          message: msg.evolvedMessage,
+          iteration: msg.iteration
+        })),
+        customPrompt: this.currentSession.config.customPrompt
+      },
+      this.evolutionTracker?.getEvolutionContext().patterns || []
+    );
   }
 
-  private getCurrentSpeaker(iteration: number): LLMParticipant | null {
+  private getCurrentSpeaker(iteration: number, requestedSpeaker?: string): LLMParticipant | null {
     if (!this.currentSession) return null;
-    
-    const speakerIndex = (iteration - 1) % this.currentSession.participants.length;
-    return this.currentSession.participants[speakerIndex];
+
+    // Strategy comes from config.turnTaking (round-robin when unset)
+    return selectSpeaker(this.currentSession.config.turnTaking, {
+      participants: this.currentSession.participants,
+      messages: this.currentSession.messages,
+      iteration,
+      seed: this.currentSession.id,
+      patterns: this.evolutionTracker?.getEvolutionContext().patterns,
+      requestedSpeaker
+    });
   }
 
   private generatePromptForSpeaker(speaker: LLMParticipant, iteration: number): string {
@@ -374,7 +1011,8 @@ export class SessionManager {
       participantName: speaker.name,
       iteration,
       maxIterations: this.currentSession.config.maxIterations,
-      previousMessages: this.messageHistory.slice(-5).map(msg => ({
+      // The history itself travels in the context window, not the prompt
+      previousMessages: this.messageHistory.map(msg => ({
         speaker: msg.speaker,
         message: msg.evolvedMessage,
         iteration: msg.iteration
@@ -401,10 +1039,30 @@ export class SessionManager {
       prompt += `\n\nEVOLUTION GUIDANCE:\n${evolutionGuidance}`;
     }
 
+    prompt += `\n\n${generateLexiconInstructions()}`;
+
+    const moderatorInstructions = getModeratorInstructions(
+      this.currentSession.config.turnTaking,
+      this.currentSession.participants,
+      speaker
+    );
+    if (moderatorInstructions) {
+      prompt += `\n\n${moderatorInstructions}`;
+    }
+
     return prompt;
   }
 
   private getProviderForParticipant(participant: LLMParticipant): any {
+    // OpenAI-compatible endpoints are configured per participant rather than per provider
+    if (participant.provider === 'openai-compatible') {
+      const key = participant.id || participant.name;
+      if (!this.participantProviders.has(key)) {
+        this.participantProviders.set(key, this.createParticipantProvider(participant));
+      }
+      return this.participantProviders.get(key);
+    }
+
     const provider = this.providers.get(participant.provider);
     if (!provider) {
       throw new Error(`Provider ${participant.provider} not available`);
@@ -412,37 +1070,41 @@ export class SessionManager {
     return provider;
   }
 
-  private buildConversationContext(): Array<{ role: 'system' | 'user' | 'assistant'; content: string }> {
-    const context: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [];
-    
-    // Add recent messages as context (last 10 messages)
-    const recentMessages = this.messageHistory.slice(-10);
-    
-    // Add evolution context if available
-    if (this.evolutionTracker) {
-      const evolutionContext = this.evolutionTracker.getEvolutionContext();
-      if (evolutionContext.patterns.length > 0) {
-        const recentPatterns = evolutionContext.patterns.slice(-3);
-        const patternSummary = recentPatterns
-          .map(p => `${p.pattern} (${p.meaning}) - used by ${p.firstUsedBy}`)
-          .join(', ');
-        
-        context.push({
-          role: 'system',
-          content: `ESTABLISHED COMMUNICATION PATTERNS: ${patternSummary}`
-        });
-      }
-    }
-    
-    for (const msg of recentMessages) {
-      // Create a more natural conversation flow where each LLM sees the others as distinct speakers
-      context.push({
-        role: 'user', // Treat other LLMs as "users" speaking to the current LLM
-        content: `[${msg.speaker}]: ${msg.evolvedMessage}${msg.translation ? `\n[Translation: ${msg.translation}]` : ''}`
-      });
-    }
+  private supportsStreaming(participant: LLMParticipant): boolean {
+    // Models without catalogue entries (e.g. OpenAI-compatible endpoints) are assumed to stream
+    const modelInfo = getModelInfo(participant.provider, participant.model);
+    return modelInfo?.capabilities.supportsStreaming ?? true;
+  }
+
+  private createParticipantProvider(participant: LLMParticipant): any {
+    return createOpenAICompatibleProvider(
+      participant.model,
+      participant.temperature,
+      resolveOpenAICompatibleConfig(participant.config)
+    );
+  }
 
-    return context;
+  /**
+   * History for `participant` within its model's window: the full pattern
+   * lexicon, a digest of older messages and the recent messages verbatim
+   */
+  private buildConversationContext(
+    participant: LLMParticipant,
+    prompt: string,
+    maxCompletionTokens: number
+  ): Array<{ role: 'system' | 'user' | 'assistant'; content: string }> {
+    const budget = getHistoryBudget(
+      participant,
+      getTokenCount(prompt, participant.provider, participant.model),
+      maxCompletionTokens
+    );
+
+    return buildContextWindow(
+      participant,
+      this.messageHistory,
+      this.evolutionTracker?.getEvolutionContext().patterns || [],
+      budget
+    ).context;
   }
 
   private extractTranslation(content: string): string | undefined {
@@ -451,33 +1113,44 @@ export class SessionManager {
     return translationMatch ? translationMatch[1].trim() : undefined;
   }
 
-  private detectEvolutionMarkers(content: string, iteration: number): string[] {
+  /**
+   * Markers for what the tracker (and its PatternDetector) found in the
+   * message: patterns it introduced, abbreviations and notations it used
+   */
+  private detectEvolutionMarkers(message: ConversationMessage, knownPatterns: Set<string>): string[] {
     const markers: string[] = [];
+    const used = this.getEvolutionPatterns().filter(pattern =>
+      !knownPatterns.has(pattern.id) ||
+      (pattern.events || []).some(event => event.iteration === message.iteration && event.speaker === message.speaker)
+    );
 
-    // Detect various evolution patterns
-    if (content.includes('→') || content.includes('⇒')) {
+    if (used.some(pattern => pattern.type === 'symbol' && !knownPatterns.has(pattern.id))) {
       markers.push('symbol_introduction');
     }
 
-    if (content.match(/\b[A-Z]{2,}\b/) && iteration > 5) {
+    if (used.some(pattern => pattern.type === 'abbreviation')) {
       markers.push('abbreviation_usage');
     }
 
-    if (content.includes('//') || content.includes('::')) {
+    if (used.some(pattern => pattern.type === 'structure' || pattern.type === 'protocol')) {
       markers.push('notation_system');
     }
 
-    if (iteration > 10 && content.length < 50) {
+    if (message.iteration > 10 && message.evolvedMessage.length < 50) {
       markers.push('efficiency_breakthrough');
     }
 
     return markers;
   }
 
-  private calculateEfficiencyScore(tokenCount: number, iteration: number): number {
+  /**
+   * Legacy score kept alongside PayloadEfficiency while consumers migrate:
+   * compares totals that include prompt tokens with the previous message
+   */
+  private calculateLegacyEfficiencyScore(tokenCount: number, iteration: number): number {
     if (iteration === 1) return 50; // Neutral baseline
 
-    const previousMessage = this.messageHistory[this.messageHistory.length - 1];
+    const previousMessage = this.messageHistory.filter(msg => msg.kind !== 'moderation').pop();
     if (!previousMessage) return 50;
 
     const analysis = analyzeTokenEfficiency(previousMessage.tokenCount.total, tokenCount);
@@ -489,12 +1162,29 @@ export class SessionManager {
 
     const analytics = this.currentSession.analytics;
     
-    // Update total tokens
-    analytics.totalTokens += message.tokenCount.total;
+    // Update total tokens and spend; the decode test's cost is already in costUsd
+    const turnTokens = message.tokenCount.total + (message.metadata?.comprehension?.tokenCount.total || 0);
+    analytics.totalTokens += turnTokens;
+    analytics.totalCost += message.costUsd || 0;
     analytics.averageTokensPerMessage = analytics.totalTokens / this.currentSession.messages.length;
     
-    // Update efficiency trend
-    analytics.tokenEfficiencyTrend.push(message.tokenCount.total);
+    // Update efficiency trend (moderation is not part of the evolving conversation)
+    if (message.kind !== 'moderation') {
+      analytics.tokenEfficiencyTrend.push(message.tokenCount.total);
+    }
+    const payloadEfficiency = message.metadata?.payloadEfficiency;
+    if (payloadEfficiency) {
+      analytics.payloadEfficiencyTrend.push(payloadEfficiency.sessionScore);
+    }
+    
+    // Update fidelity trend and the running compression-at-fidelity average
+    const semanticFidelity = message.metadata?.semanticFidelity;
+    if (semanticFidelity) {
+      const scored = analytics.fidelityTrend.length;
+      analytics.compressionAtFidelity =
+        (analytics.compressionAtFidelity * scored + semanticFidelity.compressionAtFidelity) / (scored + 1);
+      analytics.fidelityTrend.push(semanticFidelity.similarity);
+    }
     
     // Update participant stats
     const participantStat = analytics.participantStats.find(
@@ -503,10 +1193,16 @@ export class SessionManager {
     
     if (participantStat) {
       participantStat.messageCount++;
-      participantStat.totalTokens += message.tokenCount.total;
+      participantStat.totalTokens += turnTokens;
+      participantStat.totalCost += message.costUsd || 0;
       participantStat.averageTokens = participantStat.totalTokens / participantStat.messageCount;
       participantStat.averageResponseTime = message.processingTime || 0;
-      participantStat.efficiencyTrend.push(message.efficiencyScore || 50);
+      if (message.kind !== 'moderation') {
+        participantStat.efficiencyTrend.push(message.efficiencyScore || 50);
+      }
+      if (payloadEfficiency) {
+        participantStat.payloadEfficiencyTrend.push(payloadEfficiency.participantScore);
+      }
     }
 
     // Add evolution markers
@@ -523,15 +1219,26 @@ export class SessionManager {
     }
   }
 
-  private async completeSession(status: 'completed' | 'stopped' = 'completed'): Promise<void> {
+  private assertTransition(next: SessionStatus): void {
+    const current = this.currentSession?.status || 'idle';
+    if (!SESSION_TRANSITIONS[current].includes(next)) {
+      throw new Error(`Cannot change session status from ${current} to ${next}`);
+    }
+  }
+
+  private async completeSession(
+    status: 'completed' | 'stopped' = 'completed',
+    stopReason: SessionStopReason = status === 'completed' ? 'completed' : 'manual'
+  ): Promise<void> {
     if (!this.currentSession) return;
 
     try {
       // Complete session in database
-      await completeSession(this.currentSession.id, status);
+      await completeSession(this.currentSession.id, status, stopReason);
       
       // Update session status
       this.currentSession.status = status;
+      this.currentSession.stopReason = stopReason;
       this.currentSession.completedAt = new Date();
       
       console.log(`Session completed with status: ${status}`);
@@ -550,6 +1257,9 @@ export class SessionManager {
     // Convert database records back to SessionState format
     // This is a complex conversion that maps database schema to app types
     const config = dbSession.config as any;
+    const semanticScores: SemanticFidelity[] = dbMessages
+      .map(msg => msg.metadata?.semanticFidelity)
+      .filter(Boolean);
     
     return {
       id: dbSession.id,
@@ -559,7 +1269,19 @@ export class SessionManager {
         scenario: dbSession.scenario,
         participants: config.participants || [],
         maxIterations: dbSession.max_iterations,
-        customPrompt: config.customPrompt
+        customPrompt: config.customPrompt,
+        autoMode: config.autoMode,
+        autoModeDelay: config.autoModeDelay,
+        retryPolicy: config.retryPolicy,
+        turnTaking: config.turnTaking,
+        moderationInterval: config.moderationInterval,
+        comprehensionChecks: config.comprehensionChecks,
+        similarityScorer: config.similarityScorer,
+        budget: config.budget,
+        runner: config.runner && {
+          ...config.runner,
+          leaseExpiresAt: dbSession.runner_lease_expires_at ?? undefined
+        }
       },
       messages: dbMessages.map(msg => ({
         id: msg.id,
@@ -574,16 +1296,27 @@ export class SessionManager {
         tokenCount: msg.token_count as any,
         processingTime: msg.processing_time,
         evolutionMarkers: msg.evolution_markers,
-        efficiencyScore: msg.efficiency_score
+        efficiencyScore: msg.efficiency_score,
+        fidelityScore: msg.fidelity_score ?? undefined,
+        costUsd: msg.cost_usd ?? undefined,
+        kind: msg.kind || 'message',
+        metadata: msg.metadata || undefined
       })),
       analytics: {
         totalTokens: dbSession.total_tokens,
         averageTokensPerMessage: dbSession.total_messages > 0 ? dbSession.total_tokens / dbSession.total_messages : 0,
         tokenEfficiencyTrend: [],
+        payloadEfficiencyTrend: [], // Rebuilt by loadSession once every message is scored
         participantStats: [],
         evolutionMarkers: [],
         efficiencyImprovement: dbSession.efficiency_score || 0,
-        communicationPatterns: []
+        communicationPatterns: [],
+        fidelityTrend: semanticScores.map(score => score.similarity),
+        compressionAtFidelity: semanticScores.length > 0
+          ? semanticScores.reduce((sum, score) => sum + score.compressionAtFidelity, 0) / semanticScores.length
+          : 0,
+        totalCost: dbSession.total_cost_usd ?? 0,
+        projectedCost: config.estimatedCost ?? 0
       },
       currentIteration: dbSession.current_iteration,
       participants: dbParticipants.map(p => ({
@@ -592,11 +1325,13 @@ export class SessionManager {
         provider: p.provider as any,
         model: p.model,
         temperature: p.temperature,
+        role: (p.config as any)?.role || 'speaker',
         config: p.config as any
       })),
       startedAt: new Date(dbSession.started_at),
       updatedAt: new Date(dbSession.updated_at),
-      completedAt: dbSession.completed_at ? new Date(dbSession.completed_at) : undefined
+      completedAt: dbSession.completed_at ? new Date(dbSession.completed_at) : undefined,
+      stopReason: dbSession.stop_reason ?? undefined
     };
   }
 }
@@ -0,0 +1,405 @@
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { SessionManager } from './session-manager';
+import { BudgetExceededError } from './budget';
+import {
+  claimSessionRunner,
+  getSessionsWithActiveRunner,
+  mergeSessionConfig,
+  releaseSessionRunner
+} from './database/operations';
+import type { SessionRunnerState, SessionRunnerStatus } from '@/types/session';
+
+const DEFAULT_DELAY_MS = 2000;
+
+// A runner holds its session for this long without renewing; renewed every turn and by a heartbeat
+const LEASE_SECONDS = 60;
+const HEARTBEAT_MS = (LEASE_SECONDS * 1000) / 3;
+
+/**
+ * Drives a session server-side by calling SessionManager.sendMessage until
+ * maxIterations, so experiments keep going when the browser tab closes.
+ * Progress is persisted to sessions.config.runner after every turn, which
+ * lets a restarted server pick the run back up (see resumePendingRunners).
+ *
+ * Only one server process may drive a session: the runner claims a lease in
+ * sessions.runner_owner / runner_lease_expires_at before it starts and stops
+ * as soon as a renewal finds another owner. The loop lives in the server
+ * process, so it needs a long-lived Node server (`next start`); serverless
+ * functions are frozen after the response and the lease simply expires.
+ */
+class SessionRunner {
+  readonly sessionId: string;
+  private delayMs: number;
+  private startedAt: string;
+  private lastIteration = 0;
+  private paused = false;
+  private stopped = false;
+  private leaseLost = false;
+  private turn: Promise<unknown> | null = null;
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  private wake: (() => void) | null = null;
+
+  constructor(sessionId: string, delayMs: number, startedAt: string = new Date().toISOString()) {
+    this.sessionId = sessionId;
+    this.delayMs = delayMs;
+    this.startedAt = startedAt;
+  }
+
+  get state(): SessionRunnerState {
+    return this.paused ? 'paused' : 'running';
+  }
+
+  /**
+   * Claim the session for this process; false when another server drives it
+   */
+  async claimLease(): Promise<boolean> {
+    return (await claimSessionRunner(this.sessionId, runnerOwner(), LEASE_SECONDS)) !== null;
+  }
+
+  async run(): Promise<void> {
+    // Keeps the lease while a turn waits on a slow provider or the runner is paused
+    this.heartbeat = setInterval(() => void this.renewLease(), HEARTBEAT_MS);
+    await this.persist('running');
+
+    try {
+      while (!this.stopped) {
+        if (this.paused) {
+          await this.waitFor();
+          continue;
+        }
+
+        if (!(await this.renewLease())) {
+          return;
+        }
+
+        // Reload every turn so stops and edits made by other requests are honoured
+        const manager = new SessionManager();
+        const session = await manager.loadSession(this.sessionId);
+        this.lastIteration = session.currentIteration;
+
+        // A session paused through /api/session/pause ends the loop; resuming relaunches it
+        if (session.status === 'paused') {
+          await this.persist('paused');
+          return;
+        }
+
+        if (session.status !== 'running') {
+          await this.persist(session.status === 'completed' ? 'completed' : 'stopped');
+          return;
+        }
+
+        if (session.currentIteration >= session.config.maxIterations) {
+          await this.persist('completed');
+          return;
+        }
+
+        const turn = manager.sendMessage({ sessionId: this.sessionId });
+        this.turn = turn;
+        const message = await turn.finally(() => {
+          this.turn = null;
+        });
+        this.lastIteration = message.iteration;
+
+        if (message.iteration >= session.config.maxIterations) {
+          await this.persist('completed');
+          return;
+        }
+
+        await this.persist(this.state);
+
+        if (!this.stopped && !this.paused) {
+          await this.waitFor(this.delayMs);
+        }
+      }
+
+      await this.persist('stopped');
+    } catch (error) {
+      // A budget stop ends the session cleanly; the reason is kept for the UI
+      if (error instanceof BudgetExceededError) {
+        await this.persist('stopped', error.message);
+        return;
+      }
+      console.error(`Session runner ${this.sessionId} failed:`, error);
+      await this.persist('error', error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      if (this.heartbeat) clearInterval(this.heartbeat);
+      if (activeRunners().get(this.sessionId) === this) {
+        activeRunners().delete(this.sessionId);
+      }
+      if (!this.leaseLost) {
+        await releaseSessionRunner(this.sessionId, runnerOwner()).catch(error =>
+          console.error(`Failed to release runner lease for ${this.sessionId}:`, error)
+        );
+      }
+    }
+  }
+
+  /**
+   * Pause once the in-flight turn (if any) has completed or failed
+   */
+  async pause(): Promise<void> {
+    this.paused = true;
+    await this.turn?.catch(() => undefined);
+    await this.persist('paused');
+  }
+
+  async resume(delayMs?: number): Promise<void> {
+    if (delayMs !== undefined) {
+      this.delayMs = delayMs;
+    }
+    this.paused = false;
+    await this.persist('running');
+    this.wake?.();
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.wake?.();
+  }
+
+  getStatus(): SessionRunnerStatus {
+    return {
+      state: this.state,
+      delayMs: this.delayMs,
+      lastIteration: this.lastIteration,
+      startedAt: this.startedAt,
+      updatedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Sleep for `ms` (or until woken when omitted); pause/resume/stop wake it early
+   */
+  private waitFor(ms?: number): Promise<void> {
+    return new Promise(resolve => {
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      const done = () => {
+        if (timer) clearTimeout(timer);
+        this.wake = null;
+        resolve();
+      };
+      if (ms !== undefined) {
+        timer = setTimeout(done, ms);
+      }
+      this.wake = done;
+    });
+  }
+
+  /**
+   * Extend the lease; on losing it to another process, stop without writing
+   * anything further. A failed database call is not a lost lease.
+   */
+  private async renewLease(): Promise<boolean> {
+    if (this.leaseLost) return false;
+
+    try {
+      if (await this.claimLease()) return true;
+    } catch (error) {
+      console.error(`Failed to renew runner lease for ${this.sessionId}:`, error);
+      return true;
+    }
+
+    console.warn(`Session runner ${this.sessionId} lost its lease to another server, stopping`);
+    this.leaseLost = true;
+    this.stop();
+    return false;
+  }
+
+  private async persist(state: SessionRunnerState, error?: string): Promise<void> {
+    // The runner that took over owns sessions.config.runner now
+    if (this.leaseLost) return;
+
+    const runner: SessionRunnerStatus = {
+      ...this.getStatus(),
+      state,
+      ...(error ? { error } : {})
+    };
+
+    try {
+      await mergeSessionConfig(this.sessionId, { runner });
+    } catch (persistError) {
+      // Progress is still tracked in memory; the next turn will try again
+      console.error(`Failed to persist runner state for ${this.sessionId}:`, persistError);
+    }
+  }
+}
+
+// Kept on globalThis so dev-mode module reloads do not orphan running loops
+const globalForRunners = globalThis as unknown as {
+  sessionRunners?: Map<string, SessionRunner>;
+  sessionRunnerOwner?: string;
+};
+
+function activeRunners(): Map<string, SessionRunner> {
+  if (!globalForRunners.sessionRunners) {
+    globalForRunners.sessionRunners = new Map();
+  }
+  return globalForRunners.sessionRunners;
+}
+
+/**
+ * Lease owner id of this server process
+ */
+function runnerOwner(): string {
+  if (!globalForRunners.sessionRunnerOwner) {
+    globalForRunners.sessionRunnerOwner = `${hostname()}:${process.pid}:${randomUUID()}`;
+  }
+  return globalForRunners.sessionRunnerOwner;
+}
+
+function launch(runner: SessionRunner): void {
+  activeRunners().set(runner.sessionId, runner);
+  // Intentionally not awaited - the loop outlives the request that started it
+  void runner.run();
+}
+
+export interface TurnLease {
+  release(): Promise<void>;
+}
+
+/**
+ * Hold the session's runner lease for one manual turn or status change, so it
+ * cannot overlap a runner turn or another request on any server. Null when
+ * the lease is held elsewhere.
+ */
+export async function acquireTurnLease(sessionId: string): Promise<TurnLease | null> {
+  const owner = `${runnerOwner()}:${randomUUID()}`;
+  if ((await claimSessionRunner(sessionId, owner, LEASE_SECONDS)) === null) {
+    return null;
+  }
+
+  // A turn waiting on a slow provider can outlast the lease
+  const heartbeat = setInterval(() => {
+    claimSessionRunner(sessionId, owner, LEASE_SECONDS).catch(error =>
+      console.error(`Failed to renew turn lease for ${sessionId}:`, error)
+    );
+  }, HEARTBEAT_MS);
+
+  return {
+    release: async () => {
+      clearInterval(heartbeat);
+      await releaseSessionRunner(sessionId, owner).catch(error =>
+        console.error(`Failed to release turn lease for ${sessionId}:`, error)
+      );
+    }
+  };
+}
+
+/**
+ * Start driving a session to completion on the server
+ */
+export async function startSessionRunner(
+  sessionId: string,
+  delayMs: number = DEFAULT_DELAY_MS
+): Promise<SessionRunnerStatus> {
+  const existing = activeRunners().get(sessionId);
+  if (existing) {
+    throw new Error('Session runner is already active');
+  }
+
+  const session = await new SessionManager().loadSession(sessionId);
+  if (session.status !== 'running') {
+    throw new Error(`Cannot run a session with status ${session.status}`);
+  }
+
+  const runner = new SessionRunner(sessionId, delayMs);
+  if (!(await runner.claimLease())) {
+    throw new Error('Session runner is already active on another server');
+  }
+
+  await mergeSessionConfig(sessionId, { autoMode: true, autoModeDelay: delayMs });
+
+  launch(runner);
+  return runner.getStatus();
+}
+
+/**
+ * Pause after the in-flight message (if any) completes
+ */
+export async function pauseSessionRunner(sessionId: string): Promise<SessionRunnerStatus> {
+  const runner = activeRunners().get(sessionId);
+  if (!runner) {
+    throw new Error('No active runner for this session');
+  }
+
+  await runner.pause();
+  return runner.getStatus();
+}
+
+/**
+ * Resume a paused runner, recreating it if this server process restarted
+ */
+export async function resumeSessionRunner(
+  sessionId: string,
+  delayMs?: number
+): Promise<SessionRunnerStatus> {
+  const runner = activeRunners().get(sessionId);
+  if (runner) {
+    await runner.resume(delayMs);
+    return runner.getStatus();
+  }
+
+  const session = await new SessionManager().loadSession(sessionId);
+  if (session.status !== 'running') {
+    throw new Error(`Cannot resume a session with status ${session.status}`);
+  }
+
+  const restored = new SessionRunner(
+    sessionId,
+    delayMs ?? session.config.runner?.delayMs ?? session.config.autoModeDelay ?? DEFAULT_DELAY_MS,
+    session.config.runner?.startedAt
+  );
+  if (!(await restored.claimLease())) {
+    throw new Error('Session runner is already active on another server');
+  }
+
+  launch(restored);
+  return restored.getStatus();
+}
+
+/**
+ * Stop the runner loop (the session itself is stopped by SessionManager)
+ */
+export function stopSessionRunner(sessionId: string): void {
+  activeRunners().get(sessionId)?.stop();
+}
+
+export function isSessionRunnerActive(sessionId: string): boolean {
+  return activeRunners().get(sessionId)?.state === 'running';
+}
+
+export function getSessionRunnerStatus(sessionId: string): SessionRunnerStatus | null {
+  return activeRunners().get(sessionId)?.getStatus() || null;
+}
+
+/**
+ * Restart runners that were active when their server last went down, once
+ * their lease has expired. Called at server startup from instrumentation.ts;
+ * when several servers start together, only the one that claims the lease
+ * relaunches a session.
+ */
+export async function resumePendingRunners(): Promise<number> {
+  const sessions = await getSessionsWithActiveRunner();
+  let resumed = 0;
+
+  for (const session of sessions) {
+    if (activeRunners().has(session.id)) continue;
+
+    const runnerStatus = (session.config as any)?.runner as SessionRunnerStatus | undefined;
+    const runner = new SessionRunner(
+      session.id,
+      runnerStatus?.delayMs ?? DEFAULT_DELAY_MS,
+      runnerStatus?.startedAt
+    );
+    if (!(await runner.claimLease())) continue;
+
+    launch(runner);
+    resumed++;
+  }
+
+  if (resumed > 0) {
+    console.log(`Resumed ${resumed} session runner(s)`);
+  }
+  return resumed;
+}
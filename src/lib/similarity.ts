@@ -0,0 +1,114 @@
+/**
+ * Semantic similarity scoring used to check that compressed messages still
+ * carry their meaning. Scorers are pluggable; the default TF-IDF scorer runs
+ * fully offline so sessions work without an embeddings API.
+ */
+
+export interface SimilarityScorer {
+  id: string;
+  name: string;
+  /**
+   * Similarity of `text` to `reference`, 0-1. `corpus` holds other documents
+   * from the same session for scorers that weight terms by rarity.
+   */
+  score(text: string, reference: string, corpus?: string[]): number;
+}
+
+export const DEFAULT_SIMILARITY_SCORER = 'tfidf';
+
+export const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'if', 'then', 'of', 'to', 'in', 'on', 'at', 'by', 'for',
+  'with', 'from', 'as', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'it', 'its', 'this',
+  'that', 'these', 'those', 'we', 'you', 'they', 'he', 'she', 'i', 'me', 'my', 'our', 'your',
+  'their', 'them', 'us', 'do', 'does', 'did', 'have', 'has', 'had', 'will', 'would', 'can',
+  'could', 'should', 'so', 'not', 'no', 'yes', 'about', 'into', 'than', 'also', 'which', 'what'
+]);
+
+/**
+ * Lowercased, stemmed content words (stopwords removed), in order and with repeats
+ */
+export function tokenizeTerms(text: string): string[] {
+  const words = text.toLowerCase().match(/[a-z0-9\u00c0-\u024f]+/g) || [];
+  return words
+    .filter(word => word.length >= 2 && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+// Light suffix stripping so "compress", "compressed" and "compressing" match
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Cosine similarity of TF-IDF vectors. Document frequencies come from the
+ * corpus plus both texts, with smoothing so an empty corpus still works.
+ */
+export const tfidfScorer: SimilarityScorer = {
+  id: 'tfidf',
+  name: 'TF-IDF cosine (offline)',
+  score(text: string, reference: string, corpus: string[] = []): number {
+    const textTerms = tokenizeTerms(text);
+    const referenceTerms = tokenizeTerms(reference);
+    if (textTerms.length === 0 || referenceTerms.length === 0) return 0;
+
+    const documents = [...corpus.map(doc => new Set(tokenizeTerms(doc))), new Set(textTerms), new Set(referenceTerms)];
+    const idf = (term: string) => {
+      const df = documents.filter(doc => doc.has(term)).length;
+      return Math.log((documents.length + 1) / (df + 1)) + 1;
+    };
+
+    const textVector = weigh(textTerms, idf);
+    const referenceVector = weigh(referenceTerms, idf);
+
+    let dot = 0;
+    textVector.forEach((weight, term) => {
+      dot += weight * (referenceVector.get(term) || 0);
+    });
+
+    const similarity = dot / (magnitude(textVector) * magnitude(referenceVector));
+    return Math.round(Math.min(1, similarity) * 10000) / 10000;
+  }
+};
+
+function weigh(terms: string[], idf: (term: string) => number): Map<string, number> {
+  const vector = new Map<string, number>();
+  terms.forEach(term => vector.set(term, (vector.get(term) || 0) + 1));
+  vector.forEach((count, term) => vector.set(term, (count / terms.length) * idf(term)));
+  return vector;
+}
+
+function magnitude(vector: Map<string, number>): number {
+  let sum = 0;
+  vector.forEach(weight => {
+    sum += weight * weight;
+  });
+  return Math.sqrt(sum);
+}
+
+const scorers = new Map<string, SimilarityScorer>([[tfidfScorer.id, tfidfScorer]]);
+
+/**
+ * Make a scorer (e.g. one backed by a local embedding model) selectable by id
+ */
+export function registerSimilarityScorer(scorer: SimilarityScorer): void {
+  scorers.set(scorer.id, scorer);
+}
+
+/**
+ * Scorer by id, falling back to TF-IDF for unknown ids
+ */
+export function getSimilarityScorer(id: string = DEFAULT_SIMILARITY_SCORER): SimilarityScorer {
+  const scorer = scorers.get(id);
+  if (!scorer) {
+    console.warn(`Unknown similarity scorer "${id}", using ${DEFAULT_SIMILARITY_SCORER}`);
+    return tfidfScorer;
+  }
+  return scorer;
+}
+
+export function getSimilarityScorers(): SimilarityScorer[] {
+  return Array.from(scorers.values());
+}
@@ -0,0 +1,156 @@
+import type { ConversationMessage } from '@/types/session';
+import type { LLMParticipant } from '@/types/llm';
+import type {
+  SymbolTokenCost,
+  TokenBreakdown,
+  TokenSegment,
+  TokenSegmentKind
+} from '@/types/analytics';
+import type { EvolutionPattern } from './evolution-tracker';
+import { TRANSLATION_MARKER } from './comprehension';
+import { getTokenizer } from './tokenizers';
+import type { Tokenizer } from './tokenizers';
+
+// Runs of characters outside ASCII and Latin letters: invented glyphs, arrows, math symbols, emoji
+const UNICODE_SYMBOL_RUN = /[^\x00-\x7F\u00c0-\u024f\s]+/g;
+
+interface ClaimedRange {
+  kind: Exclude<TokenSegmentKind, 'prose'>;
+  start: number;
+  end: number;
+  pattern?: EvolutionPattern;
+}
+
+/**
+ * Attribute a message's tokens to translation brackets, known evolution
+ * patterns, other Unicode symbols and plain prose, using the tokenizer of the
+ * participant's provider/model
+ */
+export function analyzeTokenBreakdown(
+  message: ConversationMessage,
+  participant: LLMParticipant | undefined,
+  patterns: EvolutionPattern[]
+): TokenBreakdown {
+  const tokenizer = getTokenizer(participant?.provider, participant?.model);
+  const text = message.evolvedMessage;
+  const ranges = claimRanges(text, patterns);
+
+  const segments: TokenSegment[] = [];
+  let cursor = 0;
+  const pushSegment = (kind: TokenSegmentKind, start: number, end: number, pattern?: EvolutionPattern) => {
+    if (end <= start) return;
+    const segmentText = text.slice(start, end);
+    segments.push({
+      kind,
+      text: segmentText,
+      start,
+      end,
+      tokens: tokenizer.count(segmentText),
+      ...(pattern ? { patternId: pattern.id } : {})
+    });
+  };
+
+  for (const range of ranges) {
+    pushSegment('prose', cursor, range.start);
+    pushSegment(range.kind, range.start, range.end, range.pattern);
+    cursor = range.end;
+  }
+  pushSegment('prose', cursor, text.length);
+
+  const byKind: Record<TokenSegmentKind, number> = { prose: 0, pattern: 0, symbol: 0, translation: 0 };
+  segments.forEach(segment => {
+    byKind[segment.kind] += segment.tokens;
+  });
+
+  return {
+    messageId: message.id,
+    participantId: message.participantId,
+    speaker: message.speaker,
+    iteration: message.iteration,
+    tokenizer: tokenizer.id,
+    exactTokenizer: tokenizer.exact,
+    totalTokens: tokenizer.count(text),
+    byKind,
+    segments,
+    symbols: summarizeSymbols(ranges, text, tokenizer)
+  };
+}
+
+/**
+ * Non-overlapping ranges in priority order: translation brackets, then known
+ * patterns (longest first), then leftover Unicode symbol runs
+ */
+function claimRanges(text: string, patterns: EvolutionPattern[]): ClaimedRange[] {
+  const ranges: ClaimedRange[] = [];
+  const isFree = (start: number, end: number) => ranges.every(r => end <= r.start || start >= r.end);
+
+  const translationMarker = new RegExp(TRANSLATION_MARKER.source, 'gi');
+  let match: RegExpExecArray | null;
+  while ((match = translationMarker.exec(text)) !== null) {
+    ranges.push({ kind: 'translation', start: match.index, end: match.index + match[0].length });
+  }
+
+  const byLength = patterns
+    .filter(p => p.pattern.trim().length > 0)
+    .sort((a, b) => b.pattern.length - a.pattern.length);
+
+  for (const pattern of byLength) {
+    const needle = pattern.pattern;
+    const wordLike = /^[A-Za-z0-9]/.test(needle);
+    let index = text.indexOf(needle);
+
+    while (index !== -1) {
+      const end = index + needle.length;
+      // Abbreviations and protocol names must stand alone, not sit inside longer words
+      const bounded = !wordLike || (
+        !/[A-Za-z0-9]/.test(text[index - 1] || '') && !/[A-Za-z0-9]/.test(text[end] || '')
+      );
+      if (bounded && isFree(index, end)) {
+        ranges.push({ kind: 'pattern', start: index, end, pattern });
+      }
+      index = text.indexOf(needle, end);
+    }
+  }
+
+  const symbolRun = new RegExp(UNICODE_SYMBOL_RUN.source, 'g');
+  while ((match = symbolRun.exec(text)) !== null) {
+    const start = match.index;
+    const end = start + match[0].length;
+    if (isFree(start, end)) {
+      ranges.push({ kind: 'symbol', start, end });
+    }
+  }
+
+  return ranges.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Token cost per distinct invented symbol: pattern occurrences and Unicode runs
+ */
+function summarizeSymbols(ranges: ClaimedRange[], text: string, tokenizer: Tokenizer): SymbolTokenCost[] {
+  const symbols = new Map<string, SymbolTokenCost>();
+
+  for (const range of ranges) {
+    if (range.kind === 'translation') continue;
+    const symbol = text.slice(range.start, range.end);
+    const existing = symbols.get(symbol);
+
+    if (existing) {
+      existing.occurrences++;
+      existing.totalTokens += existing.tokens;
+      continue;
+    }
+
+    const tokens = tokenizer.count(symbol);
+    symbols.set(symbol, {
+      symbol,
+      tokens,
+      occurrences: 1,
+      totalTokens: tokens,
+      characters: Array.from(symbol).length,
+      ...(range.pattern ? { patternId: range.pattern.id, meaning: range.pattern.meaning } : {})
+    });
+  }
+
+  return Array.from(symbols.values()).sort((a, b) => b.totalTokens - a.totalTokens);
+}
@@ -1,8 +1,20 @@
-import type { LLMProvider } from '@/types/llm';
+import type { LLMParticipant, LLMProvider, OpenAICompatibleParticipantConfig } from '@/types/llm';
+import { getModelInfo } from '@/constants/providers';
+import { getTokenizer } from './tokenizers';
+import { analyzeTokenEfficiency } from './token-stats';
+
+export {
+  analyzeTokenEfficiency,
+  analyzeTokenTrend,
+  formatTokenCount,
+  formatCost
+} from './token-stats';
+export type { TokenEfficiencyAnalysis } from './token-stats';
 
 /**
- * Token counting utilities for different LLM providers
- * These are approximations - for production use, consider using official tokenizers
+ * Token counting utilities for different LLM providers.
+ * getTokenCount uses the offline BPE tokenizers in ./tokenizers; the
+ * estimate* heuristics below are kept as cheap fallbacks.
  */
 
 /**
@@ -85,9 +97,9 @@ export function estimatePerplexityTokens(text: string): number {
 }
 
 /**
- * Get provider-specific token estimation
+ * Character-based estimation per provider, for when a tokenizer is unavailable
  */
-export function getTokenCount(text: string, provider: LLMProvider): number {
+export function estimateProviderTokens(text: string, provider?: LLMProvider): number {
   switch (provider) {
     case 'openai':
       return estimateOpenAITokens(text);
@@ -103,165 +115,99 @@ export function getTokenCount(text: string, provider: LLMProvider): number {
 }
 
 /**
- * Calculate cost based on token count and provider
+ * Count tokens with the tokenizer registered for the provider/model
+ */
+export function getTokenCount(text: string, provider?: LLMProvider, model?: string): number {
+  if (!text) return 0;
+
+  try {
+    return getTokenizer(provider, model).count(text);
+  } catch (error) {
+    console.warn(`Tokenizer failed for ${provider || 'default'}/${model || 'default'}, estimating instead:`, error);
+    return estimateProviderTokens(text, provider);
+  }
+}
+
+// Per 1K tokens, for models missing from the catalogue in constants/providers
+const DEFAULT_COST_PER_THOUSAND_TOKENS: Record<LLMProvider, { input: number; output: number }> = {
+  openai: { input: 0.03, output: 0.06 }, // GPT-4 pricing
+  claude: { input: 0.015, output: 0.075 }, // Claude 3 Opus pricing
+  gemini: { input: 0.00125, output: 0.005 }, // Gemini 1.5 Pro pricing
+  perplexity: { input: 0.001, output: 0.001 },
+  mock: { input: 0, output: 0 }, // Offline mock is free
+  'openai-compatible': { input: 0, output: 0 } // Self-hosted endpoints default to free
+};
+
+/**
+ * USD cost of a call from the model's catalogue prices (ModelInfo
+ * capabilities, per 1K tokens), falling back to provider defaults
  */
 export function calculateCost(
   inputTokens: number,
   outputTokens: number,
   provider: LLMProvider,
-  _model: string
+  model: string
 ): number {
-  // This is a simplified cost calculation
-  // In production, you'd want to import actual pricing from provider configs
-  
-  const costPerThousandTokens = {
-    openai: {
-      input: 0.03, // GPT-4 pricing as default
-      output: 0.06
-    },
-    claude: {
-      input: 0.015, // Claude-3 Opus pricing as default
-      output: 0.075
-    },
-    gemini: {
-      input: 0.00125, // Gemini Pro pricing as default
-      output: 0.005
-    },
-    perplexity: {
-      input: 0.001, // Perplexity pricing as default
-      output: 0.001
-    }
-  };
-
-  const pricing = costPerThousandTokens[provider];
+  const modelInfo = getModelInfo(provider, model);
+  const pricing = modelInfo
+    ? { input: modelInfo.capabilities.costPerInputToken, output: modelInfo.capabilities.costPerOutputToken }
+    : DEFAULT_COST_PER_THOUSAND_TOKENS[provider];
   if (!pricing) return 0;
 
   const inputCost = (inputTokens / 1000) * pricing.input;
   const outputCost = (outputTokens / 1000) * pricing.output;
 
-  return inputCost + outputCost;
+  // Stored as DECIMAL(12,6)
+  return Math.round((inputCost + outputCost) * 1e6) / 1e6;
 }
 
 /**
- * Analyze token efficiency between messages
+ * USD cost of a call made by `participant`. OpenAI-compatible endpoints are
+ * priced from the participant's own `pricing`, entered with the endpoint;
+ * everything else uses calculateCost.
  */
-export interface TokenEfficiencyAnalysis {
-  tokenReduction: number;
-  percentageImprovement: number;
-  efficiencyScore: number; // 0-100
-  trend: 'improving' | 'declining' | 'stable';
-}
-
-export function analyzeTokenEfficiency(
-  previousTokens: number,
-  currentTokens: number
-): TokenEfficiencyAnalysis {
-  if (previousTokens === 0) {
-    return {
-      tokenReduction: 0,
-      percentageImprovement: 0,
-      efficiencyScore: 50, // Neutral score for first message
-      trend: 'stable'
-    };
-  }
-
-  const tokenReduction = previousTokens - currentTokens;
-  const percentageImprovement = (tokenReduction / previousTokens) * 100;
-  
-  // Efficiency score: 0-100 where 100 is maximum efficiency
-  let efficiencyScore = 50; // Start neutral
-  if (percentageImprovement > 0) {
-    efficiencyScore = Math.min(100, 50 + (percentageImprovement * 2));
-  } else {
-    efficiencyScore = Math.max(0, 50 + (percentageImprovement * 2));
+export function calculateParticipantCost(
+  inputTokens: number,
+  outputTokens: number,
+  participant: LLMParticipant
+): number {
+  const pricing = participant.provider === 'openai-compatible'
+    ? (participant.config as OpenAICompatibleParticipantConfig | undefined)?.pricing
+    : undefined;
+  if (!pricing) {
+    return calculateCost(inputTokens, outputTokens, participant.provider, participant.model);
   }
 
-  let trend: 'improving' | 'declining' | 'stable' = 'stable';
-  if (percentageImprovement > 5) {
-    trend = 'improving';
-  } else if (percentageImprovement < -5) {
-    trend = 'declining';
-  }
+  const inputCost = (inputTokens / 1000) * (pricing.input || 0);
+  const outputCost = (outputTokens / 1000) * (pricing.output || 0);
 
-  return {
-    tokenReduction,
-    percentageImprovement,
-    efficiencyScore,
-    trend
-  };
+  return Math.round((inputCost + outputCost) * 1e6) / 1e6;
 }
 
 /**
- * Batch analyze token efficiency for a series of messages
+ * Token efficiency discounted by how much meaning survived, so a message
+ * cannot score well by compressing into something nobody can decode
  */
-export function analyzeTokenTrend(tokenCounts: number[]): {
-  overallTrend: 'improving' | 'declining' | 'stable';
-  averageImprovement: number;
-  bestImprovement: number;
-  worstImprovement: number;
-  efficiencyScores: number[];
-} {
-  if (tokenCounts.length < 2) {
-    return {
-      overallTrend: 'stable',
-      averageImprovement: 0,
-      bestImprovement: 0,
-      worstImprovement: 0,
-      efficiencyScores: [50]
-    };
-  }
-
-  const improvements: number[] = [];
-  const efficiencyScores: number[] = [50]; // First message is neutral
-
-  for (let i = 1; i < tokenCounts.length; i++) {
-    const analysis = analyzeTokenEfficiency(tokenCounts[i - 1], tokenCounts[i]);
-    improvements.push(analysis.percentageImprovement);
-    efficiencyScores.push(analysis.efficiencyScore);
-  }
-
-  const averageImprovement = improvements.reduce((sum, imp) => sum + imp, 0) / improvements.length;
-  const bestImprovement = Math.max(...improvements);
-  const worstImprovement = Math.min(...improvements);
+export interface CompressionAtFidelityAnalysis {
+  compressionRatio: number; // baseline tokens per message token (>1 means shorter)
+  fidelity: number; // 0-1 semantic similarity to the baseline meaning
+  effectiveCompression: number; // compressionRatio * fidelity
+  score: number; // 0-100, efficiency score * fidelity
+}
 
-  let overallTrend: 'improving' | 'declining' | 'stable' = 'stable';
-  if (averageImprovement > 2) {
-    overallTrend = 'improving';
-  } else if (averageImprovement < -2) {
-    overallTrend = 'declining';
-  }
+export function analyzeCompressionAtFidelity(
+  baselineTokens: number,
+  currentTokens: number,
+  fidelity: number
+): CompressionAtFidelityAnalysis {
+  const boundedFidelity = Math.max(0, Math.min(1, fidelity));
+  const compressionRatio = currentTokens > 0 && baselineTokens > 0 ? baselineTokens / currentTokens : 1;
+  const { efficiencyScore } = analyzeTokenEfficiency(baselineTokens, currentTokens);
 
   return {
-    overallTrend,
-    averageImprovement,
-    bestImprovement,
-    worstImprovement,
-    efficiencyScores
+    compressionRatio,
+    fidelity: boundedFidelity,
+    effectiveCompression: compressionRatio * boundedFidelity,
+    score: efficiencyScore * boundedFidelity
   };
 }
-
-/**
- * Format token count for display
- */
-export function formatTokenCount(tokens: number): string {
-  if (tokens < 1000) {
-    return tokens.toString();
-  } else if (tokens < 1000000) {
-    return `${(tokens / 1000).toFixed(1)}K`;
-  } else {
-    return `${(tokens / 1000000).toFixed(1)}M`;
-  }
-}
-
-/**
- * Format cost for display
- */
-export function formatCost(cost: number): string {
-  if (cost < 0.01) {
-    return `$${(cost * 1000).toFixed(2)}m`; // Show in thousandths
-  } else if (cost < 1) {
-    return `$${cost.toFixed(3)}`;
-  } else {
-    return `$${cost.toFixed(2)}`;
-  }
-}
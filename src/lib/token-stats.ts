@@ -0,0 +1,129 @@
+/**
+ * Token statistics and display formatting that need no tokenizer. Kept apart
+ * from ./token-counter so client components can use them without bundling
+ * the BPE rank tables; token-counter re-exports them for server code.
+ */
+
+/**
+ * Analyze token efficiency between messages
+ */
+export interface TokenEfficiencyAnalysis {
+  tokenReduction: number;
+  percentageImprovement: number;
+  efficiencyScore: number; // 0-100
+  trend: 'improving' | 'declining' | 'stable';
+}
+
+export function analyzeTokenEfficiency(
+  previousTokens: number,
+  currentTokens: number
+): TokenEfficiencyAnalysis {
+  if (previousTokens === 0) {
+    return {
+      tokenReduction: 0,
+      percentageImprovement: 0,
+      efficiencyScore: 50, // Neutral score for first message
+      trend: 'stable'
+    };
+  }
+
+  const tokenReduction = previousTokens - currentTokens;
+  const percentageImprovement = (tokenReduction / previousTokens) * 100;
+  
+  // Efficiency score: 0-100 where 100 is maximum efficiency
+  let efficiencyScore = 50; // Start neutral
+  if (percentageImprovement > 0) {
+    efficiencyScore = Math.min(100, 50 + (percentageImprovement * 2));
+  } else {
+    efficiencyScore = Math.max(0, 50 + (percentageImprovement * 2));
+  }
+
+  let trend: 'improving' | 'declining' | 'stable' = 'stable';
+  if (percentageImprovement > 5) {
+    trend = 'improving';
+  } else if (percentageImprovement < -5) {
+    trend = 'declining';
+  }
+
+  return {
+    tokenReduction,
+    percentageImprovement,
+    efficiencyScore,
+    trend
+  };
+}
+
+/**
+ * Batch analyze token efficiency for a series of messages
+ */
+export function analyzeTokenTrend(tokenCounts: number[]): {
+  overallTrend: 'improving' | 'declining' | 'stable';
+  averageImprovement: number;
+  bestImprovement: number;
+  worstImprovement: number;
+  efficiencyScores: number[];
+} {
+  if (tokenCounts.length < 2) {
+    return {
+      overallTrend: 'stable',
+      averageImprovement: 0,
+      bestImprovement: 0,
+      worstImprovement: 0,
+      efficiencyScores: [50]
+    };
+  }
+
+  const improvements: number[] = [];
+  const efficiencyScores: number[] = [50]; // First message is neutral
+
+  for (let i = 1; i < tokenCounts.length; i++) {
+    const analysis = analyzeTokenEfficiency(tokenCounts[i - 1], tokenCounts[i]);
+    improvements.push(analysis.percentageImprovement);
+    efficiencyScores.push(analysis.efficiencyScore);
+  }
+
+  const averageImprovement = improvements.reduce((sum, imp) => sum + imp, 0) / improvements.length;
+  const bestImprovement = Math.max(...improvements);
+  const worstImprovement = Math.min(...improvements);
+
+  let overallTrend: 'improving' | 'declining' | 'stable' = 'stable';
+  if (averageImprovement > 2) {
+    overallTrend = 'improving';
+  } else if (averageImprovement < -2) {
+    overallTrend = 'declining';
+  }
+
+  return {
+    overallTrend,
+    averageImprovement,
+    bestImprovement,
+    worstImprovement,
+    efficiencyScores
+  };
+}
+
+/**
+ * Format token count for display
+ */
+export function formatTokenCount(tokens: number): string {
+  if (tokens < 1000) {
+    return tokens.toString();
+  } else if (tokens < 1000000) {
+    return `${(tokens / 1000).toFixed(1)}K`;
+  } else {
+    return `${(tokens / 1000000).toFixed(1)}M`;
+  }
+}
+
+/**
+ * Format cost for display
+ */
+export function formatCost(cost: number): string {
+  if (cost < 0.01) {
+    return `$${(cost * 1000).toFixed(2)}m`; // Show in thousandths
+  } else if (cost < 1) {
+    return `$${cost.toFixed(3)}`;
+  } else {
+    return `$${cost.toFixed(2)}`;
+  }
+}
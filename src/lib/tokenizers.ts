@@ -0,0 +1,111 @@
+import { Tiktoken } from 'js-tiktoken/lite';
+import type { TiktokenBPE } from 'js-tiktoken/lite';
+import cl100kBase from 'js-tiktoken/ranks/cl100k_base';
+import o200kBase from 'js-tiktoken/ranks/o200k_base';
+import type { LLMProvider } from '@/types/llm';
+
+/**
+ * Offline tokenizer registry. OpenAI models get their real BPE encodings
+ * (cl100k_base / o200k_base); providers whose tokenizers are not published
+ * get the closest BPE encoding with a calibration factor, which is still far
+ * closer than chars/4 for symbol-heavy text (a glyph like ⊕ is 1 character
+ * but up to 3 tokens).
+ */
+export interface Tokenizer {
+  id: string;
+  name: string;
+  exact: boolean; // false when approximating an unpublished tokenizer
+  count(text: string): number;
+  encode?(text: string): number[]; // Token ids, for tokenizers that expose them
+}
+
+interface TokenizerRule {
+  provider: LLMProvider;
+  model?: RegExp; // Any model of the provider when omitted
+  tokenizer: string;
+}
+
+/**
+ * Real BPE encoder; the rank table is only parsed on first use
+ */
+function createBpeTokenizer(id: string, name: string, ranks: TiktokenBPE): Tokenizer {
+  let encoder: Tiktoken | null = null;
+
+  const encode = (text: string): number[] => {
+    if (!text) return [];
+    encoder = encoder || new Tiktoken(ranks);
+    // Special-token strings in model output are encoded as plain text instead of throwing
+    return encoder.encode(text, [], []);
+  };
+
+  return {
+    id,
+    name,
+    exact: true,
+    count: (text: string) => encode(text).length,
+    encode
+  };
+}
+
+function createApproximateTokenizer(id: string, name: string, base: Tokenizer, factor: number): Tokenizer {
+  return {
+    id,
+    name,
+    exact: false,
+    count: (text: string) => (text ? Math.ceil(base.count(text) * factor) : 0),
+    // The base encoding's ids; only the count is calibrated
+    encode: base.encode
+  };
+}
+
+const cl100k = createBpeTokenizer('cl100k_base', 'OpenAI cl100k_base', cl100kBase);
+const o200k = createBpeTokenizer('o200k_base', 'OpenAI o200k_base', o200kBase);
+
+const tokenizers = new Map<string, Tokenizer>([
+  [cl100k.id, cl100k],
+  [o200k.id, o200k],
+  // Anthropic's tokenizer splits text into roughly 10% more tokens than cl100k
+  ['claude', createApproximateTokenizer('claude', 'Claude (cl100k approximation)', cl100k, 1.1)],
+  // Gemini's SentencePiece vocabulary is closest to o200k in size and coverage
+  ['gemini', createApproximateTokenizer('gemini', 'Gemini (o200k approximation)', o200k, 1)],
+  // Llama 3 based models use a tiktoken vocabulary that extends cl100k
+  ['llama', createApproximateTokenizer('llama', 'Llama 3 (cl100k approximation)', cl100k, 1)]
+]);
+
+// First match wins; registerTokenizer() prepends its rules
+const rules: TokenizerRule[] = [
+  { provider: 'openai', model: /^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|o\d)/, tokenizer: 'o200k_base' },
+  { provider: 'openai', tokenizer: 'cl100k_base' },
+  { provider: 'claude', tokenizer: 'claude' },
+  { provider: 'gemini', tokenizer: 'gemini' },
+  { provider: 'perplexity', tokenizer: 'llama' },
+  { provider: 'openai-compatible', tokenizer: 'llama' },
+  { provider: 'mock', tokenizer: 'cl100k_base' }
+];
+
+/**
+ * Add a tokenizer and, optionally, route a provider (and model pattern) to it
+ */
+export function registerTokenizer(
+  tokenizer: Tokenizer,
+  match?: { provider: LLMProvider; model?: RegExp }
+): void {
+  tokenizers.set(tokenizer.id, tokenizer);
+  if (match) {
+    rules.unshift({ ...match, tokenizer: tokenizer.id });
+  }
+}
+
+/**
+ * Tokenizer for a provider/model (cl100k_base when nothing matches)
+ */
+export function getTokenizer(provider?: LLMProvider, model?: string): Tokenizer {
+  const rule = rules.find(r =>
+    r.provider === provider && (!r.model || (model !== undefined && r.model.test(model)))
+  );
+  return (rule && tokenizers.get(rule.tokenizer)) || cl100k;
+}
+
+export function getTokenizers(): Tokenizer[] {
+  return Array.from(tokenizers.values());
+}
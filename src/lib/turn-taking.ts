@@ -0,0 +1,275 @@
+import type { ConversationMessage, TurnTakingConfig, TurnTakingStrategy } from '@/types/session';
+import type { LLMParticipant } from '@/types/llm';
+import type { EvolutionPattern } from './evolution-tracker';
+import { createRandom, hashString } from './utils';
+
+export const TURN_TAKING_STRATEGIES: Record<TurnTakingStrategy, { name: string; description: string }> = {
+  'round-robin': {
+    name: 'Round Robin',
+    description: 'Participants speak in a fixed order'
+  },
+  random: {
+    name: 'Random',
+    description: 'A random participant speaks next, never the same one twice in a row'
+  },
+  weighted: {
+    name: 'Weighted',
+    description: 'Like random, but participants with a higher weight speak more often'
+  },
+  'most-addressed': {
+    name: 'Most Addressed',
+    description: 'Whoever the last message mentioned last speaks next'
+  },
+  moderator: {
+    name: 'Moderator',
+    description: 'One speaker chairs: it speaks between turns and names who goes next'
+  },
+  'respond-to-last-innovator': {
+    name: 'Respond to Last Innovator',
+    description: 'The floor alternates between the author of the newest pattern and the others'
+  }
+};
+
+export interface TurnTakingContext {
+  participants: LLMParticipant[];
+  messages: Array<Pick<ConversationMessage, 'speaker' | 'participantId' | 'evolvedMessage' | 'kind'>>;
+  iteration: number; // The iteration about to be generated (1-based)
+  seed?: string; // Usually the session id, so random orders replay identically
+  patterns?: EvolutionPattern[]; // EvolutionTracker patterns, for respond-to-last-innovator
+  requestedSpeaker?: string; // Participant name or id chosen by a human moderator
+}
+
+/**
+ * Participants that take conversation turns (moderators and observers do not)
+ */
+export function getSpeakers(participants: LLMParticipant[]): LLMParticipant[] {
+  return participants.filter(p => !p.role || p.role === 'speaker');
+}
+
+/**
+ * The moderator due to speak before the next conversation turn, if any.
+ * A moderator turn follows every `interval` speaker turns (one full round
+ * by default), at most once per iteration and never after the last one.
+ */
+export function getScheduledModerator(
+  participants: LLMParticipant[],
+  messages: Array<Pick<ConversationMessage, 'iteration' | 'kind'>>,
+  currentIteration: number,
+  maxIterations: number,
+  interval?: number
+): LLMParticipant | null {
+  const moderator = participants.find(p => p.role === 'moderator');
+  if (!moderator || currentIteration === 0 || currentIteration >= maxIterations) return null;
+
+  const every = Math.max(1, interval || getSpeakers(participants).length);
+  if (currentIteration % every !== 0) return null;
+
+  const alreadyModerated = messages.some(m => m.kind === 'moderation' && m.iteration === currentIteration);
+  return alreadyModerated ? null : moderator;
+}
+
+/**
+ * Pick the participant for the next turn. Pure, so the client can predict
+ * the next speaker from the same session data the server uses.
+ * Only speakers are considered and moderation messages are ignored.
+ */
+export function selectSpeaker(
+  config: TurnTakingConfig | undefined,
+  turnContext: TurnTakingContext
+): LLMParticipant | null {
+  const context: TurnTakingContext = {
+    ...turnContext,
+    participants: getSpeakers(turnContext.participants),
+    messages: turnContext.messages.filter(m => m.kind !== 'moderation')
+  };
+  const { participants } = context;
+  if (participants.length === 0) return null;
+
+  switch (config?.strategy) {
+    case 'random':
+      return selectRandom(context, config, () => 1);
+    case 'weighted':
+      return selectRandom(context, config, p => config.weights?.[p.name] ?? 1);
+    case 'most-addressed':
+      return selectMostAddressed(context);
+    case 'moderator':
+      return selectModerated(context, config);
+    case 'respond-to-last-innovator':
+      return selectLastInnovatorTurn(context);
+    default:
+      return roundRobin(context);
+  }
+}
+
+/**
+ * Check that the strategy settings reference real participants
+ */
+export function validateTurnTakingConfig(
+  config: TurnTakingConfig | undefined,
+  allParticipants: LLMParticipant[]
+): string | null {
+  if (!config) return null;
+
+  const participants = getSpeakers(allParticipants);
+
+  if (!TURN_TAKING_STRATEGIES[config.strategy]) {
+    return `Unknown turn-taking strategy: ${config.strategy}`;
+  }
+
+  if (config.strategy === 'weighted') {
+    // Weights for names that are not participants are ignored
+    const weights = config.weights || {};
+    if (Object.keys(weights).some(name => weights[name] < 0)) {
+      return 'Turn-taking weights must not be negative';
+    }
+    if (!participants.some(p => (weights[p.name] ?? 1) > 0)) {
+      return 'At least one participant needs a positive weight';
+    }
+  }
+
+  if (config.strategy === 'moderator' && config.moderator) {
+    if (!findParticipant(participants, config.moderator)) {
+      return `Moderator ${config.moderator} is not a speaking participant`;
+    }
+    if (participants.length < 3) {
+      return 'The moderator strategy needs at least two participants besides the moderator';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Extra prompt instructions for the moderator participant, if this speaker is one
+ */
+export function getModeratorInstructions(
+  config: TurnTakingConfig | undefined,
+  participants: LLMParticipant[],
+  speaker: LLMParticipant
+): string {
+  if (config?.strategy !== 'moderator' || !config.moderator) return '';
+  if (findParticipant(participants, config.moderator) !== speaker) return '';
+
+  const others = getSpeakers(participants).filter(p => p !== speaker).map(p => p.name);
+  return [
+    'MODERATOR ROLE:',
+    'You moderate this conversation. Summarize or steer briefly, then choose who speaks next.',
+    `End your message with "NEXT: <name>" using one of: ${others.join(', ')}`
+  ].join('\n');
+}
+
+function roundRobin({ participants, iteration }: TurnTakingContext): LLMParticipant {
+  return participants[(iteration - 1) % participants.length];
+}
+
+function findParticipant(participants: LLMParticipant[], nameOrId: string): LLMParticipant | undefined {
+  const key = nameOrId.trim().toLowerCase();
+  return participants.find(p => p.id === nameOrId || p.name.toLowerCase() === key);
+}
+
+function lastSpeaker(context: TurnTakingContext): LLMParticipant | undefined {
+  const last = context.messages[context.messages.length - 1];
+  if (!last) return undefined;
+  return context.participants.find(p => p.id === last.participantId) ||
+    findParticipant(context.participants, last.speaker);
+}
+
+/**
+ * Participant whose name appears last in `text`, ignoring `exclude`
+ */
+function lastMentioned(
+  text: string,
+  participants: LLMParticipant[],
+  exclude?: LLMParticipant
+): LLMParticipant | undefined {
+  const lowered = text.toLowerCase();
+  let best: { participant: LLMParticipant; index: number } | undefined;
+
+  for (const participant of participants) {
+    if (participant === exclude) continue;
+    const index = lowered.lastIndexOf(participant.name.toLowerCase());
+    if (index >= 0 && (!best || index > best.index)) {
+      best = { participant, index };
+    }
+  }
+
+  return best?.participant;
+}
+
+function selectRandom(
+  context: TurnTakingContext,
+  config: TurnTakingConfig,
+  weightOf: (participant: LLMParticipant) => number
+): LLMParticipant {
+  const previous = lastSpeaker(context);
+  let candidates = context.participants.filter(p => weightOf(p) > 0);
+  if (candidates.length > 1) {
+    candidates = candidates.filter(p => p !== previous);
+  }
+  if (candidates.length === 0) {
+    return roundRobin(context);
+  }
+
+  const random = createRandom(hashString(`${context.seed ?? ''}:${config.seed ?? 0}:${context.iteration}`));
+  const total = candidates.reduce((sum, p) => sum + weightOf(p), 0);
+  let roll = random() * total;
+
+  for (const candidate of candidates) {
+    roll -= weightOf(candidate);
+    if (roll < 0) return candidate;
+  }
+  return candidates[candidates.length - 1];
+}
+
+function selectMostAddressed(context: TurnTakingContext): LLMParticipant {
+  const last = context.messages[context.messages.length - 1];
+  if (!last) return roundRobin(context);
+
+  return lastMentioned(last.evolvedMessage, context.participants, lastSpeaker(context)) ||
+    roundRobin(context);
+}
+
+/**
+ * The moderator speaks after every other turn and names the next speaker
+ * ("NEXT: name", else the last participant it mentioned). A speaker passed in
+ * the request (a human moderator) always wins.
+ */
+function selectModerated(context: TurnTakingContext, config: TurnTakingConfig): LLMParticipant {
+  if (context.requestedSpeaker) {
+    const requested = findParticipant(context.participants, context.requestedSpeaker);
+    if (requested) return requested;
+  }
+
+  const moderator = config.moderator ? findParticipant(context.participants, config.moderator) : undefined;
+  if (!moderator) return roundRobin(context);
+
+  const previous = lastSpeaker(context);
+  if (previous !== moderator) return moderator;
+
+  const others = context.participants.filter(p => p !== moderator);
+  const last = context.messages[context.messages.length - 1];
+  const directive = last.evolvedMessage.match(/NEXT:\s*([^\n]+)/i);
+  const chosen = (directive && lastMentioned(directive[1], others)) ||
+    lastMentioned(last.evolvedMessage, others);
+  if (chosen) return chosen;
+
+  // Moderator named nobody: rotate through the others
+  const otherTurns = context.messages.filter(m => m.participantId !== moderator.id && m.speaker !== moderator.name).length;
+  return others[otherTurns % others.length];
+}
+
+function selectLastInnovatorTurn(context: TurnTakingContext): LLMParticipant {
+  const newest = (context.patterns || []).reduce<EvolutionPattern | undefined>(
+    (latest, pattern) => (!latest || pattern.firstUsedIn >= latest.firstUsedIn ? pattern : latest),
+    undefined
+  );
+  const innovator = newest ? findParticipant(context.participants, newest.firstUsedBy) : undefined;
+  if (!innovator) return roundRobin(context);
+
+  // After the innovator speaks the next participant in order responds; then the floor returns
+  if (lastSpeaker(context) === innovator) {
+    const index = context.participants.indexOf(innovator);
+    return context.participants[(index + 1) % context.participants.length];
+  }
+  return innovator;
+}
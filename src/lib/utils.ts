@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from 'clsx';
 import { twMerge } from 'tailwind-merge';
+import type { SessionRunnerStatus } from '@/types/session';
 
 /**
  * Utility function to combine class names with Tailwind CSS merge support
@@ -174,6 +175,32 @@ export function getContrastingColor(backgroundColor: string): string {
   return brightness > 128 ? '#000000' : '#ffffff';
 }
 
+/**
+ * Mulberry32 PRNG - small, fast and deterministic for a given seed
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * FNV-1a string hash, handy for deriving seeds from strings
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
 /**
  * Sleep/delay utility for async functions
  */
@@ -209,6 +236,70 @@ export async function retry<T>(
   throw lastError!;
 }
 
+/**
+ * Read a `text/event-stream` response body, calling `onEvent` with the
+ * data payload (and event name, if any) of each server-sent event
+ */
+export async function readServerSentEvents(
+  response: Response,
+  onEvent: (data: string, event?: string) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Streaming response has no body');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (block: string) => {
+    let event: string | undefined;
+    const dataLines: string[] = [];
+
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).replace(/^ /, ''));
+      }
+    }
+
+    if (dataLines.length > 0) {
+      onEvent(dataLines.join('\n'), event);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let boundary = buffer.search(/\r?\n\r?\n/);
+    while (boundary !== -1) {
+      dispatch(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+      boundary = buffer.search(/\r?\n\r?\n/);
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim().length > 0) {
+    dispatch(buffer);
+  }
+}
+
+/**
+ * Whether a server-side runner is driving the session: it says it is running
+ * and its process still renews the lease. A crashed process leaves the state
+ * at 'running' but lets the lease expire.
+ */
+export function isRunnerLeaseActive(runner?: SessionRunnerStatus | null): boolean {
+  if (runner?.state !== 'running' || !runner.leaseExpiresAt) return false;
+  return new Date(runner.leaseExpiresAt).getTime() > Date.now();
+}
+
 /**
  * Parse and validate environment variables
  */
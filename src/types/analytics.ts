@@ -3,6 +3,7 @@ export interface SessionAnalyticsData {
   tokenMetrics: TokenMetrics;
   communicationEvolution: CommunicationEvolution;
   participantAnalysis: ParticipantAnalysis[];
+  comprehension: ComprehensionMetrics;
   realTimeMetrics: RealTimeMetrics;
 }
 
@@ -17,7 +18,13 @@ export interface TokenMetrics {
 export interface EfficiencyDataPoint {
   iteration: number;
   tokensUsed: number;
-  cumulativeEfficiency: number;
+  cumulativeEfficiency: number; // Legacy efficiencyScore
+  payloadTokens?: number; // Completion tokens of the payload, translations excluded
+  participantEfficiency?: number; // 0-100 vs the speaker's first message
+  sessionEfficiency?: number; // 0-100 vs the session's first round
+  fidelityScore?: number; // 0-1 when the message had a decode test
+  semanticFidelity?: number; // 0-1 similarity to the baseline meaning
+  compressionAtFidelity?: number; // 0-100 efficiency discounted by semantic fidelity
   participantId: string;
   timestamp: Date;
 }
@@ -29,11 +36,12 @@ export interface ProviderComparisonData {
   efficiency: number;
   averageResponseTime: number;
   messageCount: number;
-  costEstimate: number;
+  cost: number; // Actual USD spend
 }
 
 export interface CostAnalysis {
-  totalCostEstimate: number;
+  totalCost: number; // Actual USD spend from per-message costs
+  projectedCost: number; // Estimate made when the session started
   costByProvider: Array<{
     provider: string;
     cost: number;
@@ -45,6 +53,103 @@ export interface CostAnalysis {
   }>;
 }
 
+// Decode tests: how much meaning survives compression (fidelity 0-1)
+export interface ComprehensionMetrics {
+  checkedMessages: number;
+  averageFidelity: number | null;
+  averageSemanticFidelity: number | null;
+  compressionAtFidelity: number | null; // Average score, 0-100
+  fidelityTrend: FidelityDataPoint[];
+  byParticipant: Array<{
+    participantId: string;
+    name: string;
+    checks: number;
+    averageFidelity: number;
+  }>;
+}
+
+export interface FidelityDataPoint {
+  iteration: number;
+  participantId: string;
+  decoderName: string;
+  fidelityScore: number;
+  tokensUsed: number;
+}
+
+// Where a message's tokens go (see src/lib/token-breakdown.ts)
+export type TokenSegmentKind = 'prose' | 'pattern' | 'symbol' | 'translation';
+
+export interface TokenSegment {
+  kind: TokenSegmentKind;
+  text: string;
+  start: number; // Character offsets into evolvedMessage
+  end: number;
+  tokens: number;
+  patternId?: string;
+}
+
+export interface SymbolTokenCost {
+  symbol: string;
+  tokens: number; // Cost of one occurrence
+  occurrences: number;
+  totalTokens: number;
+  characters: number;
+  patternId?: string;
+  meaning?: string;
+}
+
+export interface TokenBreakdown {
+  messageId: string;
+  participantId: string;
+  speaker: string;
+  iteration: number;
+  tokenizer: string;
+  exactTokenizer: boolean;
+  totalTokens: number; // Whole message encoded at once
+  byKind: Record<TokenSegmentKind, number>; // Segments encoded separately, so the sum can differ slightly
+  segments: TokenSegment[];
+  symbols: SymbolTokenCost[];
+}
+
+// Who adopted which pattern, and how fast (see src/lib/adoption.ts)
+export interface PatternAdopter {
+  speaker: string;
+  firstIteration: number;
+  latency: number; // Iterations between introduction and first use
+  uses: number;
+  consistentUses: number;
+  judgedUses: number; // Uses whose consistency with the meaning could be judged
+}
+
+export interface PatternAdoption {
+  patternId: string;
+  pattern: string;
+  type: 'symbol' | 'abbreviation' | 'protocol' | 'structure';
+  meaning: string;
+  introducedBy: string;
+  introducedIn: number;
+  uses: number; // Every use, the introducer's included
+  adopters: PatternAdopter[];
+  adoptionRate: number; // 0-1, share of the other speakers who adopted it
+  averageLatency: number | null;
+  consistency: number | null; // 0-1 over judged uses by adopters
+}
+
+export interface ParticipantInfluence {
+  speaker: string;
+  introduced: number;
+  adoptedPatterns: number; // Introduced patterns at least one other speaker adopted
+  adoptions: number; // Adopters summed over introduced patterns
+  influenceScore: number; // 0-100, share of all adoptions in the session
+  adoptionLatency: number | null; // Average latency when adopting others' patterns
+  consistency: number | null; // 0-1 over this speaker's judged uses of others' patterns
+}
+
+export interface AdoptionReport {
+  patterns: PatternAdoption[];
+  participants: ParticipantInfluence[];
+}
+
 export interface CommunicationEvolution {
   symbolsIntroduced: SymbolIntroduction[];
   patternChanges: PatternChange[];
@@ -69,12 +174,47 @@ export interface PatternChange {
   confidenceScore: number;
 }
 
-export interface LanguageComplexityData {
+export interface LanguageComplexityData extends LanguageMetrics {
   iteration: number;
-  complexityScore: number;
-  readabilityScore: number;
-  vocabularyDiversity: number;
-  sentenceLength: number;
+  complexityScore: number; // Token entropy in bits per token
+  readabilityScore: number; // 0-100, share of dictionary words
+  vocabularyDiversity: number; // Type/token ratio
+  sentenceLength: number; // Words per sentence
+}
+
+// Information-theoretic measures of a message's payload (see src/lib/language-metrics.ts)
+export interface LanguageMetrics {
+  characters: number;
+  words: number; // Words and symbol runs; sentence punctuation excluded
+  tokens: number;
+  characterEntropy: number; // Bits per character
+  tokenEntropy: number; // Bits per token, with the author's tokenizer
+  typeTokenRatio: number; // 0-1, distinct words over words
+  zipfExponent: number | null; // Fitted s in frequency ~ rank^-s; null without repeated words
+  gzipRatio: number; // Compressed over original bytes
+  brotliRatio: number;
+  outOfDictionaryRate: number; // 0-1, share of words and symbols that are not English words
+}
+
+export interface MessageLanguageMetrics {
+  messageId: string;
+  speaker: string;
+  iteration: number;
+  metrics: LanguageMetrics;
+}
+
+// Metrics over the concatenated payloads of a window of iterations
+export interface WindowLanguageMetrics {
+  startIteration: number;
+  endIteration: number;
+  messageCount: number;
+  metrics: LanguageMetrics;
+}
+
+export interface LanguageMetricsReport {
+  window: number; // Iterations per window
+  messages: MessageLanguageMetrics[];
+  windows: WindowLanguageMetrics[];
 }
 
 export interface InnovationMoment {
@@ -93,6 +233,8 @@ export interface ParticipantAnalysis {
   adaptationRate: number;
   innovationScore: number;
   collaborationEffectiveness: number;
+  influenceScore?: number; // 0-100, share of all adoptions that were of this participant's patterns
+  adoptionLatency?: number | null; // Average iterations before this participant adopted others' patterns
   communicationStyle: string[];
   performanceMetrics: ParticipantPerformanceMetrics;
 }
@@ -153,6 +295,7 @@ export interface TokenUsageChartData {
   }>;
 }
 
+// Pattern adoption network (see src/lib/pattern-network.ts); iterations let it be replayed over time
 export interface CommunicationPatternData {
   nodes: Array<{
     id: string;
@@ -160,12 +303,18 @@ export interface CommunicationPatternData {
     size: number;
     color: string;
     type: 'participant' | 'pattern' | 'symbol';
+    iteration: number; // First appearance
+    activity: number[]; // Iterations the participant spoke in, or the pattern was used in
+    meaning?: string;
+    patternType?: 'symbol' | 'abbreviation' | 'protocol' | 'structure';
   }>;
   edges: Array<{
     source: string;
     target: string;
     weight: number;
     type: 'introduces' | 'adopts' | 'modifies';
+    iteration: number; // First occurrence
+    iterations: number[];
   }>;
 }
 
@@ -202,6 +351,34 @@ export interface PatternAnalysis {
   emergingTrends: string[];
   anomalies: string[];
   predictions: string[];
+  convergence?: ConvergenceWindow; // The window ending at the snapshot's iteration
+}
+
+// Cross-participant convergence and dialects (see src/lib/convergence.ts)
+export interface PairwiseSimilarity {
+  a: string;
+  b: string;
+  lexical: number; // 0-1, cosine of content words and symbols
+  structural: number; // 0-1, cosine of message shape bigrams
+  combined: number; // Mean of the two
+}
+
+export interface ConvergenceWindow {
+  startIteration: number;
+  endIteration: number;
+  participants: string[]; // Speakers active in the window
+  pairs: PairwiseSimilarity[];
+  dialects: string[][]; // Groups of participants, largest first
+  convergenceIndex: number | null; // 0-1, mean combined similarity; null under two speakers
+}
+
+export type ConvergenceTrend = 'converging' | 'diverging' | 'stable';
+
+export interface ConvergenceReport {
+  window: number; // Iterations per window
+  step: number; // Iterations between window ends
+  windows: ConvergenceWindow[];
+  trend: ConvergenceTrend;
 }
 
 // Export types
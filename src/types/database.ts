@@ -14,7 +14,7 @@ export interface Database {
           id: string
           created_at: string
           updated_at: string
-          status: 'running' | 'completed' | 'stopped' | 'error'
+          status: 'running' | 'paused' | 'completed' | 'stopped' | 'error'
           config: Json
           topic: string
           scenario: 'protocol-evolution' | 'semantic-compression' | 'symbol-invention' | 'meta-communication' | 'iterative-optimization'
@@ -24,8 +24,12 @@ export interface Database {
           started_at: string
           completed_at: string | null
           total_tokens: number
+          total_cost_usd: number
           efficiency_score: number | null
           avg_response_time: number | null
+          stop_reason: 'manual' | 'completed' | 'error' | 'timeout' | 'budget_exceeded' | null
+          runner_owner: string | null
+          runner_lease_expires_at: string | null
           user_ip: string | null
           user_agent: string | null
         }
@@ -33,7 +37,7 @@ export interface Database {
           id?: string
           created_at?: string
           updated_at?: string
-          status?: 'running' | 'completed' | 'stopped' | 'error'
+          status?: 'running' | 'paused' | 'completed' | 'stopped' | 'error'
           config: Json
           topic: string
           scenario: 'protocol-evolution' | 'semantic-compression' | 'symbol-invention' | 'meta-communication' | 'iterative-optimization'
@@ -43,8 +47,12 @@ export interface Database {
           started_at?: string
           completed_at?: string | null
           total_tokens?: number
+          total_cost_usd?: number
           efficiency_score?: number | null
           avg_response_time?: number | null
+          stop_reason?: 'manual' | 'completed' | 'error' | 'timeout' | 'budget_exceeded' | null
+          runner_owner?: string | null
+          runner_lease_expires_at?: string | null
           user_ip?: string | null
           user_agent?: string | null
         }
@@ -52,7 +60,7 @@ export interface Database {
           id?: string
           created_at?: string
           updated_at?: string
-          status?: 'running' | 'completed' | 'stopped' | 'error'
+          status?: 'running' | 'paused' | 'completed' | 'stopped' | 'error'
           config?: Json
           topic?: string
           scenario?: 'protocol-evolution' | 'semantic-compression' | 'symbol-invention' | 'meta-communication'
@@ -62,8 +70,12 @@ export interface Database {
           started_at?: string
           completed_at?: string | null
           total_tokens?: number
+          total_cost_usd?: number
           efficiency_score?: number | null
           avg_response_time?: number | null
+          stop_reason?: 'manual' | 'completed' | 'error' | 'timeout' | 'budget_exceeded' | null
+          runner_owner?: string | null
+          runner_lease_expires_at?: string | null
           user_ip?: string | null
           user_agent?: string | null
         }
@@ -74,12 +86,13 @@ export interface Database {
           id: string
           session_id: string
           name: string
-          provider: 'openai' | 'claude' | 'gemini' | 'perplexity'
+          provider: 'openai' | 'claude' | 'gemini' | 'perplexity' | 'mock' | 'openai-compatible'
           model: string
           temperature: number
           config: Json | null
           total_messages: number
           total_tokens: number
+          total_cost_usd: number
           average_response_time: number | null
           efficiency_trend: number[] | null
           created_at: string
@@ -88,12 +101,13 @@ export interface Database {
           id?: string
           session_id: string
           name: string
-          provider: 'openai' | 'claude' | 'gemini' | 'perplexity'
+          provider: 'openai' | 'claude' | 'gemini' | 'perplexity' | 'mock' | 'openai-compatible'
           model: string
           temperature: number
           config?: Json | null
           total_messages?: number
           total_tokens?: number
+          total_cost_usd?: number
           average_response_time?: number | null
           efficiency_trend?: number[] | null
           created_at?: string
@@ -102,12 +116,13 @@ export interface Database {
           id?: string
           session_id?: string
           name?: string
-          provider?: 'openai' | 'claude' | 'gemini' | 'perplexity'
+          provider?: 'openai' | 'claude' | 'gemini' | 'perplexity' | 'mock' | 'openai-compatible'
           model?: string
           temperature?: number
           config?: Json | null
           total_messages?: number
           total_tokens?: number
+          total_cost_usd?: number
           average_response_time?: number | null
           efficiency_trend?: number[] | null
           created_at?: string
@@ -135,6 +150,10 @@ export interface Database {
           timestamp: string
           evolution_markers: string[] | null
           efficiency_score: number | null
+          fidelity_score: number | null
+          cost_usd: number
+          metadata: Json | null
+          kind: 'message' | 'moderation'
         }
         Insert: {
           id?: string
@@ -149,6 +168,10 @@ export interface Database {
           timestamp?: string
           evolution_markers?: string[] | null
           efficiency_score?: number | null
+          fidelity_score?: number | null
+          cost_usd?: number
+          metadata?: Json | null
+          kind?: 'message' | 'moderation'
         }
         Update: {
           id?: string
@@ -163,6 +186,10 @@ export interface Database {
           timestamp?: string
           evolution_markers?: string[] | null
           efficiency_score?: number | null
+          fidelity_score?: number | null
+          cost_usd?: number
+          metadata?: Json | null
+          kind?: 'message' | 'moderation'
         }
         Relationships: [
           {
@@ -216,6 +243,58 @@ export interface Database {
           }
         ]
       }
+      lexicon_entries: {
+        Row: {
+          id: string
+          session_id: string
+          symbol: string
+          type: 'symbol' | 'abbreviation' | 'protocol' | 'structure'
+          meaning: string
+          introduced_by: string
+          first_iteration: number
+          adoption_count: number
+          adoption_events: Json
+          variants: string[]
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          session_id: string
+          symbol: string
+          type?: 'symbol' | 'abbreviation' | 'protocol' | 'structure'
+          meaning: string
+          introduced_by: string
+          first_iteration: number
+          adoption_count?: number
+          adoption_events?: Json
+          variants?: string[]
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          session_id?: string
+          symbol?: string
+          type?: 'symbol' | 'abbreviation' | 'protocol' | 'structure'
+          meaning?: string
+          introduced_by?: string
+          first_iteration?: number
+          adoption_count?: number
+          adoption_events?: Json
+          variants?: string[]
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lexicon_entries_session_id_fkey"
+            columns: ["session_id"]
+            referencedRelation: "sessions"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
     }
     Views: {
       [_ in never]: never
@@ -232,6 +311,11 @@ export interface Database {
           p_token_count: Json
           p_processing_time?: number
           p_evolution_markers?: string[]
+          p_metadata?: Json
+          p_kind?: string
+          p_fidelity_score?: number
+          p_cost_usd?: number
+          p_check_tokens?: number
         }
         Returns: string
       }
@@ -239,9 +323,32 @@ export interface Database {
         Args: {
           p_session_id: string
           p_status?: string
+          p_stop_reason?: string
         }
         Returns: Json
       }
+      merge_session_config: {
+        Args: {
+          p_session_id: string
+          p_patch: Json
+        }
+        Returns: Json
+      }
+      claim_session_runner: {
+        Args: {
+          p_session_id: string
+          p_owner: string
+          p_lease_seconds: number
+        }
+        Returns: string | null
+      }
+      release_session_runner: {
+        Args: {
+          p_session_id: string
+          p_owner: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -262,16 +369,19 @@ export type DatabaseSession = Database['public']['Tables']['sessions']['Row'];
 export type DatabaseParticipant = Database['public']['Tables']['participants']['Row'];
 export type DatabaseMessage = Database['public']['Tables']['messages']['Row'];
 export type DatabaseAnalyticsSnapshot = Database['public']['Tables']['analytics_snapshots']['Row'];
+export type DatabaseLexiconEntry = Database['public']['Tables']['lexicon_entries']['Row'];
 
 export type InsertSession = Database['public']['Tables']['sessions']['Insert'];
 export type InsertParticipant = Database['public']['Tables']['participants']['Insert'];
 export type InsertMessage = Database['public']['Tables']['messages']['Insert'];
 export type InsertAnalyticsSnapshot = Database['public']['Tables']['analytics_snapshots']['Insert'];
+export type InsertLexiconEntry = Database['public']['Tables']['lexicon_entries']['Insert'];
 
 export type UpdateSession = Database['public']['Tables']['sessions']['Update'];
 export type UpdateParticipant = Database['public']['Tables']['participants']['Update'];
 export type UpdateMessage = Database['public']['Tables']['messages']['Update'];
 export type UpdateAnalyticsSnapshot = Database['public']['Tables']['analytics_snapshots']['Update'];
+export type UpdateLexiconEntry = Database['public']['Tables']['lexicon_entries']['Update'];
 
 // Function return types
 export type AddMessageWithStatsResult = Database['public']['Functions']['add_message_with_stats']['Returns'];
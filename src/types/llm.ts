@@ -1,9 +1,17 @@
+/**
+ * speaker: takes conversation turns. moderator: periodically summarizes and
+ * steers (scheduled by SessionManager). observer: never speaks in the
+ * conversation; reserved for judging/evaluation tasks.
+ */
+export type ParticipantRole = 'speaker' | 'moderator' | 'observer';
+
 export interface LLMParticipant {
   id?: string;
   name: string;
   provider: LLMProvider;
   model: string;
   temperature: number;
+  role?: ParticipantRole; // Defaults to speaker; persisted in participants.config.role
   config?: Record<string, any>;
 }
 
@@ -22,6 +30,7 @@ export interface LLMResponse {
     requestId?: string;
     model: string;
     usage?: any;
+    streamed?: boolean;
   };
 }
 
@@ -35,8 +44,18 @@ export interface LLMRequest {
     content: string;
   }>;
   systemPrompt?: string;
+  metadata?: {
+    sessionId?: string;
+    participantName?: string;
+    iteration?: number;
+  };
 }
 
+/**
+ * Receives each chunk of generated text as it arrives from a streaming call
+ */
+export type StreamDeltaHandler = (delta: string) => void;
+
 export interface BaseLLMProvider {
   name: string;
   provider: LLMProvider;
@@ -44,6 +63,7 @@ export interface BaseLLMProvider {
   temperature: number;
   
   sendMessage(request: LLMRequest): Promise<LLMResponse>;
+  streamMessage(request: LLMRequest, onDelta: StreamDeltaHandler): Promise<LLMResponse>;
   countTokens(text: string): number;
   validateConfig(): boolean;
   getModels(): string[];
@@ -63,6 +83,7 @@ export interface ClaudeConfig {
   model: ClaudeModel;
   temperature: number;
   maxTokens?: number;
+  baseURL?: string; // Override for proxies or local test stubs
 }
 
 export interface GeminiConfig {
@@ -71,6 +92,7 @@ export interface GeminiConfig {
   temperature: number;
   projectId?: string;
   maxTokens?: number;
+  baseURL?: string;
 }
 
 export interface PerplexityConfig {
@@ -78,9 +100,43 @@ export interface PerplexityConfig {
   model: PerplexityModel;
   temperature: number;
   maxTokens?: number;
+  baseURL?: string;
 }
 
-export type LLMProvider = 'openai' | 'claude' | 'gemini' | 'perplexity';
+export interface MockConfig {
+  model: MockModel;
+  temperature: number;
+  seed?: number;
+  script?: string[]; // Overrides the built-in script for 'mock-scripted'
+  latencyMs?: number; // Simulated response delay
+  streamChunkDelayMs?: number; // Simulated delay between streamed chunks
+}
+
+export interface OpenAICompatibleConfig {
+  apiKey?: string; // Optional - many local servers do not require one
+  baseURL: string;
+  model: string;
+  temperature: number;
+  maxTokens?: number;
+  headers?: Record<string, string>;
+  pricing?: { input: number; output: number }; // Cost per 1K tokens
+}
+
+/**
+ * Shape of `LLMParticipant.config` for 'openai-compatible' participants.
+ * API keys are never stored with the participant; `apiKeyEnv` names a
+ * server-side environment variable (must start with `OPENAI_COMPATIBLE_`).
+ * `baseURL` must be the default endpoint or listed in
+ * OPENAI_COMPATIBLE_ALLOWED_BASE_URLS.
+ */
+export interface OpenAICompatibleParticipantConfig {
+  baseURL?: string;
+  apiKeyEnv?: string;
+  maxTokens?: number;
+  pricing?: { input: number; output: number }; // Cost per 1K tokens
+}
+
+export type LLMProvider = 'openai' | 'claude' | 'gemini' | 'perplexity' | 'mock' | 'openai-compatible';
 
 export type OpenAIModel = 
   | 'gpt-3.5-turbo'
@@ -105,6 +161,10 @@ export type PerplexityModel =
   | 'llama-3.1-sonar-large-128k-online'
   | 'llama-3.1-sonar-huge-128k-online';
 
+export type MockModel =
+  | 'mock-scripted'
+  | 'mock-random';
+
 // Provider-specific response types
 export interface OpenAIResponse {
   id: string;
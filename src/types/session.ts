@@ -8,6 +8,69 @@ export interface SessionConfig {
   customPrompt?: string;
   autoMode?: boolean;
   autoModeDelay?: number; // Delay between messages in milliseconds
+  runner?: SessionRunnerStatus; // Server-side auto mode progress (persisted in sessions.config)
+  retryPolicy?: Partial<RetryPolicyConfig>; // Overrides the LLM_RETRY_* defaults for this session
+  turnTaking?: TurnTakingConfig; // Defaults to round-robin
+  moderationInterval?: number; // Speaker turns between moderator turns (defaults to one round)
+  comprehensionChecks?: boolean; // Run a decode test after every message with a translation
+  similarityScorer?: string; // Semantic similarity scorer id (defaults to offline TF-IDF)
+  budget?: SessionBudget; // Stops the session with 'budget_exceeded' when a cap would be crossed
+  pausedAt?: string | null; // ISO time of the current pause; null once resumed
+  pausedMs?: number; // Time spent paused so far, left out of the duration budget
+}
+
+export interface SessionBudget {
+  maxCostUsd?: number;
+  maxTokens?: number; // Total tokens, prompts included
+  maxDurationMs?: number; // Wall-clock time since the session started, time spent paused excluded
+}
+
+export type BudgetLimit = 'cost' | 'tokens' | 'duration';
+
+export type SessionStopReason = 'manual' | 'completed' | 'error' | 'timeout' | 'budget_exceeded';
+
+export type TurnTakingStrategy =
+  | 'round-robin'
+  | 'random'
+  | 'weighted'
+  | 'most-addressed'
+  | 'moderator'
+  | 'respond-to-last-innovator';
+
+export interface TurnTakingConfig {
+  strategy: TurnTakingStrategy;
+  weights?: Record<string, number>; // weighted: relative share per participant name (default 1)
+  moderator?: string; // moderator: participant name that picks who speaks next
+  seed?: number; // random/weighted: combined with the session id for reproducible order
+}
+
+export interface RetryPolicyConfig {
+  maxAttempts: number; // Total attempts including the first
+  baseDelayMs: number; // Exponential backoff base
+  maxDelayMs: number; // Cap for a single backoff delay
+  budgetMs: number; // Total time allowed for waiting between attempts
+}
+
+export interface RetryAttempt {
+  attempt: number;
+  startedAt: string;
+  durationMs: number;
+  outcome: 'success' | 'error';
+  errorType?: string;
+  error?: string;
+  delayMs?: number; // Wait before the next attempt
+}
+
+export type SessionRunnerState = 'running' | 'paused' | 'completed' | 'stopped' | 'error';
+
+export interface SessionRunnerStatus {
+  state: SessionRunnerState;
+  delayMs: number;
+  lastIteration: number;
+  startedAt: string;
+  updatedAt: string;
+  error?: string;
+  leaseExpiresAt?: string; // From sessions.runner_lease_expires_at; a runner that stopped renewing it is dead
 }
 
 export interface SessionState {
@@ -21,6 +84,7 @@ export interface SessionState {
   startedAt: Date;
   updatedAt: Date;
   completedAt?: Date;
+  stopReason?: SessionStopReason;
 }
 
 export interface ConversationMessage {
@@ -36,7 +100,62 @@ export interface ConversationMessage {
   tokenCount: TokenCount;
   processingTime?: number;
   evolutionMarkers?: EvolutionMarker[];
-  efficiencyScore?: number;
+  efficiencyScore?: number; // Legacy: total tokens (prompt included) vs the previous message; see metadata.payloadEfficiency
+  fidelityScore?: number; // 0-1, how well another participant decoded it (comprehension checks)
+  costUsd?: number; // Priced from the model's input/output rates, decode test included
+  kind?: MessageKind; // Defaults to 'message'
+  metadata?: MessageMetadata;
+}
+
+/**
+ * 'moderation' messages come from a moderator participant. They reuse the
+ * iteration they follow and are excluded from efficiency analytics.
+ */
+export type MessageKind = 'message' | 'moderation';
+
+export interface MessageMetadata {
+  attempts?: RetryAttempt[]; // Every LLM call made to produce this message
+  comprehension?: ComprehensionCheck;
+  semanticFidelity?: SemanticFidelity;
+  payloadEfficiency?: PayloadEfficiency;
+}
+
+/**
+ * Efficiency of the evolved payload alone: completion tokens without the
+ * [decode: ...]/[decompress: ...] blocks, scored 0-100 (50 = no change)
+ * against the speaker's first message and the session's first round
+ */
+export interface PayloadEfficiency {
+  payloadTokens: number;
+  participantBaseline?: number; // Payload tokens of the speaker's first message
+  sessionBaseline?: number; // Average payload tokens of the first round
+  participantScore: number;
+  sessionScore: number;
+}
+
+/**
+ * How close a message's meaning stays to the session's baseline meaning (the
+ * uncompressed first round), and its token efficiency discounted by that
+ */
+export interface SemanticFidelity {
+  scorer: string;
+  source: 'decoded' | 'translation' | 'message'; // Which text stood in for the message's meaning
+  similarity: number; // 0-1
+  compressionAtFidelity: number; // 0-100, see analyzeCompressionAtFidelity
+}
+
+/**
+ * Result of a decode test: `decoderName` expanded the message without its
+ * translation and `fidelityScore` compares that expansion to the translation
+ */
+export interface ComprehensionCheck {
+  decoderId: string;
+  decoderName: string;
+  expansion: string;
+  fidelityScore: number;
+  tokenCount: TokenCount;
+  costUsd: number;
+  processingTime: number;
 }
 
 export interface TokenCount {
@@ -49,10 +168,15 @@ export interface SessionAnalytics {
   totalTokens: number;
   averageTokensPerMessage: number;
   tokenEfficiencyTrend: number[];
+  payloadEfficiencyTrend: number[]; // PayloadEfficiency.sessionScore per message
   participantStats: ParticipantStats[];
   evolutionMarkers: EvolutionMarker[];
   efficiencyImprovement: number;
   communicationPatterns: CommunicationPattern[];
+  fidelityTrend: number[]; // Semantic similarity to the baseline meaning per scored message
+  compressionAtFidelity: number; // Average compression-at-fidelity score (0-100)
+  totalCost: number; // Actual USD spend so far
+  projectedCost: number; // USD estimate made when the session started
 }
 
 export interface ParticipantStats {
@@ -61,9 +185,11 @@ export interface ParticipantStats {
   provider: string;
   messageCount: number;
   totalTokens: number;
+  totalCost: number;
   averageTokens: number;
   averageResponseTime: number;
-  efficiencyTrend: number[];
+  efficiencyTrend: number[]; // Legacy efficiencyScore per message
+  payloadEfficiencyTrend: number[]; // PayloadEfficiency.participantScore per message
   innovationScore: number;
 }
 
@@ -83,6 +209,35 @@ export interface CommunicationPattern {
   participants: string[];
 }
 
+/**
+ * A shared protocol term, persisted in lexicon_entries. Participants amend
+ * entries with a `LEXICON: <symbol> = <meaning>` line.
+ */
+export interface LexiconEntry {
+  id: string;
+  sessionId: string;
+  symbol: string;
+  type: LexiconEntryType;
+  meaning: string;
+  introducedBy: string;
+  firstIteration: number;
+  adoptionCount: number; // Participants other than the introducer who have used it
+  adoptionEvents: LexiconEvent[];
+  variants: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type LexiconEntryType = 'symbol' | 'abbreviation' | 'protocol' | 'structure';
+
+export interface LexiconEvent {
+  type: 'introduced' | 'used' | 'amended';
+  speaker: string;
+  iteration: number;
+  meaning?: string; // amended: the new meaning
+  consistent?: boolean; // used: whether the use matched the meaning, when it could be judged
+}
+
 export type SessionStatus = 'idle' | 'running' | 'paused' | 'completed' | 'stopped' | 'error';
 
 export type ConversationScenario = 'protocol-evolution' | 'semantic-compression' | 'symbol-invention' | 'meta-communication' | 'iterative-optimization';
@@ -106,6 +261,14 @@ export interface StartSessionRequest {
   participants: LLMParticipant[];
   maxIterations: number;
   customPrompt?: string;
+  autoMode?: boolean; // Start the server-side runner right away
+  autoModeDelay?: number;
+  retryPolicy?: Partial<RetryPolicyConfig>;
+  turnTaking?: TurnTakingConfig;
+  moderationInterval?: number;
+  comprehensionChecks?: boolean;
+  similarityScorer?: string;
+  budget?: SessionBudget;
 }
 
 export interface StartSessionResponse {
@@ -118,10 +281,20 @@ export interface StartSessionResponse {
 
 export interface SendMessageRequest {
   sessionId: string;
-  currentSpeaker?: string;
+  currentSpeaker?: string; // Participant name or id; honoured by the moderator strategy
   contextLimit?: number;
 }
 
+/**
+ * Streaming hooks for SessionManager.sendMessage. When `onDelta` is set the
+ * provider is called in streaming mode (if the model supports it).
+ */
+export interface SendMessageOptions {
+  onStart?: (turn: { speaker: string; participantId: string; iteration: number }) => void;
+  onDelta?: (delta: string) => void;
+  onRetry?: (attempt: RetryAttempt) => void; // A failed attempt is about to be retried
+}
+
 export interface SendMessageResponse {
   message: ConversationMessage;
   sessionStatus: {
@@ -149,7 +322,7 @@ export interface SessionStatusResponse {
 
 export interface StopSessionRequest {
   sessionId: string;
-  reason?: 'manual' | 'completed' | 'error' | 'timeout';
+  reason?: SessionStopReason;
 }
 
 export interface StopSessionResponse {